@@ -0,0 +1,53 @@
+import type { ReactNode } from "react";
+import { Link, useLocation } from "wouter";
+import { Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+const navItems = [
+  { href: "/", label: "ABG" },
+  { href: "/cord-gas", label: "Cord gas" },
+];
+
+interface AppHeaderProps {
+  subtitle: string;
+  children?: ReactNode;
+}
+
+export function AppHeader({ subtitle, children }: AppHeaderProps) {
+  const [location] = useLocation();
+
+  return (
+    <header className="border-b border-border bg-card sticky top-0 z-50">
+      <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Activity className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h1 className="font-semibold text-lg leading-tight">Blood Gas Interpreter</h1>
+            <p className="text-xs text-muted-foreground hidden sm:block">{subtitle}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <nav className="flex items-center gap-1">
+            {navItems.map((item) => (
+              <Button
+                key={item.href}
+                asChild
+                variant={location === item.href ? "secondary" : "ghost"}
+                size="sm"
+              >
+                <Link href={item.href} data-testid={`link-nav-${item.href.replace("/", "") || "home"}`}>
+                  {item.label}
+                </Link>
+              </Button>
+            ))}
+          </nav>
+          {children}
+          <ThemeToggle />
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,71 @@
+import { FlaskConical, Info } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { causeCategoryLabels, type CauseEntry } from "@shared/schema";
+
+export function CauseList({ causes }: { causes: CauseEntry[] }) {
+  return (
+    <Accordion type="multiple" className="w-full" data-testid="cause-list">
+      {causes.map((cause) => (
+        <AccordionItem key={cause.id} value={cause.id} data-testid={`cause-${cause.id}`}>
+          <AccordionTrigger className="hover:no-underline text-left">
+            <div className="flex items-center gap-2 flex-wrap">
+              {cause.mnemonics.map((entry) => (
+                <Badge
+                  key={`${entry.mnemonic}-${entry.letter}-${entry.word}`}
+                  variant="secondary"
+                  className="font-mono"
+                  title={`${entry.mnemonic}: ${entry.word}`}
+                >
+                  {entry.letter}
+                </Badge>
+              ))}
+              <span className="font-medium">{cause.name}</span>
+              <Badge variant="outline" className="font-normal">
+                {causeCategoryLabels[cause.category]}
+              </Badge>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3 text-sm">
+            <div>
+              <p className="font-semibold mb-1 flex items-center gap-1">
+                <Info className="w-4 h-4" />
+                Key features
+              </p>
+              <ul className="list-disc pl-6 space-y-0.5">
+                {cause.keyFeatures.map((feature, index) => (
+                  <li key={index}>{feature}</li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <p className="font-semibold mb-1 flex items-center gap-1">
+                <FlaskConical className="w-4 h-4" />
+                Confirming investigations
+              </p>
+              <ul className="list-disc pl-6 space-y-0.5">
+                {cause.investigations.map((investigation, index) => (
+                  <li key={index}>{investigation}</li>
+                ))}
+              </ul>
+            </div>
+            {cause.mnemonics.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {cause.mnemonics.map((entry) => `${entry.mnemonic} "${entry.letter}" = ${entry.word}`).join(" · ")}
+              </p>
+            )}
+            {cause.references.map((reference) => (
+              <p key={reference} className="text-xs text-muted-foreground italic">{reference}</p>
+            ))}
+            <p className="font-mono text-xs text-muted-foreground">ID: {cause.id}</p>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
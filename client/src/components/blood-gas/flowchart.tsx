@@ -91,7 +91,7 @@ function FlowchartNode({
 }
 
 export function Flowchart() {
-  const { currentStep, input, interpretation, setCurrentStep } = useWizard();
+  const { currentStep, input, interpretation, setCurrentStep, referenceProfile } = useWizard();
   const path = interpretation
     ? [
         "ph",
@@ -135,10 +135,10 @@ export function Flowchart() {
 
       {/* pH Thresholds */}
       <div className="absolute text-xs font-bold text-clinical-red" style={{ left: "28%", top: "8%" }}>
-        {"<7.35"}
+        {`<${referenceProfile.ranges.pH.low}`}
       </div>
       <div className="absolute text-xs font-bold text-clinical-orange" style={{ left: "68%", top: "8%" }}>
-        {">7.45"}
+        {`>${referenceProfile.ranges.pH.high}`}
       </div>
 
       {/* Connecting lines from pH - using viewBox for proper scaling */}
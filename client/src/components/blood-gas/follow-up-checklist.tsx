@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { causeKnowledgeBase, type FollowUpPriority, type FollowUpTest } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const priorityLabels: Record<FollowUpPriority, { label: string; color: string; borderColor: string }> = {
+  urgent: {
+    label: "Urgent",
+    color: "text-clinical-red",
+    borderColor: "border-clinical-red",
+  },
+  high: {
+    label: "High",
+    color: "text-clinical-orange",
+    borderColor: "border-clinical-orange",
+  },
+  routine: {
+    label: "Routine",
+    color: "text-muted-foreground",
+    borderColor: "border-border",
+  },
+};
+
+export function FollowUpChecklist({ tests }: { tests: FollowUpTest[] }) {
+  const [done, setDone] = useState<string[]>([]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setDone((current) => (checked ? [...current, id] : current.filter((item) => item !== id)));
+  };
+
+  return (
+    <ul className="space-y-2" data-testid="follow-up-checklist">
+      {tests.map((test) => {
+        const priority = priorityLabels[test.priority];
+        const isDone = done.includes(test.id);
+        return (
+          <li
+            key={test.id}
+            className={cn("p-3 rounded-lg border-l-4 bg-card border flex items-start gap-3", priority.borderColor)}
+            data-testid={`follow-up-${test.id}`}
+          >
+            <Checkbox
+              id={`follow-up-${test.id}`}
+              checked={isDone}
+              onCheckedChange={(checked) => toggle(test.id, checked === true)}
+              className="mt-0.5"
+              data-testid={`checkbox-follow-up-${test.id}`}
+            />
+            <div className="flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <Label
+                  htmlFor={`follow-up-${test.id}`}
+                  className={cn("font-semibold", isDone && "line-through text-muted-foreground")}
+                >
+                  {test.name}
+                </Label>
+                <Badge variant="outline" className={cn("ml-auto", priority.color)}>
+                  {priority.label}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">{test.rationale}</p>
+              {test.causeIds.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Confirms or excludes: {test.causeIds.map((id) => causeKnowledgeBase[id].name).join(", ")}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -3,3 +3,11 @@ export { Wizard } from "./wizard";
 export { StepIndicator } from "./step-indicator";
 export { Flowchart } from "./flowchart";
 export { ValueRangeIndicator } from "./value-range-indicator";
+export { UnitSelect } from "./unit-select";
+export { ReferenceProfileSelect } from "./reference-profile-select";
+export { ToxicAlcoholEstimate } from "./toxic-alcohol-estimate";
+export { TemperatureCorrection } from "./temperature-correction";
+export { ReasoningTrace } from "./reasoning-trace";
+export { InterpretationMethodComparison } from "./method-comparison";
+export { CauseList } from "./cause-list";
+export { FollowUpChecklist } from "./follow-up-checklist";
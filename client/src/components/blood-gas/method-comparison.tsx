@@ -0,0 +1,139 @@
+import { AlertTriangle, CheckCircle, CircleDashed } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  interpretationMethodDetails,
+  type MethodComparison,
+  type MethodConclusion,
+  type MethodDifference,
+} from "@shared/schema";
+import { formatChronicity, formatDisorderName } from "@/lib/blood-gas-logic";
+import { cn } from "@/lib/utils";
+
+function differsOn(
+  differences: MethodDifference[],
+  conclusion: MethodConclusion,
+  aspect: MethodDifference["aspect"],
+  finding?: string
+): boolean {
+  return differences.some(
+    (difference) =>
+      difference.aspect === aspect &&
+      (finding === undefined || difference.findings[conclusion.method] === finding)
+  );
+}
+
+function ConclusionColumn({
+  conclusion,
+  differences,
+}: {
+  conclusion: MethodConclusion;
+  differences: MethodDifference[];
+}) {
+  const details = interpretationMethodDetails[conclusion.method];
+
+  if (!conclusion.available) {
+    return (
+      <div className="p-4 rounded-lg border border-dashed space-y-1" data-testid={`method-${conclusion.method}`}>
+        <div className="flex items-center gap-2">
+          <CircleDashed className="w-4 h-4 text-muted-foreground shrink-0" />
+          <p className="font-semibold text-muted-foreground">{details.label}</p>
+        </div>
+        <p className="text-xs text-muted-foreground">{details.description}</p>
+        {conclusion.unavailableReason && (
+          <p className="text-sm text-muted-foreground">Not available: {conclusion.unavailableReason}</p>
+        )}
+      </div>
+    );
+  }
+
+  const primaryDiffers = differsOn(differences, conclusion, "primary_disorder");
+  const chronicityDiffers = differsOn(differences, conclusion, "chronicity");
+
+  return (
+    <div className="p-4 rounded-lg border space-y-3" data-testid={`method-${conclusion.method}`}>
+      <div>
+        <p className="font-semibold">{details.label}</p>
+        <p className="text-xs text-muted-foreground">{details.description}</p>
+      </div>
+
+      <div
+        className={cn(
+          "p-2 rounded-md border-l-4",
+          primaryDiffers || chronicityDiffers
+            ? "bg-clinical-orange-light border-clinical-orange"
+            : "bg-muted/50 border-transparent"
+        )}
+      >
+        <p className={cn("font-bold", primaryDiffers && "text-clinical-orange")}>
+          {conclusion.primaryDisorder && formatDisorderName(conclusion.primaryDisorder)}
+        </p>
+        {conclusion.chronicity && conclusion.chronicity !== "unknown" && (
+          <Badge
+            variant="outline"
+            className={cn("mt-1", chronicityDiffers && "border-clinical-orange text-clinical-orange")}
+          >
+            {formatChronicity(conclusion.chronicity)}
+          </Badge>
+        )}
+      </div>
+
+      {conclusion.secondaryDisorders.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {conclusion.secondaryDisorders.map((disorder) => {
+            const differs = differsOn(differences, conclusion, "concurrent_disorder", disorder);
+            return (
+              <li key={disorder} className="flex items-start gap-2">
+                {differs ? (
+                  <AlertTriangle className="w-4 h-4 mt-0.5 text-clinical-orange shrink-0" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mt-0.5 text-clinical-green shrink-0" />
+                )}
+                <span className={cn(differs && "text-clinical-orange font-medium")}>{disorder}</span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No concurrent disorders</p>
+      )}
+
+      <p className="text-xs text-muted-foreground">{conclusion.summary}</p>
+    </div>
+  );
+}
+
+export function InterpretationMethodComparison({ comparison }: { comparison: MethodComparison }) {
+  return (
+    <div className="space-y-4" data-testid="method-comparison">
+      <div className="grid gap-3 md:grid-cols-3">
+        {comparison.conclusions.map((conclusion) => (
+          <ConclusionColumn
+            key={conclusion.method}
+            conclusion={conclusion}
+            differences={comparison.differences}
+          />
+        ))}
+      </div>
+
+      {comparison.agree ? (
+        <div className="p-3 rounded-lg bg-clinical-green-light border-l-4 border-clinical-green">
+          <p className="text-sm font-medium text-clinical-green">
+            The available methods reach the same conclusions
+          </p>
+        </div>
+      ) : (
+        <div className="p-3 rounded-lg bg-clinical-orange-light border-l-4 border-clinical-orange">
+          <p className="font-semibold text-clinical-orange mb-1">Where the methods disagree</p>
+          <ul className="space-y-1 text-sm">
+            {comparison.differences.map((difference, index) => (
+              <li key={index} className="flex items-start gap-2" data-testid={`method-difference-${index}`}>
+                <AlertTriangle className="w-4 h-4 mt-0.5 text-clinical-orange shrink-0" />
+                {difference.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AlertCircle, AlertTriangle, Syringe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useWizard } from "../wizard-context";
+import {
+  bicarbonateTherapyParameters,
+  type BicarbonateTherapyOptions,
+  type BicarbonateWarningLevel,
+} from "@shared/schema";
+import { assessBicarbonateTherapy, formatInUnit, getUnit } from "@/lib/blood-gas-logic";
+import { cn } from "@/lib/utils";
+
+const therapySchema = z.object({
+  weight: z.coerce
+    .number()
+    .min(0.5, "Weight must be at least 0.5 kg")
+    .max(300, "Weight must be at most 300 kg"),
+  targetHCO3: z.coerce
+    .number()
+    .min(10, "Target HCO3 must be at least 10 mmol/L")
+    .max(30, "Target HCO3 must be at most 30 mmol/L"),
+  bicarbonateSpace: z.coerce
+    .number()
+    .min(0.2, "Bicarbonate space must be at least 0.2 L/kg")
+    .max(1, "Bicarbonate space must be at most 1 L/kg"),
+  infusionMinutes: z.coerce
+    .number()
+    .min(5, "Infusion time must be at least 5 minutes")
+    .max(1440, "Infusion time must be at most 1440 minutes"),
+});
+
+type TherapyFormData = z.infer<typeof therapySchema>;
+
+const fields: { name: keyof TherapyFormData; label: string; placeholder: string; step: string }[] = [
+  { name: "weight", label: "Weight (kg)", placeholder: "70", step: "0.1" },
+  { name: "targetHCO3", label: "Target HCO₃⁻ (mmol/L)", placeholder: "15", step: "1" },
+  { name: "bicarbonateSpace", label: "Bicarbonate space (L/kg)", placeholder: "0.5", step: "0.1" },
+  { name: "infusionMinutes", label: "Infusion time (min)", placeholder: "30", step: "5" },
+];
+
+const warningLabels: Record<BicarbonateWarningLevel, { label: string; color: string; bgColor: string; borderColor: string }> = {
+  contraindicated: {
+    label: "Contraindicated",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+  caution: {
+    label: "Caution",
+    color: "text-clinical-orange",
+    bgColor: "bg-clinical-orange-light",
+    borderColor: "border-clinical-orange",
+  },
+};
+
+export function BicarbonateTherapyPanel() {
+  const { input, interpretation } = useWizard();
+  const [options, setOptions] = useState<BicarbonateTherapyOptions | null>(null);
+
+  const form = useForm<TherapyFormData>({
+    resolver: zodResolver(therapySchema),
+    defaultValues: {
+      weight: undefined as unknown as number,
+      targetHCO3: bicarbonateTherapyParameters.defaultTargetHCO3,
+      bicarbonateSpace: bicarbonateTherapyParameters.defaultBicarbonateSpace,
+      infusionMinutes: bicarbonateTherapyParameters.defaultInfusionMinutes,
+    },
+  });
+
+  const result = interpretation && options ? assessBicarbonateTherapy(interpretation, options) : null;
+  const pCO2Unit = getUnit("pCO2", input.units);
+
+  return (
+    <Card data-testid="card-bicarbonate-therapy">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Syringe className="w-5 h-5" />
+          Treatment Support: Sodium Bicarbonate
+        </CardTitle>
+        <CardDescription>
+          Bicarbonate deficit, the CO₂ it releases and when bicarbonate should not be given
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(setOptions)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4">
+              {fields.map((item) => (
+                <FormField
+                  key={item.name}
+                  control={form.control}
+                  name={item.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold">{item.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step={item.step}
+                          placeholder={item.placeholder}
+                          className="font-mono"
+                          data-testid={`input-${item.name.toLowerCase()}`}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <Button type="submit" variant="secondary" data-testid="button-calculate-bicarbonate">
+              Calculate
+            </Button>
+          </form>
+        </Form>
+
+        {result && (
+          <div className="space-y-4">
+            {result.warnings.length > 0 && (
+              <ul className="space-y-2">
+                {result.warnings.map((warning, index) => {
+                  const level = warningLabels[warning.level];
+                  return (
+                    <li
+                      key={index}
+                      className={cn("p-3 rounded-lg border-l-4 flex items-start gap-2", level.bgColor, level.borderColor)}
+                      data-testid={`bicarbonate-warning-${index}`}
+                    >
+                      <AlertTriangle className={cn("w-4 h-4 mt-0.5 shrink-0", level.color)} />
+                      <p className="text-sm">
+                        <span className={cn("font-semibold", level.color)}>{level.label}: </span>
+                        {warning.message}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="p-4 rounded-lg bg-card border space-y-1">
+                <p className="text-sm text-muted-foreground">Bicarbonate deficit</p>
+                <p className="text-2xl font-bold font-mono" data-testid="text-bicarbonate-deficit">
+                  {result.deficit.toFixed(0)} mmol
+                </p>
+                <p className="text-sm">
+                  Initial dose <span className="font-mono font-semibold">{result.initialDose.toFixed(0)} mmol</span>
+                </p>
+                <p className="font-mono text-xs text-muted-foreground">{result.deficitFormula}</p>
+              </div>
+              <div className="p-4 rounded-lg bg-card border space-y-1">
+                <p className="text-sm text-muted-foreground">pCO₂ at fixed ventilation</p>
+                <p className="text-2xl font-bold font-mono" data-testid="text-expected-pco2">
+                  {formatInUnit("pCO2", result.expectedPCO2, input.units).toFixed(1)} {pCO2Unit}
+                </p>
+                <p className="text-sm">
+                  +{formatInUnit("pCO2", result.pCO2Rise, input.units).toFixed(1)} {pCO2Unit} from{" "}
+                  <span className="font-mono">{result.co2Load.toFixed(0)} mmol</span> CO₂ ({result.co2Volume.toFixed(0)} mL) over{" "}
+                  {result.infusionMinutes} min
+                </p>
+                <p className="font-mono text-xs text-muted-foreground">{result.pCO2Formula}</p>
+              </div>
+            </div>
+
+            <ul className="space-y-1">
+              {result.notes.map((note, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                  {note}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
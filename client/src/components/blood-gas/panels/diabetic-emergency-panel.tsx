@@ -0,0 +1,258 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AlertCircle, CheckCircle, CircleDashed, Syringe, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useWizard } from "../wizard-context";
+import { UnitSelect } from "../unit-select";
+import {
+  unitOptions,
+  type DiabeticEmergencyType,
+  type DiagnosticCriterion,
+} from "@shared/schema";
+import {
+  convertUnit,
+  describeInputLimits,
+  formatInUnit,
+  getUnit,
+  isWithinInputLimits,
+  toCanonicalUnit,
+} from "@/lib/blood-gas-logic";
+import { cn } from "@/lib/utils";
+
+const diabeticSchema = z.object({
+  glucoseUnit: z.enum(unitOptions.glucose),
+  glucose: z.coerce.number(),
+  ketones: z.coerce
+    .number()
+    .min(0, "β-hydroxybutyrate must be at least 0 mmol/L")
+    .max(20, "β-hydroxybutyrate must be at most 20 mmol/L")
+    .optional(),
+}).superRefine((data, ctx) => {
+  if (!isWithinInputLimits("glucose", data.glucose, data.glucoseUnit)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["glucose"],
+      message: `Glucose must be between ${describeInputLimits("glucose", data.glucoseUnit)}`,
+    });
+  }
+});
+
+type DiabeticFormData = z.infer<typeof diabeticSchema>;
+
+const typeLabels: Record<DiabeticEmergencyType, { label: string; color: string; bgColor: string; borderColor: string }> = {
+  dka: {
+    label: "Diabetic Ketoacidosis",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+  hhs: {
+    label: "Hyperosmolar Hyperglycaemic State",
+    color: "text-clinical-orange",
+    bgColor: "bg-clinical-orange-light",
+    borderColor: "border-clinical-orange",
+  },
+  mixed_dka_hhs: {
+    label: "Mixed DKA / HHS",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+  euglycaemic_dka: {
+    label: "Euglycaemic DKA",
+    color: "text-clinical-purple",
+    bgColor: "bg-clinical-purple-light",
+    borderColor: "border-clinical-purple",
+  },
+  none: {
+    label: "No Hyperglycaemic Emergency",
+    color: "text-clinical-green",
+    bgColor: "bg-clinical-green-light",
+    borderColor: "border-clinical-green",
+  },
+};
+
+function CriteriaList({ title, criteria }: { title: string; criteria: DiagnosticCriterion[] }) {
+  return (
+    <div>
+      <p className="font-semibold mb-2 text-sm">{title}</p>
+      <ul className="space-y-1 text-sm">
+        {criteria.map((criterion, index) => (
+          <li key={index} className="flex items-start gap-2">
+            {criterion.met === undefined ? (
+              <CircleDashed className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+            ) : criterion.met ? (
+              <CheckCircle className="w-4 h-4 mt-0.5 text-clinical-green shrink-0" />
+            ) : (
+              <XCircle className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+            )}
+            <span className={cn(criterion.met === undefined && "text-muted-foreground")}>
+              {criterion.label}
+              {criterion.met === undefined && " (not measured)"}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function DiabeticEmergencyPanel() {
+  const { input, updateInput, interpretation } = useWizard();
+
+  const form = useForm<DiabeticFormData>({
+    resolver: zodResolver(diabeticSchema),
+    defaultValues: {
+      glucoseUnit: getUnit("glucose", input.units) as DiabeticFormData["glucoseUnit"],
+      glucose: input.glucose !== undefined
+        ? formatInUnit("glucose", input.glucose, input.units)
+        : (undefined as unknown as number),
+      ketones: input.ketones ?? (undefined as unknown as number),
+    },
+  });
+
+  const handleGlucoseUnitChange = (unit: string) => {
+    const currentUnit = form.getValues("glucoseUnit");
+    const currentValue = form.getValues("glucose");
+    if (currentValue !== undefined) {
+      form.setValue("glucose", convertUnit("glucose", currentValue, currentUnit, unit));
+    }
+    form.setValue("glucoseUnit", unit as DiabeticFormData["glucoseUnit"]);
+  };
+
+  const onSubmit = (data: DiabeticFormData) => {
+    updateInput({
+      glucose: toCanonicalUnit("glucose", data.glucose, data.glucoseUnit),
+      ketones: data.ketones,
+      units: { ...input.units, glucose: data.glucoseUnit },
+    });
+  };
+
+  const result = interpretation?.diabeticEmergency;
+  const emergency = result ? typeLabels[result.type] : null;
+
+  return (
+    <Card data-testid="card-diabetic-emergency">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Syringe className="w-5 h-5" />
+          Diabetic Emergency: DKA / HHS
+        </CardTitle>
+        <CardDescription>
+          Corrected sodium, effective osmolality and DKA severity from glucose and ketones
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="glucose"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between gap-2">
+                      <FormLabel className="text-sm font-semibold">
+                        Glucose ({form.watch("glucoseUnit")})
+                      </FormLabel>
+                      <UnitSelect field="glucose" value={form.watch("glucoseUnit")} onChange={handleGlucoseUnitChange} />
+                    </div>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        placeholder="25"
+                        className="font-mono"
+                        data-testid="input-diabetic-glucose"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ketones"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-semibold">β-hydroxybutyrate (mmol/L)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        placeholder="3.0"
+                        className="font-mono"
+                        data-testid="input-ketones"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button type="submit" variant="secondary" data-testid="button-assess-diabetic-emergency">
+              Assess
+            </Button>
+          </form>
+        </Form>
+
+        {result && emergency && (
+          <div className="space-y-4">
+            <div className="p-4 rounded-lg bg-card border space-y-1">
+              <p className="text-sm text-muted-foreground mb-1">Calculation:</p>
+              <p className="font-mono text-sm">{result.correctedNaFormula}</p>
+              <p className="font-mono text-sm">{result.effectiveOsmolalityFormula}</p>
+            </div>
+
+            <div
+              className={cn("p-4 rounded-lg border-l-4", emergency.bgColor, emergency.borderColor)}
+              data-testid="text-diabetic-emergency"
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <p className={cn("font-bold text-lg", emergency.color)}>{emergency.label}</p>
+                {result.dkaSeverity && (
+                  <Badge variant="outline" className="capitalize">{result.dkaSeverity}</Badge>
+                )}
+              </div>
+              <p className="text-sm text-foreground/80">{result.interpretation}</p>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <CriteriaList title="DKA criteria" criteria={result.dkaCriteria} />
+              <CriteriaList title="HHS criteria" criteria={result.hhsCriteria} />
+            </div>
+
+            {result.notes.length > 0 && (
+              <ul className="space-y-1">
+                {result.notes.map((note, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <AlertCircle className="w-4 h-4 mt-0.5 text-clinical-orange shrink-0" />
+                    {note}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
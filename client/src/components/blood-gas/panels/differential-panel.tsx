@@ -0,0 +1,156 @@
+import { ArrowDown, ArrowUp, ListOrdered } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useWizard } from "../wizard-context";
+import {
+  clinicalContextFactorLabels,
+  clinicalContextFactors,
+  knownDrugLabels,
+  knownDrugs,
+  type ClinicalContextFactor,
+  type DifferentialLikelihood,
+  type KnownDrug,
+} from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const likelihoodLabels: Record<DifferentialLikelihood, { label: string; color: string; borderColor: string }> = {
+  likely: {
+    label: "Likely",
+    color: "text-clinical-red",
+    borderColor: "border-clinical-red",
+  },
+  possible: {
+    label: "Possible",
+    color: "text-clinical-orange",
+    borderColor: "border-clinical-orange",
+  },
+  less_likely: {
+    label: "Less likely",
+    color: "text-muted-foreground",
+    borderColor: "border-border",
+  },
+};
+
+export function DifferentialPanel() {
+  const { input, updateInput, interpretation } = useWizard();
+  const factors = input.clinicalContext?.factors ?? [];
+  const drugs = input.clinicalContext?.drugs ?? [];
+
+  const toggleFactor = (factor: ClinicalContextFactor, checked: boolean) => {
+    updateInput({
+      clinicalContext: {
+        ...input.clinicalContext,
+        factors: checked ? [...factors, factor] : factors.filter((item) => item !== factor),
+      },
+    });
+  };
+
+  const toggleDrug = (drug: KnownDrug, checked: boolean) => {
+    updateInput({
+      clinicalContext: {
+        ...input.clinicalContext,
+        drugs: checked ? [...drugs, drug] : drugs.filter((item) => item !== drug),
+      },
+    });
+  };
+
+  const differential = interpretation?.differential;
+
+  return (
+    <Card data-testid="card-differential">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListOrdered className="w-5 h-5" />
+          Ranked Differential
+        </CardTitle>
+        <CardDescription>
+          Causes ranked by the clinical context and the lab findings, with what moved each one
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <p className="font-semibold mb-2 text-sm">Clinical context</p>
+            <div className="grid gap-2 grid-cols-2">
+              {clinicalContextFactors.map((factor) => (
+                <div key={factor} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`context-${factor}`}
+                    checked={factors.includes(factor)}
+                    onCheckedChange={(checked) => toggleFactor(factor, checked === true)}
+                    data-testid={`checkbox-context-${factor}`}
+                  />
+                  <Label htmlFor={`context-${factor}`} className="text-sm font-normal">
+                    {clinicalContextFactorLabels[factor]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="font-semibold mb-2 text-sm">Known drugs</p>
+            <div className="grid gap-2 grid-cols-2">
+              {knownDrugs.map((drug) => (
+                <div key={drug} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`drug-${drug}`}
+                    checked={drugs.includes(drug)}
+                    onCheckedChange={(checked) => toggleDrug(drug, checked === true)}
+                    data-testid={`checkbox-drug-${drug}`}
+                  />
+                  <Label htmlFor={`drug-${drug}`} className="text-sm font-normal">
+                    {knownDrugLabels[drug]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {differential && (
+          <div className="space-y-3">
+            {differential.notes.map((note, index) => (
+              <p key={index} className="text-sm text-muted-foreground">{note}</p>
+            ))}
+            <ol className="space-y-2">
+              {differential.causes.map((cause, index) => {
+                const likelihood = likelihoodLabels[cause.likelihood];
+                return (
+                  <li
+                    key={cause.id}
+                    className={cn("p-3 rounded-lg border-l-4 bg-card border", likelihood.borderColor)}
+                    data-testid={`differential-${cause.id}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground font-mono text-sm">{index + 1}.</span>
+                      <p className="font-semibold">{cause.name}</p>
+                      <Badge variant="outline" className={cn("ml-auto", likelihood.color)}>
+                        {likelihood.label}
+                      </Badge>
+                    </div>
+                    {cause.adjustments.length > 0 && (
+                      <ul className="mt-1 pl-6 space-y-0.5 text-sm">
+                        {cause.adjustments.map((adjustment) => (
+                          <li key={adjustment.evidence} className="flex items-center gap-1">
+                            {adjustment.weight > 0 ? (
+                              <ArrowUp className="w-3 h-3 text-clinical-red shrink-0" />
+                            ) : (
+                              <ArrowDown className="w-3 h-3 text-clinical-green shrink-0" />
+                            )}
+                            {adjustment.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
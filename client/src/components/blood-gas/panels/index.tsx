@@ -0,0 +1,5 @@
+export { UrineAnionGapPanel } from "./urine-anion-gap-panel";
+export { MetabolicAlkalosisPanel } from "./metabolic-alkalosis-panel";
+export { DiabeticEmergencyPanel } from "./diabetic-emergency-panel";
+export { DifferentialPanel } from "./differential-panel";
+export { BicarbonateTherapyPanel } from "./bicarbonate-therapy-panel";
@@ -0,0 +1,229 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AlertCircle, ListOrdered, Waves } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useWizard } from "../wizard-context";
+import { volumeStatuses, type ChlorideResponse, type VolumeStatus } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const alkalosisSchema = z.object({
+  urineCl: z.coerce
+    .number()
+    .min(0, "Urine Cl must be at least 0 mmol/L")
+    .max(300, "Urine Cl must be at most 300 mmol/L")
+    .optional(),
+  urineK: z.coerce
+    .number()
+    .min(0, "Urine K must be at least 0 mmol/L")
+    .max(200, "Urine K must be at most 200 mmol/L")
+    .optional(),
+  systolicBP: z.coerce
+    .number()
+    .min(40, "Systolic BP must be at least 40 mmHg")
+    .max(300, "Systolic BP must be at most 300 mmHg")
+    .optional(),
+  diastolicBP: z.coerce
+    .number()
+    .min(20, "Diastolic BP must be at least 20 mmHg")
+    .max(200, "Diastolic BP must be at most 200 mmHg")
+    .optional(),
+  volumeStatus: z.enum(volumeStatuses).optional(),
+});
+
+type AlkalosisFormData = z.infer<typeof alkalosisSchema>;
+
+const numericFields: { name: Exclude<keyof AlkalosisFormData, "volumeStatus">; label: string; placeholder: string }[] = [
+  { name: "urineCl", label: "Urine Cl⁻ (mmol/L)", placeholder: "15" },
+  { name: "urineK", label: "Urine K⁺ (mmol/L)", placeholder: "25" },
+  { name: "systolicBP", label: "Systolic BP (mmHg)", placeholder: "120" },
+  { name: "diastolicBP", label: "Diastolic BP (mmHg)", placeholder: "80" },
+];
+
+const volumeStatusLabels: Record<VolumeStatus, string> = {
+  hypovolaemic: "Hypovolaemic",
+  euvolaemic: "Euvolaemic",
+  hypervolaemic: "Hypervolaemic",
+};
+
+const responseLabels: Record<ChlorideResponse, { label: string; color: string; bgColor: string; borderColor: string }> = {
+  chloride_responsive: {
+    label: "Chloride (saline) responsive",
+    color: "text-clinical-green",
+    bgColor: "bg-clinical-green-light",
+    borderColor: "border-clinical-green",
+  },
+  chloride_resistant: {
+    label: "Chloride (saline) resistant",
+    color: "text-clinical-orange",
+    bgColor: "bg-clinical-orange-light",
+    borderColor: "border-clinical-orange",
+  },
+  indeterminate: {
+    label: "Indeterminate",
+    color: "text-clinical-purple",
+    bgColor: "bg-clinical-purple-light",
+    borderColor: "border-clinical-purple",
+  },
+};
+
+export function MetabolicAlkalosisPanel() {
+  const { input, updateInput, interpretation } = useWizard();
+
+  const form = useForm<AlkalosisFormData>({
+    resolver: zodResolver(alkalosisSchema),
+    defaultValues: {
+      urineCl: input.urineCl ?? (undefined as unknown as number),
+      urineK: input.urineK ?? (undefined as unknown as number),
+      systolicBP: input.systolicBP ?? (undefined as unknown as number),
+      diastolicBP: input.diastolicBP ?? (undefined as unknown as number),
+      volumeStatus: input.volumeStatus,
+    },
+  });
+
+  const onSubmit = (data: AlkalosisFormData) => {
+    updateInput({
+      urineCl: data.urineCl,
+      urineK: data.urineK,
+      systolicBP: data.systolicBP,
+      diastolicBP: data.diastolicBP,
+      volumeStatus: data.volumeStatus,
+    });
+  };
+
+  const result = interpretation?.metabolicAlkalosis;
+  const response = result ? responseLabels[result.response] : null;
+
+  return (
+    <Card data-testid="card-metabolic-alkalosis">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Waves className="w-5 h-5" />
+          Metabolic Alkalosis: Chloride Response
+        </CardTitle>
+        <CardDescription>
+          Split chloride-responsive from chloride-resistant causes using urine chloride, blood pressure and volume status
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              {numericFields.map((item) => (
+                <FormField
+                  key={item.name}
+                  control={form.control}
+                  name={item.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold">{item.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="1"
+                          placeholder={item.placeholder}
+                          className="font-mono"
+                          data-testid={`input-${item.name.toLowerCase()}`}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="volumeStatus"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-semibold">Volume status</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-volume-status">
+                          <SelectValue placeholder="Not assessed" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {volumeStatuses.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {volumeStatusLabels[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button type="submit" variant="secondary" data-testid="button-classify-alkalosis">
+              Classify
+            </Button>
+          </form>
+        </Form>
+
+        {result && response && (
+          <div className="space-y-4">
+            <div
+              className={cn("p-4 rounded-lg border-l-4", response.bgColor, response.borderColor)}
+              data-testid="text-chloride-response"
+            >
+              <p className={cn("font-bold text-lg", response.color)}>
+                {response.label}
+                {result.response === "chloride_resistant" && result.isHypertensive !== undefined && (
+                  <span className="font-normal text-base">
+                    {result.isHypertensive ? " - hypertensive" : " - normotensive"}
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-foreground/80 mt-1">{result.interpretation}</p>
+            </div>
+
+            {result.notes.length > 0 && (
+              <ul className="space-y-1">
+                {result.notes.map((note, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <AlertCircle className="w-4 h-4 mt-0.5 text-clinical-orange shrink-0" />
+                    {note}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div>
+              <p className="font-semibold mb-2 flex items-center gap-2">
+                <ListOrdered className="w-4 h-4" />
+                Suggested Next Tests
+              </p>
+              <ol className="list-decimal pl-6 space-y-1 text-sm" data-testid="list-alkalosis-next-tests">
+                {result.nextTests.map((test, index) => (
+                  <li key={index}>{test}</li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
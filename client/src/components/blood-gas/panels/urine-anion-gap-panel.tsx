@@ -0,0 +1,202 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AlertCircle, Droplets } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useWizard } from "../wizard-context";
+import type { NAGMAOrigin } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const urineSchema = z.object({
+  urineNa: z.coerce
+    .number()
+    .min(0, "Urine Na must be at least 0 mmol/L")
+    .max(300, "Urine Na must be at most 300 mmol/L"),
+  urineK: z.coerce
+    .number()
+    .min(0, "Urine K must be at least 0 mmol/L")
+    .max(200, "Urine K must be at most 200 mmol/L"),
+  urineCl: z.coerce
+    .number()
+    .min(0, "Urine Cl must be at least 0 mmol/L")
+    .max(300, "Urine Cl must be at most 300 mmol/L"),
+  urineUrea: z.coerce
+    .number()
+    .min(0, "Urine urea must be at least 0 mmol/L")
+    .max(1000, "Urine urea must be at most 1000 mmol/L")
+    .optional(),
+  urineGlucose: z.coerce
+    .number()
+    .min(0, "Urine glucose must be at least 0 mmol/L")
+    .max(300, "Urine glucose must be at most 300 mmol/L")
+    .optional(),
+  urineOsmolality: z.coerce
+    .number()
+    .min(50, "Urine osmolality must be at least 50 mOsm/kg")
+    .max(1400, "Urine osmolality must be at most 1400 mOsm/kg")
+    .optional(),
+});
+
+type UrineFormData = z.infer<typeof urineSchema>;
+
+const fields: { name: keyof UrineFormData; label: string; placeholder: string }[] = [
+  { name: "urineNa", label: "Urine Na⁺ (mmol/L)", placeholder: "40" },
+  { name: "urineK", label: "Urine K⁺ (mmol/L)", placeholder: "30" },
+  { name: "urineCl", label: "Urine Cl⁻ (mmol/L)", placeholder: "80" },
+  { name: "urineUrea", label: "Urine urea (mmol/L, optional)", placeholder: "200" },
+  { name: "urineGlucose", label: "Urine glucose (mmol/L, optional)", placeholder: "0" },
+  { name: "urineOsmolality", label: "Urine osmolality (mOsm/kg, optional)", placeholder: "500" },
+];
+
+const originLabels: Record<NAGMAOrigin, { label: string; color: string; bgColor: string; borderColor: string }> = {
+  gastrointestinal: {
+    label: "GI (extrarenal) bicarbonate loss",
+    color: "text-clinical-green",
+    bgColor: "bg-clinical-green-light",
+    borderColor: "border-clinical-green",
+  },
+  renal: {
+    label: "Renal tubular acidosis",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+  indeterminate: {
+    label: "Indeterminate",
+    color: "text-clinical-purple",
+    bgColor: "bg-clinical-purple-light",
+    borderColor: "border-clinical-purple",
+  },
+};
+
+export function UrineAnionGapPanel() {
+  const { input, updateInput, interpretation } = useWizard();
+
+  const form = useForm<UrineFormData>({
+    resolver: zodResolver(urineSchema),
+    defaultValues: {
+      urineNa: input.urineNa ?? (undefined as unknown as number),
+      urineK: input.urineK ?? (undefined as unknown as number),
+      urineCl: input.urineCl ?? (undefined as unknown as number),
+      urineUrea: input.urineUrea ?? (undefined as unknown as number),
+      urineGlucose: input.urineGlucose ?? (undefined as unknown as number),
+      urineOsmolality: input.urineOsmolality ?? (undefined as unknown as number),
+    },
+  });
+
+  const onSubmit = (data: UrineFormData) => {
+    updateInput({
+      urineNa: data.urineNa,
+      urineK: data.urineK,
+      urineCl: data.urineCl,
+      urineUrea: data.urineUrea,
+      urineGlucose: data.urineGlucose,
+      urineOsmolality: data.urineOsmolality,
+    });
+  };
+
+  const result = interpretation?.urineAnionGap;
+  const origin = result ? originLabels[result.origin] : null;
+
+  return (
+    <Card data-testid="card-urine-anion-gap">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Droplets className="w-5 h-5" />
+          NAGMA Workup: Urine Anion & Osmolar Gap
+        </CardTitle>
+        <CardDescription>
+          Separate GI bicarbonate loss from renal tubular acidosis using a spot urine sample
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              {fields.map((item) => (
+                <FormField
+                  key={item.name}
+                  control={form.control}
+                  name={item.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold">{item.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="1"
+                          placeholder={item.placeholder}
+                          className="font-mono"
+                          data-testid={`input-${item.name.toLowerCase()}`}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <Button type="submit" variant="secondary" data-testid="button-calculate-urine-anion-gap">
+              Calculate
+            </Button>
+          </form>
+        </Form>
+
+        {result && origin && (
+          <div className="space-y-4">
+            <div className="p-4 rounded-lg bg-card border space-y-1">
+              <p className="text-sm text-muted-foreground mb-1">Calculation:</p>
+              <p className="font-mono text-sm">{result.formula}</p>
+              {result.urineOsmolarGapFormula && (
+                <p className="font-mono text-sm">{result.urineOsmolarGapFormula}</p>
+              )}
+            </div>
+
+            <div
+              className={cn("p-4 rounded-lg border-l-4", origin.bgColor, origin.borderColor)}
+              data-testid="text-nagma-origin"
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <p className={cn("font-bold text-lg", origin.color)}>{origin.label}</p>
+                <Badge variant="outline">UAG {result.urineAnionGap.toFixed(0)}</Badge>
+              </div>
+              <p className="text-sm text-foreground/80">{result.interpretation}</p>
+              {result.rtaHints.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {result.rtaHints.map((hint, index) => (
+                    <li key={index} className="text-sm">• {hint}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {result.caveats.length > 0 && (
+              <ul className="space-y-1">
+                {result.caveats.map((caveat, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm text-clinical-orange">
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {caveat}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import { ArrowRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { ReasoningStep, ReasoningThreshold } from "@shared/schema";
+
+function formatThreshold(threshold: ReasoningThreshold): string {
+  const unit = threshold.unit ? ` ${threshold.unit}` : "";
+  const parts: string[] = [];
+  if (threshold.low !== undefined && threshold.high !== undefined) {
+    parts.push(`${threshold.low} to ${threshold.high}${unit}`);
+  } else if (threshold.low !== undefined) {
+    parts.push(`≥ ${threshold.low}${unit}`);
+  } else if (threshold.high !== undefined) {
+    parts.push(`≤ ${threshold.high}${unit}`);
+  }
+  if (threshold.description) {
+    parts.push(threshold.description);
+  }
+  return parts.join(" · ");
+}
+
+export function ReasoningTrace({ trace }: { trace: ReasoningStep[] }) {
+  return (
+    <ol className="space-y-3" data-testid="reasoning-trace">
+      {trace.map((step, index) => (
+        <li key={step.id} className="p-3 rounded-lg border text-sm space-y-1" data-testid={`trace-${step.id}`}>
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-muted-foreground font-mono">{index + 1}.</span>
+            <p className="font-semibold">{step.title}</p>
+            <Badge variant="outline" className="font-mono text-xs ml-auto">
+              {step.outcome}
+            </Badge>
+          </div>
+          <p className="font-mono text-xs text-muted-foreground">
+            {Object.entries(step.inputs)
+              .map(([name, value]) => `${name} = ${value}`)
+              .join(", ")}
+          </p>
+          <p className="font-mono text-xs">{step.rule}</p>
+          {step.threshold && (
+            <p className="text-xs">
+              <span className="text-muted-foreground">Threshold: </span>
+              {formatThreshold(step.threshold)}
+            </p>
+          )}
+          {step.conclusion && (
+            <p className="flex items-center gap-1 font-medium">
+              <ArrowRight className="w-3 h-3 shrink-0" />
+              {step.conclusion}
+            </p>
+          )}
+          {step.reference && (
+            <p className="text-xs text-muted-foreground italic">{step.reference}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,40 @@
+import { FlaskConical } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { referenceProfiles, type ReferenceProfileId } from "@shared/schema";
+import { useWizard } from "./wizard-context";
+
+export function ReferenceProfileSelect() {
+  const { referenceProfile, setReferenceProfileId } = useWizard();
+
+  return (
+    <Select
+      value={referenceProfile.id}
+      onValueChange={(value) => setReferenceProfileId(value as ReferenceProfileId)}
+    >
+      <SelectTrigger
+        className="h-9 w-auto min-w-[12rem] text-sm"
+        title={referenceProfile.description}
+        data-testid="select-reference-profile"
+      >
+        <FlaskConical className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(referenceProfiles).map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            <div>
+              <p>{profile.name}</p>
+              <p className="text-xs text-muted-foreground">{profile.description}</p>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,13 +1,15 @@
 import { Check } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useWizard } from "./wizard-context";
+import { useWizard, type WizardStep } from "./wizard-context";
 
 const steps = [
   { number: 1, title: "Initial Values", shortTitle: "Values" },
-  { number: 2, title: "Anion Gap", shortTitle: "AG" },
-  { number: 3, title: "Osmolar Gap", shortTitle: "OG" },
-  { number: 4, title: "Compensation", shortTitle: "Comp" },
-  { number: 5, title: "Diagnosis", shortTitle: "Result" },
+  { number: 2, title: "Oxygenation", shortTitle: "O₂" },
+  { number: 3, title: "Anion Gap", shortTitle: "AG" },
+  { number: 4, title: "Osmolar Gap", shortTitle: "OG" },
+  { number: 5, title: "Stewart", shortTitle: "SIG" },
+  { number: 6, title: "Compensation", shortTitle: "Comp" },
+  { number: 7, title: "Diagnosis", shortTitle: "Result" },
 ];
 
 export function StepIndicator() {
@@ -18,11 +20,15 @@ export function StepIndicator() {
       case 1:
         return input.pH !== undefined && input.pCO2 !== undefined && input.HCO3 !== undefined;
       case 2:
-        return input.Na !== undefined && input.Cl !== undefined;
+        return currentStep > 2;
       case 3:
-        return currentStep > 3;
+        return input.Na !== undefined && input.Cl !== undefined;
       case 4:
         return currentStep > 4;
+      case 5:
+        return currentStep > 5;
+      case 6:
+        return currentStep > 6;
       default:
         return false;
     }
@@ -65,7 +71,7 @@ export function StepIndicator() {
                   )}
 
                   <button
-                    onClick={() => isClickable && setCurrentStep(step.number as 1 | 2 | 3 | 4 | 5)}
+                    onClick={() => isClickable && setCurrentStep(step.number as WizardStep)}
                     disabled={!isClickable}
                     className={cn(
                       "flex flex-col items-center gap-1 w-full transition-all duration-200",
@@ -1,5 +1,7 @@
 export { StepInitial } from "./step-initial";
+export { StepOxygenation } from "./step-oxygenation";
 export { StepAnionGap } from "./step-anion-gap";
 export { StepOsmolarGap } from "./step-osmolar-gap";
+export { StepStewart } from "./step-stewart";
 export { StepCompensation } from "./step-compensation";
 export { StepDiagnosis } from "./step-diagnosis";
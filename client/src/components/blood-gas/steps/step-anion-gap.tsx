@@ -16,8 +16,18 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ValueRangeIndicator } from "../value-range-indicator";
 import { useWizard } from "../wizard-context";
-import { normalRanges, metabolicAcidosisCauses } from "@shared/schema";
-import { calculateAnionGap } from "@/lib/blood-gas-logic";
+import { UnitSelect } from "../unit-select";
+import { metabolicAcidosisCauses, unitOptions, type CauseEntry } from "@shared/schema";
+import {
+  calculateAnionGap,
+  calculateLactateContribution,
+  convertUnit,
+  describeInputLimits,
+  formatInUnit,
+  getUnit,
+  isWithinInputLimits,
+  toCanonicalUnit,
+} from "@/lib/blood-gas-logic";
 import { cn } from "@/lib/utils";
 
 const anionGapSchema = z.object({
@@ -29,46 +39,107 @@ const anionGapSchema = z.object({
     .number()
     .min(70, "Cl must be at least 70 mmol/L")
     .max(130, "Cl must be at most 130 mmol/L"),
-  albumin: z.coerce
+  K: z.coerce
+    .number()
+    .min(1, "K must be at least 1 mmol/L")
+    .max(10, "K must be at most 10 mmol/L")
+    .optional(),
+  lactate: z.coerce
     .number()
-    .min(1, "Albumin must be at least 1 g/dL")
-    .max(6, "Albumin must be at most 6 g/dL")
+    .min(0, "Lactate must be at least 0 mmol/L")
+    .max(30, "Lactate must be at most 30 mmol/L")
     .optional(),
+  albuminUnit: z.enum(unitOptions.albumin),
+  albumin: z.coerce.number().optional(),
+}).superRefine((data, ctx) => {
+  if (data.albumin !== undefined && !isWithinInputLimits("albumin", data.albumin, data.albuminUnit)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["albumin"],
+      message: `Albumin must be between ${describeInputLimits("albumin", data.albuminUnit)}`,
+    });
+  }
 });
 
 type AnionGapFormData = z.infer<typeof anionGapSchema>;
 
 export function StepAnionGap() {
-  const { input, updateInput, goToNextStep, goToPreviousStep, interpretation } = useWizard();
-
+  const { input, updateInput, goToNextStep, goToPreviousStep, interpretation, referenceProfile } =
+    useWizard();
+  const referenceRanges = referenceProfile.ranges;
+  const agReference = referenceProfile.anionGap;
   const form = useForm<AnionGapFormData>({
     resolver: zodResolver(anionGapSchema),
     defaultValues: {
       Na: input.Na ?? (undefined as unknown as number),
       Cl: input.Cl ?? (undefined as unknown as number),
-      albumin: input.albumin ?? (undefined as unknown as number),
+      K: input.K ?? (undefined as unknown as number),
+      lactate: input.lactate ?? (undefined as unknown as number),
+      albuminUnit: getUnit("albumin", input.units) as AnionGapFormData["albuminUnit"],
+      albumin: input.albumin !== undefined
+        ? formatInUnit("albumin", input.albumin, input.units)
+        : (undefined as unknown as number),
     },
   });
 
   const watchedNa = form.watch("Na");
   const watchedCl = form.watch("Cl");
-  const watchedAlbumin = form.watch("albumin");
+  const watchedK = form.watch("K");
+  const watchedLactate = form.watch("lactate");
+  const includesPotassium = agReference.includesPotassium && watchedK !== undefined;
+  const watchedAlbuminUnit = form.watch("albuminUnit");
+  const watchedAlbuminValue = form.watch("albumin");
+  const watchedAlbumin =
+    watchedAlbuminValue !== undefined
+      ? toCanonicalUnit("albumin", watchedAlbuminValue, watchedAlbuminUnit)
+      : undefined;
+  const albuminUnits = { ...input.units, albumin: watchedAlbuminUnit };
 
   const onSubmit = (data: AnionGapFormData) => {
-    updateInput({ Na: data.Na, Cl: data.Cl, albumin: data.albumin });
+    updateInput({
+      Na: data.Na,
+      Cl: data.Cl,
+      K: data.K,
+      lactate: data.lactate,
+      albumin: data.albumin !== undefined
+        ? toCanonicalUnit("albumin", data.albumin, data.albuminUnit)
+        : undefined,
+      units: { ...input.units, albumin: data.albuminUnit },
+    });
     goToNextStep();
   };
 
+  const handleAlbuminUnitChange = (unit: string) => {
+    const nextUnit = unit as AnionGapFormData["albuminUnit"];
+    if (watchedAlbuminValue !== undefined) {
+      form.setValue("albumin", convertUnit("albumin", watchedAlbuminValue, watchedAlbuminUnit, nextUnit));
+    }
+    form.setValue("albuminUnit", nextUnit);
+  };
+
   // Calculate anion gap if we have required values
   const anionGapResult =
     watchedNa !== undefined && watchedCl !== undefined && input.HCO3 !== undefined
-      ? calculateAnionGap(watchedNa, watchedCl, input.HCO3, watchedAlbumin)
+      ? calculateAnionGap(
+        watchedNa,
+        watchedCl,
+        input.HCO3,
+        watchedAlbumin,
+        albuminUnits,
+        referenceProfile,
+        watchedK
+      )
+      : null;
+
+  const lactateContribution =
+    anionGapResult?.status === "high" && watchedLactate !== undefined
+      ? calculateLactateContribution(anionGapResult, watchedLactate)
       : null;
 
   const getAGStatusInfo = (status: string | undefined) => {
     if (!status) return null;
 
-    const statuses: Record<string, { label: string; description: string; color: string; bgColor: string; borderColor: string; mnemonic?: string; causes: string[] }> = {
+    const statuses: Record<string, { label: string; description: string; color: string; bgColor: string; borderColor: string; mnemonic?: string; causes: CauseEntry[] }> = {
       normal: {
         label: "Normal Anion Gap Metabolic Acidosis (NAGMA)",
         description: "The anion gap is within normal range. This suggests a hyperchloraemic metabolic acidosis.",
@@ -128,10 +199,13 @@ export function StepAnionGap() {
               <div className="p-4 rounded-lg bg-muted/50 border">
                 <p className="text-sm text-muted-foreground mb-2">Anion Gap Formula:</p>
                 <p className="text-lg font-mono font-semibold">
-                  AG = [Na⁺] - ([Cl⁻] + [HCO₃⁻])
+                  {includesPotassium
+                    ? "AG = ([Na⁺] + [K⁺]) - ([Cl⁻] + [HCO₃⁻])"
+                    : "AG = [Na⁺] - ([Cl⁻] + [HCO₃⁻])"}
                 </p>
                 <p className="text-sm text-muted-foreground mt-2">
-                  Normal = {normalRanges.anionGap.normal} (±4) mEq/L
+                  Normal = {includesPotassium ? agReference.normalWithPotassium : agReference.normal} (±
+                  {agReference.tolerance}) {agReference.unit} | {referenceProfile.name}
                 </p>
               </div>
 
@@ -159,7 +233,7 @@ export function StepAnionGap() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Normal: {normalRanges.Na.low}-{normalRanges.Na.high}
+                        Normal: {referenceRanges.Na.low}-{referenceRanges.Na.high}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -172,8 +246,8 @@ export function StepAnionGap() {
                       value={watchedNa}
                       min={100}
                       max={180}
-                      normalLow={normalRanges.Na.low}
-                      normalHigh={normalRanges.Na.high}
+                      normalLow={referenceRanges.Na.low}
+                      normalHigh={referenceRanges.Na.high}
                       unit=" mmol/L"
                       label="Na⁺"
                     />
@@ -203,7 +277,7 @@ export function StepAnionGap() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Normal: {normalRanges.Cl.low}-{normalRanges.Cl.high}
+                        Normal: {referenceRanges.Cl.low}-{referenceRanges.Cl.high}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -216,22 +290,23 @@ export function StepAnionGap() {
                       value={watchedCl}
                       min={70}
                       max={130}
-                      normalLow={normalRanges.Cl.low}
-                      normalHigh={normalRanges.Cl.high}
+                      normalLow={referenceRanges.Cl.low}
+                      normalHigh={referenceRanges.Cl.high}
                       unit=" mmol/L"
                       label="Cl⁻"
                     />
                   </div>
                 )}
 
-                {/* Albumin Input (Optional) */}
+                {/* K Input (Optional) */}
                 <FormField
                   control={form.control}
-                  name="albumin"
+                  name="K"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="text-base font-semibold">
-                        Albumin (g/dL) <span className="text-muted-foreground font-normal">(optional)</span>
+                      <FormLabel className="text-base font-semibold flex items-center gap-2">
+                        <Atom className="w-4 h-4" />
+                        K⁺ (mmol/L) <span className="text-muted-foreground font-normal">(optional)</span>
                       </FormLabel>
                       <FormControl>
                         <Input
@@ -239,6 +314,96 @@ export function StepAnionGap() {
                           step="0.1"
                           placeholder="4.0"
                           className="text-lg h-11 font-mono"
+                          data-testid="input-k"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Normal: {referenceRanges.K.low}-{referenceRanges.K.high}
+                        {agReference.includesPotassium && " | included in the AG"}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {watchedK !== undefined && (
+                  <div className="pt-2">
+                    <ValueRangeIndicator
+                      value={watchedK}
+                      min={1}
+                      max={10}
+                      normalLow={referenceRanges.K.low}
+                      normalHigh={referenceRanges.K.high}
+                      unit=" mmol/L"
+                      label="K⁺"
+                    />
+                  </div>
+                )}
+
+                {/* Lactate Input (Optional) */}
+                <FormField
+                  control={form.control}
+                  name="lactate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base font-semibold">
+                        Lactate (mmol/L) <span className="text-muted-foreground font-normal">(optional)</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          placeholder="1.0"
+                          className="text-lg h-11 font-mono"
+                          data-testid="input-lactate"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Normal: {referenceRanges.lactate.low}-{referenceRanges.lactate.high}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {watchedLactate !== undefined && (
+                  <div className="pt-2">
+                    <ValueRangeIndicator
+                      value={watchedLactate}
+                      min={0}
+                      max={15}
+                      normalLow={referenceRanges.lactate.low}
+                      normalHigh={referenceRanges.lactate.high}
+                      unit=" mmol/L"
+                      label="Lactate"
+                    />
+                  </div>
+                )}
+
+                {/* Albumin Input (Optional) */}
+                <FormField
+                  control={form.control}
+                  name="albumin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between gap-2">
+                        <FormLabel className="text-base font-semibold">
+                          Albumin ({watchedAlbuminUnit}) <span className="text-muted-foreground font-normal">(optional)</span>
+                        </FormLabel>
+                        <UnitSelect field="albumin" value={watchedAlbuminUnit} onChange={handleAlbuminUnitChange} />
+                      </div>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          placeholder={watchedAlbuminUnit === "g/L" ? "40" : "4.0"}
+                          className="text-lg h-11 font-mono"
                           data-testid="input-albumin"
                           {...field}
                           onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
@@ -253,15 +418,15 @@ export function StepAnionGap() {
                   )}
                 />
 
-                {watchedAlbumin !== undefined && (
+                {watchedAlbuminValue !== undefined && (
                   <div className="pt-2">
                     <ValueRangeIndicator
-                      value={watchedAlbumin}
-                      min={1}
-                      max={6}
-                      normalLow={3.5}
-                      normalHigh={5.0}
-                      unit=" g/dL"
+                      value={watchedAlbuminValue}
+                      min={formatInUnit("albumin", 1, albuminUnits)}
+                      max={formatInUnit("albumin", 6, albuminUnits)}
+                      normalLow={formatInUnit("albumin", referenceRanges.albumin.low, albuminUnits)}
+                      normalHigh={formatInUnit("albumin", referenceRanges.albumin.high, albuminUnits)}
+                      unit={` ${watchedAlbuminUnit}`}
                       label="Albumin"
                     />
                   </div>
@@ -306,6 +471,15 @@ export function StepAnionGap() {
                     )}
                   </div>
 
+                  {/* Lactate share of the AG */}
+                  {lactateContribution && (
+                    <div className="p-4 rounded-lg bg-card border" data-testid="lactate-contribution">
+                      <p className="text-sm text-muted-foreground mb-1">Lactate Contribution:</p>
+                      <p className="font-mono text-sm">{lactateContribution.formula}</p>
+                      <p className="text-sm text-foreground/80 mt-2">{lactateContribution.interpretation}</p>
+                    </div>
+                  )}
+
                   {/* Status Interpretation */}
                   {/* {agStatusInfo && (
                     <div
@@ -2,14 +2,20 @@ import { ArrowLeft, ArrowRight, Scale, TrendingUp, TrendingDown, Minus } from "l
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useWizard } from "../wizard-context";
+import { ageBands } from "@shared/schema";
+import { formatChronicity, formatInUnit, getUnit } from "@/lib/blood-gas-logic";
 import { cn } from "@/lib/utils";
 
 export function StepCompensation() {
-  const { interpretation, goToNextStep, goToPreviousStep } = useWizard();
+  const { input, interpretation, goToNextStep, goToPreviousStep, referenceProfile } = useWizard();
+  const winters = ageBands[referenceProfile.ageGroup].winters;
+  const pCO2Unit = getUnit("pCO2", input.units);
 
   const wintersFormula = interpretation?.wintersFormula;
   const deltaRatio = interpretation?.deltaRatio;
   const compensation = interpretation?.compensation;
+  const baseExcess = interpretation?.baseExcess;
+  const sbeCompensation = interpretation?.sbeCompensation;
 
   const getCompensationStatus = (status: string | undefined) => {
     const statuses: Record<string, { label: string; description: string; color: string; icon: typeof TrendingUp }> = {
@@ -70,6 +76,7 @@ export function StepCompensation() {
   const compensationInfo = getCompensationStatus(wintersFormula?.status || compensation?.status);
   const deltaRatioInfo = deltaRatio ? getDeltaRatioInfo(deltaRatio.status) : null;
   const CompIcon = compensationInfo.icon;
+  const sbeCompensationInfo = sbeCompensation ? getCompensationStatus(sbeCompensation.status) : null;
 
   return (
     <div className="space-y-6">
@@ -80,7 +87,7 @@ export function StepCompensation() {
               <Scale className="w-6 h-6 text-primary" />
             </div>
             <div>
-              <CardTitle className="text-xl">Step 5: Compensation Analysis</CardTitle>
+              <CardTitle className="text-xl">Step 6: Compensation Analysis</CardTitle>
               <CardDescription>
                 Evaluate whether compensation is appropriate or if secondary disorders exist
               </CardDescription>
@@ -99,8 +106,13 @@ export function StepCompensation() {
               <div className="p-4 rounded-lg bg-muted/50 border">
                 <p className="text-sm text-muted-foreground mb-2">Formula:</p>
                 <p className="font-mono text-base">
-                  Expected pCO₂ = (1.5 × [HCO₃⁻]) + 8 ± 2
+                  Expected pCO₂ = (1.5 × [HCO₃⁻]) + {winters.intercept} ± {winters.tolerance}
                 </p>
+                {winters.intercept !== ageBands.adult.winters.intercept && (
+                  <p className="text-sm text-muted-foreground mt-2">
+                    {ageBands[referenceProfile.ageGroup].label} constants: baseline pCO₂ runs lower than in adults
+                  </p>
+                )}
               </div>
 
               <div className="p-4 rounded-lg bg-card border">
@@ -111,9 +123,10 @@ export function StepCompensation() {
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground">Expected pCO₂</p>
                   <p className="text-2xl font-bold font-mono">
-                    {wintersFormula.expectedPCO2Low.toFixed(1)} - {wintersFormula.expectedPCO2High.toFixed(1)}
+                    {formatInUnit("pCO2", wintersFormula.expectedPCO2Low, input.units).toFixed(1)} -{" "}
+                    {formatInUnit("pCO2", wintersFormula.expectedPCO2High, input.units).toFixed(1)}
                   </p>
-                  <p className="text-sm text-muted-foreground">mmHg</p>
+                  <p className="text-sm text-muted-foreground">{pCO2Unit}</p>
                 </div>
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground">Actual pCO₂</p>
@@ -123,9 +136,9 @@ export function StepCompensation() {
                     wintersFormula.status === "inadequate" ? "text-clinical-orange" :
                     "text-clinical-red"
                   )}>
-                    {wintersFormula.actualPCO2}
+                    {formatInUnit("pCO2", wintersFormula.actualPCO2, input.units)}
                   </p>
-                  <p className="text-sm text-muted-foreground">mmHg</p>
+                  <p className="text-sm text-muted-foreground">{pCO2Unit}</p>
                 </div>
               </div>
 
@@ -168,7 +181,7 @@ export function StepCompensation() {
               <div className="p-4 rounded-lg bg-muted/50 border">
                 <p className="text-sm text-muted-foreground mb-2">Formula:</p>
                 <p className="font-mono text-base">
-                  Delta Ratio = (AG - 12) / (24 - HCO₃⁻)
+                  Delta Ratio = (AG - {interpretation?.anionGap?.normalValue}) / (24 - HCO₃⁻)
                 </p>
               </div>
 
@@ -255,11 +268,13 @@ export function StepCompensation() {
 
               {compensation.chronicity !== "unknown" && (
                 <div className="p-4 rounded-lg bg-clinical-blue-light border-l-4 border-clinical-blue">
-                  <p className="font-bold text-clinical-blue capitalize">
-                    {compensation.chronicity} Process
+                  <p className="font-bold text-clinical-blue">
+                    {formatChronicity(compensation.chronicity)} Process
                   </p>
                   <p className="text-sm text-foreground/80 mt-1">
-                    The compensation pattern suggests this is a {compensation.chronicity} process.
+                    {compensation.chronicity === "acute_on_chronic"
+                      ? "The change from the patient's baseline gas suggests an acute deterioration on top of a chronic disorder."
+                      : `The compensation pattern suggests this is a ${compensation.chronicity} process.`}
                   </p>
                 </div>
               )}
@@ -288,6 +303,90 @@ export function StepCompensation() {
             </div>
           )}
 
+          {/* Base Excess (Copenhagen approach) */}
+          {baseExcess && (
+            <div className="space-y-4">
+              <h3 className="font-semibold text-lg flex items-center gap-2">
+                <Scale className="w-5 h-5 text-primary" />
+                Base Excess (Copenhagen Approach)
+              </h3>
+
+              <div className="p-4 rounded-lg bg-card border space-y-1">
+                <p className="font-mono text-sm">{baseExcess.hco3Formula}</p>
+                {baseExcess.beFormula && (
+                  <p className="font-mono text-sm">{baseExcess.beFormula}</p>
+                )}
+                <p className="font-mono text-sm">{baseExcess.sbeFormula}</p>
+              </div>
+
+              <div className="flex items-center justify-center gap-8 p-6 rounded-lg bg-muted/30">
+                {baseExcess.baseExcess !== undefined && (
+                  <div className="text-center">
+                    <p className="text-sm text-muted-foreground">Base Excess</p>
+                    <p className="text-2xl font-bold font-mono">
+                      {baseExcess.baseExcess >= 0 ? "+" : ""}{baseExcess.baseExcess.toFixed(1)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">mmol/L</p>
+                  </div>
+                )}
+                <div className="text-center">
+                  <p className="text-sm text-muted-foreground">Standard Base Excess</p>
+                  <p className={cn(
+                    "text-3xl font-bold font-mono",
+                    Math.abs(baseExcess.standardBaseExcess) <= 3 ? "text-clinical-green" : "text-clinical-orange"
+                  )}>
+                    {baseExcess.standardBaseExcess >= 0 ? "+" : ""}{baseExcess.standardBaseExcess.toFixed(1)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">mmol/L (normal ±3)</p>
+                </div>
+              </div>
+
+              {sbeCompensation && sbeCompensationInfo && (
+                <>
+                  <div className="p-4 rounded-lg bg-muted/50 border">
+                    <p className="text-sm font-medium">{sbeCompensation.rule}</p>
+                  </div>
+
+                  <div className="flex items-center justify-center gap-8 p-6 rounded-lg bg-muted/30">
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">Expected</p>
+                      <p className="text-xl font-bold font-mono">{sbeCompensation.expectedChange}</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">Actual</p>
+                      <p className={cn(
+                        "text-xl font-bold font-mono",
+                        sbeCompensation.status === "appropriate" ? "text-clinical-green" : "text-clinical-orange"
+                      )}>
+                        {sbeCompensation.actualChange}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div
+                    className={cn(
+                      "p-4 rounded-lg border-l-4",
+                      sbeCompensation.status === "appropriate"
+                        ? "bg-clinical-green-light border-clinical-green"
+                        : sbeCompensation.status === "inadequate"
+                        ? "bg-clinical-orange-light border-clinical-orange"
+                        : "bg-clinical-red-light border-clinical-red"
+                    )}
+                    data-testid="sbe-compensation-interpretation"
+                  >
+                    <p className={cn("font-bold text-lg", sbeCompensationInfo.color)}>
+                      {sbeCompensationInfo.label}
+                      {sbeCompensation.chronicity !== "unknown" && ` (${sbeCompensation.chronicity})`}
+                    </p>
+                    <p className="text-sm text-foreground/80 mt-1">
+                      {sbeCompensationInfo.description}
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {/* No compensation data available */}
           {!wintersFormula && !deltaRatio && !compensation && (
             <div className="text-center py-8 text-muted-foreground">
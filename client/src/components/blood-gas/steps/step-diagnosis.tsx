@@ -1,4 +1,4 @@
-import { RotateCcw, FileText, AlertCircle, CheckCircle2, Stethoscope, Calculator } from "lucide-react";
+import { RotateCcw, FileText, AlertCircle, Stethoscope, Calculator, Wind, ListTree, Scale, ClipboardList } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -9,12 +9,35 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { useWizard } from "../wizard-context";
-import { formatDisorderName, getMnemonicForDisorder } from "@/lib/blood-gas-logic";
-import { normalRanges } from "@shared/schema";
+import {
+  BicarbonateTherapyPanel,
+  DiabeticEmergencyPanel,
+  DifferentialPanel,
+  MetabolicAlkalosisPanel,
+  UrineAnionGapPanel,
+} from "../panels";
+import { ToxicAlcoholEstimate } from "../toxic-alcohol-estimate";
+import { TemperatureCorrection } from "../temperature-correction";
+import { ReasoningTrace } from "../reasoning-trace";
+import { InterpretationMethodComparison } from "../method-comparison";
+import { CauseList } from "../cause-list";
+import { FollowUpChecklist } from "../follow-up-checklist";
+import {
+  compareInterpretationMethods,
+  formatDisorderName,
+  formatInUnit,
+  formatRespiratoryFailure,
+  getMnemonicForDisorder,
+  getSampleReferenceRanges,
+  getUnit,
+  isSevereMetabolicAcidosis,
+  recommendFollowUpTests,
+} from "@/lib/blood-gas-logic";
+import { sampleTypeOffsets } from "@shared/schema";
 import { cn } from "@/lib/utils";
 
 export function StepDiagnosis() {
-  const { interpretation, input, reset } = useWizard();
+  const { interpretation, input, reset, referenceProfile, ethanolCoefficient } = useWizard();
 
   if (!interpretation) {
     return (
@@ -69,10 +92,38 @@ export function StepDiagnosis() {
   };
 
   const colors = getDisorderColor(interpretation.primaryDisorder);
-  const mnemonic = getMnemonicForDisorder(
-    interpretation.primaryDisorder,
-    interpretation.anionGap?.status
-  );
+  const methodComparison = compareInterpretationMethods(input, {
+    profile: referenceProfile.id,
+    ethanolCoefficient,
+  });
+  const followUpTests = recommendFollowUpTests(interpretation);
+  const sampleRanges = getSampleReferenceRanges(interpretation.sampleType, referenceProfile);
+  const pCO2Unit = getUnit("pCO2", input.units);
+  const isNAGMA =
+    (interpretation.primaryDisorder === "metabolic_acidosis" ||
+      interpretation.dominance?.coPrimary === "metabolic_acidosis") &&
+    interpretation.anionGap?.status === "normal";
+  // HHS often has no acidosis, so an entered glucose is enough to offer the panel
+  const showDiabeticPanel =
+    input.glucose !== undefined ||
+    ((interpretation.primaryDisorder === "metabolic_acidosis" ||
+      interpretation.dominance?.coPrimary === "metabolic_acidosis") &&
+      interpretation.anionGap?.status === "high");
+  const showBicarbonatePanel = isSevereMetabolicAcidosis(interpretation);
+  const hasMetabolicAlkalosis =
+    interpretation.primaryDisorder === "metabolic_alkalosis" ||
+    interpretation.dominance?.coPrimary === "metabolic_alkalosis";
+  // Narrowed cause lists no longer follow the mnemonic
+  const causesNarrowed =
+    (interpretation.primaryDisorder === "metabolic_acidosis" &&
+      interpretation.urineAnionGap !== undefined &&
+      interpretation.urineAnionGap.origin !== "indeterminate") ||
+    (interpretation.primaryDisorder === "metabolic_alkalosis" &&
+      interpretation.metabolicAlkalosis !== undefined &&
+      interpretation.metabolicAlkalosis.response !== "indeterminate");
+  const mnemonic = causesNarrowed
+    ? null
+    : getMnemonicForDisorder(interpretation.primaryDisorder, interpretation.anionGap?.status);
 
   return (
     <div className="space-y-6">
@@ -86,7 +137,9 @@ export function StepDiagnosis() {
               </div>
               <div>
                 <CardTitle className="text-xl">Final Diagnosis</CardTitle>
-                <CardDescription>Blood gas interpretation summary</CardDescription>
+                <CardDescription>
+                  Blood gas interpretation summary | Reference set: {referenceProfile.name}
+                </CardDescription>
               </div>
             </div>
             <Badge className={cn("text-sm px-3 py-1", colors.badge)} data-testid="badge-disorder">
@@ -100,8 +153,112 @@ export function StepDiagnosis() {
             <p className={cn("font-bold text-lg", colors.text)} data-testid="text-diagnosis-summary">
               {interpretation.summary}
             </p>
+            {interpretation.dominance?.coPrimary && (
+              <p className="text-sm text-foreground/80 mt-1" data-testid="text-dominance">
+                Primary: {formatDisorderName(interpretation.dominance.primary)} | Co-primary:{" "}
+                {formatDisorderName(interpretation.dominance.coPrimary)} | Confidence in primary:{" "}
+                {interpretation.dominance.confidence}
+              </p>
+            )}
           </div>
 
+          {/* Mixed Disorder With Normal pH */}
+          {interpretation.mixedDisorder && (
+            <div className="p-4 rounded-lg bg-clinical-purple-light border-l-4 border-clinical-purple" data-testid="text-mixed-disorder">
+              <p className="font-bold text-clinical-purple mb-1">Likely Mixed Disorder (normal pH)</p>
+              <p className="text-sm mb-2">{interpretation.mixedDisorder.explanation}</p>
+              <p className="text-sm font-medium mb-1">Candidate pairs:</p>
+              <ul className="space-y-1">
+                {interpretation.mixedDisorder.candidates.map((candidate, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <AlertCircle className="w-4 h-4 mt-0.5 text-clinical-purple shrink-0" />
+                    <span>
+                      <span className="font-medium">
+                        {formatDisorderName(candidate.disorders[0])} + {formatDisorderName(candidate.disorders[1])}
+                      </span>
+                      {" - "}
+                      {candidate.description}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Sample Type Limitations */}
+          {interpretation.sampleLimitations.length > 0 && (
+            <div className="p-4 rounded-lg bg-clinical-orange-light border-l-4 border-clinical-orange" data-testid="text-sample-limitations">
+              <p className="font-bold text-clinical-orange mb-2">
+                {sampleTypeOffsets[interpretation.sampleType].label} Sample Limitations:
+              </p>
+              <ul className="space-y-1">
+                {interpretation.sampleLimitations.map((limitation, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <AlertCircle className="w-4 h-4 mt-0.5 text-clinical-orange shrink-0" />
+                    {limitation}
+                  </li>
+                ))}
+              </ul>
+              {interpretation.arterialEstimate && (
+                <p className="text-sm mt-2 font-mono">
+                  Estimated arterial: pH {interpretation.arterialEstimate.pH.toFixed(2)} |
+                  pCO₂ {formatInUnit("pCO2", interpretation.arterialEstimate.pCO2, input.units).toFixed(1)} {pCO2Unit} |
+                  HCO₃⁻ {interpretation.arterialEstimate.HCO3.toFixed(1)} mmol/L
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Temperature Correction */}
+          {interpretation.temperatureCorrection && (
+            <div className="p-4 rounded-lg bg-card border">
+              <TemperatureCorrection result={interpretation.temperatureCorrection} units={input.units} />
+            </div>
+          )}
+
+          {/* Pregnancy Baselines */}
+          {interpretation.pregnancy && (
+            <div
+              className={cn(
+                "p-4 rounded-lg border-l-4",
+                interpretation.pregnancy.relativeHypercapnia
+                  ? "bg-clinical-red-light border-clinical-red"
+                  : "bg-clinical-purple-light border-clinical-purple"
+              )}
+              data-testid="text-pregnancy"
+            >
+              <p
+                className={cn(
+                  "font-bold mb-2",
+                  interpretation.pregnancy.relativeHypercapnia ? "text-clinical-red" : "text-clinical-purple"
+                )}
+              >
+                {interpretation.pregnancy.relativeHypercapnia
+                  ? "Relative Hypercapnia for Pregnancy"
+                  : "Pregnancy-Adjusted Interpretation"}
+              </p>
+              <ul className="space-y-1">
+                {interpretation.pregnancy.notes.map((note, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {note}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Internal Consistency Warning */}
+          {!interpretation.consistency.isConsistent && (
+            <div className="p-4 rounded-lg bg-clinical-red-light border-l-4 border-clinical-red" data-testid="text-consistency-warning">
+              <p className="font-bold text-clinical-red mb-1">Check Input Values</p>
+              <p className="text-sm">
+                pH, pCO₂ and HCO₃⁻ are inconsistent (expected pH {interpretation.consistency.expectedPH.toFixed(2)}).
+                This interpretation may be based on a transcription error or mismatched samples.
+              </p>
+            </div>
+          )}
+
           {/* Secondary Disorders */}
           {interpretation.secondaryDisorders.length > 0 && (
             <div className="p-4 rounded-lg bg-clinical-purple-light border-l-4 border-clinical-purple">
@@ -117,6 +274,17 @@ export function StepDiagnosis() {
             </div>
           )}
 
+          {/* Method Comparison */}
+          {methodComparison && (
+            <div>
+              <h3 className="font-semibold mb-3 flex items-center gap-2">
+                <Scale className="w-5 h-5" />
+                Boston vs Copenhagen vs Stewart
+              </h3>
+              <InterpretationMethodComparison comparison={methodComparison} />
+            </div>
+          )}
+
           {/* Input Values Summary */}
           <div>
             <h3 className="font-semibold mb-3 flex items-center gap-2">
@@ -129,14 +297,14 @@ export function StepDiagnosis() {
                   <p className="text-sm text-muted-foreground">pH</p>
                   <p className={cn(
                     "text-xl font-bold font-mono",
-                    input.pH < normalRanges.pH.low ? "text-clinical-red" :
-                      input.pH > normalRanges.pH.high ? "text-clinical-orange" :
+                    input.pH < sampleRanges.pH.low ? "text-clinical-red" :
+                      input.pH > sampleRanges.pH.high ? "text-clinical-orange" :
                         "text-clinical-green"
                   )}>
                     {input.pH.toFixed(2)}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Normal: {normalRanges.pH.low} - {normalRanges.pH.high}
+                    Normal: {sampleRanges.pH.low.toFixed(2)} - {sampleRanges.pH.high.toFixed(2)}
                   </p>
                 </div>
               )}
@@ -145,14 +313,15 @@ export function StepDiagnosis() {
                   <p className="text-sm text-muted-foreground">pCO₂</p>
                   <p className={cn(
                     "text-xl font-bold font-mono",
-                    input.pCO2 < normalRanges.pCO2.low ? "text-clinical-blue" :
-                      input.pCO2 > normalRanges.pCO2.high ? "text-clinical-blue" :
+                    input.pCO2 < sampleRanges.pCO2.low ? "text-clinical-blue" :
+                      input.pCO2 > sampleRanges.pCO2.high ? "text-clinical-blue" :
                         "text-clinical-green"
                   )}>
-                    {input.pCO2} mmHg
+                    {formatInUnit("pCO2", input.pCO2, input.units)} {pCO2Unit}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Normal: {normalRanges.pCO2.low} - {normalRanges.pCO2.high}
+                    Normal: {formatInUnit("pCO2", sampleRanges.pCO2.low, input.units)} -{" "}
+                    {formatInUnit("pCO2", sampleRanges.pCO2.high, input.units)}
                   </p>
                 </div>
               )}
@@ -161,20 +330,65 @@ export function StepDiagnosis() {
                   <p className="text-sm text-muted-foreground">HCO₃⁻</p>
                   <p className={cn(
                     "text-xl font-bold font-mono",
-                    input.HCO3 < normalRanges.HCO3.low ? "text-clinical-orange" :
-                      input.HCO3 > normalRanges.HCO3.high ? "text-clinical-orange" :
+                    input.HCO3 < sampleRanges.HCO3.low ? "text-clinical-orange" :
+                      input.HCO3 > sampleRanges.HCO3.high ? "text-clinical-orange" :
                         "text-clinical-green"
                   )}>
                     {input.HCO3} mmol/L
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Normal: {normalRanges.HCO3.low} - {normalRanges.HCO3.high}
+                    Normal: {sampleRanges.HCO3.low} - {sampleRanges.HCO3.high}
                   </p>
                 </div>
               )}
             </div>
           </div>
 
+          {/* Oxygenation Summary */}
+          {interpretation.oxygenation && (
+            <div>
+              <h3 className="font-semibold mb-3 flex items-center gap-2">
+                <Wind className="w-5 h-5" />
+                Oxygenation
+              </h3>
+              <div className="grid gap-3 md:grid-cols-3">
+                <div className="p-3 rounded-lg bg-muted/50 border">
+                  <p className="text-sm text-muted-foreground">A-a Gradient</p>
+                  <p className={cn(
+                    "text-xl font-bold font-mono",
+                    interpretation.oxygenation.isAaGradientElevated ? "text-clinical-red" : "text-clinical-green"
+                  )}>
+                    {interpretation.oxygenation.aaGradient.toFixed(0)} mmHg
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Expected: ≤ {interpretation.oxygenation.expectedAaGradient.toFixed(0)}
+                  </p>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border">
+                  <p className="text-sm text-muted-foreground">P/F Ratio</p>
+                  <p className={cn(
+                    "text-xl font-bold font-mono",
+                    interpretation.oxygenation.ardsSeverity === "none" ? "text-clinical-green" : "text-clinical-red"
+                  )}>
+                    {interpretation.oxygenation.pfRatio.toFixed(0)}
+                  </p>
+                  <p className="text-xs text-muted-foreground capitalize">
+                    Berlin: {interpretation.oxygenation.ardsSeverity === "none" ? "not in ARDS range" : interpretation.oxygenation.ardsSeverity}
+                  </p>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border">
+                  <p className="text-sm text-muted-foreground">Respiratory Failure</p>
+                  <p className={cn(
+                    "text-base font-bold",
+                    interpretation.oxygenation.respiratoryFailure === "none" ? "text-clinical-green" : "text-clinical-red"
+                  )} data-testid="text-respiratory-failure">
+                    {formatRespiratoryFailure(interpretation.oxygenation.respiratoryFailure)}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Calculations Summary */}
           <Accordion type="single" collapsible className="w-full">
             {interpretation.anionGap && (
@@ -227,7 +441,7 @@ export function StepDiagnosis() {
                   <div className="space-y-2 text-sm pl-6">
                     <p className="font-mono">{interpretation.wintersFormula.formula}</p>
                     <p>
-                      Actual pCO₂: <span className="font-mono font-medium">{interpretation.wintersFormula.actualPCO2} mmHg</span>
+                      Actual pCO₂: <span className="font-mono font-medium">{formatInUnit("pCO2", interpretation.wintersFormula.actualPCO2, input.units)} {pCO2Unit}</span>
                     </p>
                     {interpretation.wintersFormula.status !== "appropriate" && (
                       <p className="text-clinical-orange">
@@ -287,14 +501,147 @@ export function StepDiagnosis() {
                         ? "Elevated - consider toxic alcohols"
                         : "Normal osmolar gap"}
                     </p>
+                    {interpretation.toxicAlcohols && (
+                      <div className="pt-2">
+                        <ToxicAlcoholEstimate result={interpretation.toxicAlcohols} />
+                      </div>
+                    )}
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            )}
+
+            {interpretation.electrolytes && (
+              <AccordionItem value="electrolytes">
+                <AccordionTrigger className="hover:no-underline">
+                  <div className="flex items-center gap-2">
+                    <Calculator className="w-4 h-4" />
+                    Electrolytes & Lactate
+                    {interpretation.electrolytes.warnings.length > 0 && (
+                      <Badge variant="outline" className="ml-2 border-clinical-orange text-clinical-orange">
+                        {interpretation.electrolytes.warnings.length} warning
+                        {interpretation.electrolytes.warnings.length > 1 ? "s" : ""}
+                      </Badge>
+                    )}
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <div className="space-y-2 text-sm pl-6">
+                    <div className="flex flex-wrap gap-2">
+                      {interpretation.electrolytes.flags.map((flag) => (
+                        <Badge
+                          key={flag.analyte}
+                          variant="outline"
+                          className={cn(
+                            "font-mono",
+                            flag.status === "normal"
+                              ? "border-clinical-green text-clinical-green"
+                              : "border-clinical-orange text-clinical-orange"
+                          )}
+                        >
+                          {flag.label} {flag.value}
+                          {flag.status !== "normal" && ` (${flag.status})`}
+                        </Badge>
+                      ))}
+                    </div>
+                    {interpretation.electrolytes.pHAdjustedK !== undefined && (
+                      <p>
+                        K⁺ expected at pH 7.40: <span className="font-mono">{interpretation.electrolytes.pHAdjustedK.toFixed(1)} mmol/L</span>
+                      </p>
+                    )}
+                    {interpretation.electrolytes.normalisedCa !== undefined && (
+                      <p>
+                        Ionised Ca²⁺ at pH 7.40: <span className="font-mono">{interpretation.electrolytes.normalisedCa.toFixed(2)} mmol/L</span>
+                      </p>
+                    )}
+                    {interpretation.electrolytes.lactateContribution && (
+                      <>
+                        <p className="font-mono">{interpretation.electrolytes.lactateContribution.formula}</p>
+                        <p>{interpretation.electrolytes.lactateContribution.interpretation}</p>
+                      </>
+                    )}
+                    {interpretation.electrolytes.warnings.map((warning, index) => (
+                      <p key={index} className="flex items-start gap-2 text-clinical-orange">
+                        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            )}
+
+            {interpretation.stewart && (
+              <AccordionItem value="stewart">
+                <AccordionTrigger className="hover:no-underline">
+                  <div className="flex items-center gap-2">
+                    <Calculator className="w-4 h-4" />
+                    Stewart Analysis
+                    <Badge variant="outline" className={cn(
+                      "ml-2",
+                      interpretation.stewart.sigStatus === "elevated" ? "border-clinical-red text-clinical-red" : "border-clinical-green text-clinical-green"
+                    )}>
+                      SIG {interpretation.stewart.SIG.toFixed(1)} mEq/L
+                    </Badge>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <div className="space-y-2 text-sm pl-6">
+                    <p className="font-mono">{interpretation.stewart.sidaFormula}</p>
+                    <p className="font-mono">{interpretation.stewart.sideFormula}</p>
+                    <p className="font-mono">{interpretation.stewart.sigFormula}</p>
+                    <p className={interpretation.stewart.sigStatus === "elevated" ? "text-clinical-red font-medium" : "text-clinical-green"}>
+                      {interpretation.stewart.sigStatus === "elevated"
+                        ? "Elevated SIG - unmeasured anions present"
+                        : interpretation.stewart.sigStatus === "negative"
+                          ? "Negative SIG - consider unmeasured cations or analytical error"
+                          : "Normal strong ion gap"}
+                    </p>
+                    {interpretation.stewart.sidStatus !== "normal" && (
+                      <p className="text-clinical-orange">
+                        {interpretation.stewart.sidStatus === "low"
+                          ? "Low SIDa - strong ion (hyperchloraemic) acidosis"
+                          : "High SIDa - strong ion alkalosis"}
+                      </p>
+                    )}
                   </div>
                 </AccordionContent>
               </AccordionItem>
             )}
+
+            <AccordionItem value="reasoning">
+              <AccordionTrigger className="hover:no-underline">
+                <div className="flex items-center gap-2">
+                  <ListTree className="w-4 h-4" />
+                  Reasoning Trace
+                  <Badge variant="outline" className="ml-2">
+                    {interpretation.trace.length} steps
+                  </Badge>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <ReasoningTrace trace={interpretation.trace} />
+              </AccordionContent>
+            </AccordionItem>
           </Accordion>
         </CardContent>
       </Card>
 
+      {/* DKA / HHS */}
+      {showDiabeticPanel && <DiabeticEmergencyPanel />}
+
+      {/* NAGMA Urine Workup */}
+      {isNAGMA && <UrineAnionGapPanel />}
+
+      {/* Metabolic Alkalosis Chloride Response */}
+      {hasMetabolicAlkalosis && <MetabolicAlkalosisPanel />}
+
+      {/* Severe Metabolic Acidosis Treatment Support */}
+      {showBicarbonatePanel && <BicarbonateTherapyPanel />}
+
+      {/* Ranked Differential */}
+      {interpretation.differential.groups.length > 0 && <DifferentialPanel />}
+
       {/* Causes Card */}
       {interpretation.causes.length > 0 && (
         <Card>
@@ -308,16 +655,30 @@ export function StepDiagnosis() {
                 </Badge>
               )}
             </CardTitle>
+            <CardDescription>
+              Expand a cause for its key features, confirming investigations and references
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CauseList causes={interpretation.causes} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Follow-up Tests */}
+      {followUpTests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ClipboardList className="w-5 h-5" />
+              Follow-up Tests
+            </CardTitle>
+            <CardDescription>
+              What to send next, most urgent first, with the reason this gas calls for it
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <ul className="grid gap-2 md:grid-cols-2">
-              {interpretation.causes.map((cause, index) => (
-                <li key={index} className="flex items-start gap-2 text-sm">
-                  <CheckCircle2 className="w-4 h-4 mt-0.5 text-primary shrink-0" />
-                  <span>{cause}</span>
-                </li>
-              ))}
-            </ul>
+            <FollowUpChecklist tests={followUpTests} />
           </CardContent>
         </Card>
       )}
@@ -16,7 +16,6 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ValueRangeIndicator } from "../value-range-indicator";
 import { useWizard } from "../wizard-context";
-import { normalRanges } from "@shared/schema";
 import { determinePrimaryDisorder, formatDisorderName } from "@/lib/blood-gas-logic";
 import { cn } from "@/lib/utils";
 
@@ -34,7 +33,8 @@ const gasesSchema = z.object({
 type GasesFormData = z.infer<typeof gasesSchema>;
 
 export function StepGases() {
-  const { input, updateInput, goToNextStep, goToPreviousStep } = useWizard();
+  const { input, updateInput, goToNextStep, goToPreviousStep, referenceProfile } = useWizard();
+  const referenceRanges = referenceProfile.ranges;
 
   const form = useForm<GasesFormData>({
     resolver: zodResolver(gasesSchema),
@@ -55,7 +55,7 @@ export function StepGases() {
   // Calculate preliminary disorder if we have all values
   const preliminaryDisorder =
     input.pH !== undefined && watchedPCO2 !== undefined && watchedHCO3 !== undefined
-      ? determinePrimaryDisorder(input.pH, watchedPCO2, watchedHCO3)
+      ? determinePrimaryDisorder(input.pH, watchedPCO2, watchedHCO3, referenceProfile)
       : null;
 
   const getDisorderInfo = (disorder: string | null) => {
@@ -143,7 +143,7 @@ export function StepGases() {
                           />
                         </FormControl>
                         <FormDescription>
-                          Normal: {normalRanges.pCO2.low} - {normalRanges.pCO2.high} {normalRanges.pCO2.unit}
+                          Normal: {referenceRanges.pCO2.low} - {referenceRanges.pCO2.high} {referenceRanges.pCO2.unit}
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -154,8 +154,8 @@ export function StepGases() {
                     value={watchedPCO2}
                     min={10}
                     max={100}
-                    normalLow={normalRanges.pCO2.low}
-                    normalHigh={normalRanges.pCO2.high}
+                    normalLow={referenceRanges.pCO2.low}
+                    normalHigh={referenceRanges.pCO2.high}
                     unit=" mmHg"
                     label="pCO₂"
                   />
@@ -185,7 +185,7 @@ export function StepGases() {
                           />
                         </FormControl>
                         <FormDescription>
-                          Normal: {normalRanges.HCO3.low} - {normalRanges.HCO3.high} {normalRanges.HCO3.unit}
+                          Normal: {referenceRanges.HCO3.low} - {referenceRanges.HCO3.high} {referenceRanges.HCO3.unit}
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -196,8 +196,8 @@ export function StepGases() {
                     value={watchedHCO3}
                     min={5}
                     max={45}
-                    normalLow={normalRanges.HCO3.low}
-                    normalHigh={normalRanges.HCO3.high}
+                    normalLow={referenceRanges.HCO3.low}
+                    normalHigh={referenceRanges.HCO3.high}
                     unit=" mmol/L"
                     label="HCO₃⁻"
                   />
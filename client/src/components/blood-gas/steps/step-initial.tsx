@@ -1,7 +1,7 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { ArrowRight, Beaker, Wind, FlaskConical } from "lucide-react";
+import { ArrowRight, Beaker, Wind, FlaskConical, AlertTriangle, Baby } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -14,54 +14,225 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ValueRangeIndicator } from "../value-range-indicator";
 import { useWizard } from "../wizard-context";
-import { normalRanges } from "@shared/schema";
-import { determinePrimaryDisorder, formatDisorderName } from "@/lib/blood-gas-logic";
+import { UnitSelect } from "../unit-select";
+import { TemperatureCorrection } from "../temperature-correction";
+import {
+  ageBands,
+  ageGroups,
+  pregnancyAdjustments,
+  sampleTypes,
+  sampleTypeOffsets,
+  temperatureStrategies,
+  temperatureStrategyLabels,
+  trimesters,
+  unitOptions,
+  type Trimester,
+} from "@shared/schema";
+import {
+  calculateTemperatureCorrection,
+  checkInternalConsistency,
+  convertUnit,
+  describeInputLimits,
+  formatInUnit,
+  getUnit,
+  isWithinInputLimits,
+  toCanonicalUnit,
+  determineAgeGroup,
+  determinePrimaryDisorder,
+  determineTrimester,
+  estimateArterialValues,
+  formatDisorderName,
+  getReferenceProfile,
+  getSampleReferenceRanges,
+} from "@/lib/blood-gas-logic";
 import { cn } from "@/lib/utils";
 import { SidebarMenuButton } from "@/components/ui/sidebar";
 
 const initialSchema = z.object({
+  ageGroup: z.enum(ageGroups).optional(),
+  age: z.coerce
+    .number()
+    .min(0, "Age must be at least 0 years")
+    .max(120, "Age must be at most 120 years")
+    .optional(),
+  gestationalAge: z.coerce
+    .number()
+    .min(22, "Gestational age must be at least 22 weeks")
+    .max(44, "Gestational age must be at most 44 weeks")
+    .optional(),
+  // "unknown" flags pregnancy without a trimester
+  pregnancy: z.enum(["none", "unknown", ...trimesters]),
+  temperature: z.coerce
+    .number()
+    .min(15, "Temperature must be at least 15 °C")
+    .max(45, "Temperature must be at most 45 °C")
+    .optional(),
+  temperatureStrategy: z.enum(temperatureStrategies),
+  sampleType: z.enum(sampleTypes),
+  pCO2Unit: z.enum(unitOptions.pCO2),
   pH: z.coerce
     .number()
     .min(0, "pH must be at least 6.8")
     .max(14, "pH must be at most 7.8"),
-  pCO2: z.coerce
-    .number()
-    .min(10, "pCO2 must be at least 10 mmHg")
-    .max(100, "pCO2 must be at most 100 mmHg"),
+  pCO2: z.coerce.number(),
   HCO3: z.coerce
     .number()
     .min(5, "HCO3 must be at least 5 mmol/L")
     .max(45, "HCO3 must be at most 45 mmol/L"),
+  haemoglobin: z.coerce
+    .number()
+    .min(3, "Haemoglobin must be at least 3 g/dL")
+    .max(25, "Haemoglobin must be at most 25 g/dL")
+    .optional(),
+  baselinePCO2: z.coerce.number().optional(),
+  baselineHCO3: z.coerce
+    .number()
+    .min(5, "Baseline HCO3 must be at least 5 mmol/L")
+    .max(45, "Baseline HCO3 must be at most 45 mmol/L")
+    .optional(),
+}).superRefine((data, ctx) => {
+  if (!isWithinInputLimits("pCO2", data.pCO2, data.pCO2Unit)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["pCO2"],
+      message: `pCO2 must be between ${describeInputLimits("pCO2", data.pCO2Unit)}`,
+    });
+  }
+  if (
+    data.baselinePCO2 !== undefined &&
+    !isWithinInputLimits("pCO2", data.baselinePCO2, data.pCO2Unit)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["baselinePCO2"],
+      message: `Baseline pCO2 must be between ${describeInputLimits("pCO2", data.pCO2Unit)}`,
+    });
+  }
+  if ((data.baselinePCO2 === undefined) !== (data.baselineHCO3 === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [data.baselinePCO2 === undefined ? "baselinePCO2" : "baselineHCO3"],
+      message: "Enter both baseline pCO2 and HCO3, or neither",
+    });
+  }
 });
 
 type InitialFormData = z.infer<typeof initialSchema>;
 
 export function StepInitial() {
-  const { input, updateInput, goToNextStep } = useWizard();
+  const { input, updateInput, goToNextStep, referenceProfile } = useWizard();
 
   const form = useForm<InitialFormData>({
     resolver: zodResolver(initialSchema),
     defaultValues: {
+      ageGroup: input.ageGroup,
+      age: input.age ?? (undefined as unknown as number),
+      gestationalAge: input.gestationalAge ?? (undefined as unknown as number),
+      pregnancy: input.pregnant ? input.trimester ?? "unknown" : "none",
+      temperature: input.temperature ?? (undefined as unknown as number),
+      temperatureStrategy: input.temperatureStrategy ?? "alpha_stat",
+      sampleType: input.sampleType ?? "arterial",
       pH: input.pH ?? (undefined as unknown as number),
-      pCO2: input.pCO2 ?? (undefined as unknown as number),
+      pCO2Unit: getUnit("pCO2", input.units) as InitialFormData["pCO2Unit"],
+      pCO2: input.pCO2 !== undefined
+        ? formatInUnit("pCO2", input.pCO2, input.units)
+        : (undefined as unknown as number),
       HCO3: input.HCO3 ?? (undefined as unknown as number),
+      haemoglobin: input.haemoglobin ?? (undefined as unknown as number),
+      baselinePCO2: input.baselinePCO2 !== undefined
+        ? formatInUnit("pCO2", input.baselinePCO2, input.units)
+        : (undefined as unknown as number),
+      baselineHCO3: input.baselineHCO3 ?? (undefined as unknown as number),
     },
   });
 
+  const watchedAgeGroup = form.watch("ageGroup");
+  const watchedAge = form.watch("age");
+  const watchedGestationalAge = form.watch("gestationalAge");
+  const appliedAgeGroup = determineAgeGroup(watchedAge, watchedGestationalAge, watchedAgeGroup);
+  const isNeonate = appliedAgeGroup === "preterm_neonate" || appliedAgeGroup === "term_neonate";
+  const canBePregnant = appliedAgeGroup === "adolescent" || appliedAgeGroup === "adult";
+  const watchedPregnancy = form.watch("pregnancy");
+  const pregnant = canBePregnant && watchedPregnancy !== "none";
+  const trimester =
+    watchedPregnancy === "none" || watchedPregnancy === "unknown" ? undefined : watchedPregnancy;
+  // Preview the age-banded ranges before they are committed to the wizard
+  const patientProfile = getReferenceProfile(
+    referenceProfile.id,
+    appliedAgeGroup,
+    determineTrimester(pregnant, trimester)
+  );
+  const watchedSampleType = form.watch("sampleType");
   const watchedPH = form.watch("pH");
-  const watchedPCO2 = form.watch("pCO2");
+  const watchedPCO2Unit = form.watch("pCO2Unit");
+  const watchedPCO2Value = form.watch("pCO2");
+  const watchedPCO2 =
+    watchedPCO2Value !== undefined
+      ? toCanonicalUnit("pCO2", watchedPCO2Value, watchedPCO2Unit)
+      : undefined;
   const watchedHCO3 = form.watch("HCO3");
+  const watchedTemperature = form.watch("temperature");
+  const watchedTemperatureStrategy = form.watch("temperatureStrategy");
+  const temperatureCorrection =
+    watchedTemperature !== undefined && watchedPH !== undefined && watchedPCO2 !== undefined
+      ? calculateTemperatureCorrection({
+        pH: watchedPH,
+        pCO2: watchedPCO2,
+        pO2: input.pO2,
+        temperature: watchedTemperature,
+        strategy: watchedTemperatureStrategy,
+      })
+      : null;
 
   const onSubmit = (data: InitialFormData) => {
-    updateInput({ pH: data.pH, pCO2: data.pCO2, HCO3: data.HCO3 });
+    updateInput({
+      ageGroup: data.ageGroup,
+      age: data.age,
+      gestationalAge: data.gestationalAge,
+      pregnant,
+      trimester: pregnant ? trimester : undefined,
+      temperature: data.temperature,
+      temperatureStrategy: data.temperature !== undefined ? data.temperatureStrategy : undefined,
+      sampleType: data.sampleType,
+      pH: data.pH,
+      pCO2: toCanonicalUnit("pCO2", data.pCO2, data.pCO2Unit),
+      HCO3: data.HCO3,
+      haemoglobin: data.haemoglobin,
+      baselinePCO2: data.baselinePCO2 !== undefined
+        ? toCanonicalUnit("pCO2", data.baselinePCO2, data.pCO2Unit)
+        : undefined,
+      baselineHCO3: data.baselineHCO3,
+      units: { ...input.units, pCO2: data.pCO2Unit },
+    });
     goToNextStep();
   };
 
+  const handlePCO2UnitChange = (unit: string) => {
+    const nextUnit = unit as InitialFormData["pCO2Unit"];
+    if (watchedPCO2Value !== undefined) {
+      form.setValue("pCO2", convertUnit("pCO2", watchedPCO2Value, watchedPCO2Unit, nextUnit));
+    }
+    const baselinePCO2 = form.getValues("baselinePCO2");
+    if (baselinePCO2 !== undefined) {
+      form.setValue("baselinePCO2", convertUnit("pCO2", baselinePCO2, watchedPCO2Unit, nextUnit));
+    }
+    form.setValue("pCO2Unit", nextUnit);
+  };
+
+  const pCO2Units = { pCO2: watchedPCO2Unit };
+
   const getpHInterpretation = (ph: number | undefined) => {
     if (ph === undefined) return null;
-    if (ph < 7.35) {
+    if (ph < ranges.pH.low) {
       return {
         status: "Acidaemia",
         description: "pH is below normal range",
@@ -70,7 +241,7 @@ export function StepInitial() {
         borderColor: "border-clinical-red",
       };
     }
-    if (ph > 7.45) {
+    if (ph > ranges.pH.high) {
       return {
         status: "Alkalaemia",
         description: "pH is above normal range",
@@ -88,11 +259,30 @@ export function StepInitial() {
     };
   };
 
-  const preliminaryDisorder =
+  const ranges = getSampleReferenceRanges(watchedSampleType, patientProfile);
+  const sampleLabel = sampleTypeOffsets[watchedSampleType].label;
+
+  const arterialEstimate =
     watchedPH !== undefined && watchedPCO2 !== undefined && watchedHCO3 !== undefined
-      ? determinePrimaryDisorder(watchedPH, watchedPCO2, watchedHCO3)
+      ? temperatureCorrection?.basis === "corrected"
+        ? estimateArterialValues(
+          watchedSampleType,
+          temperatureCorrection.corrected.pH,
+          temperatureCorrection.corrected.pCO2,
+          temperatureCorrection.corrected.HCO3
+        )
+        : estimateArterialValues(watchedSampleType, watchedPH, watchedPCO2, watchedHCO3)
       : null;
 
+  const preliminaryDisorder = arterialEstimate
+    ? determinePrimaryDisorder(
+      arterialEstimate.pH,
+      arterialEstimate.pCO2,
+      arterialEstimate.HCO3,
+      patientProfile
+    )
+    : null;
+
   const getDisorderInfo = (disorder: string | null) => {
     if (!disorder) return null;
 
@@ -132,6 +322,11 @@ export function StepInitial() {
     return disorders[disorder];
   };
 
+  const consistency =
+    watchedPH !== undefined && watchedPCO2 !== undefined && watchedHCO3 !== undefined
+      ? checkInternalConsistency(watchedPH, watchedPCO2, watchedHCO3)
+      : null;
+
   const phInterpretation = getpHInterpretation(watchedPH);
   const disorderInfo = getDisorderInfo(preliminaryDisorder);
   const isComplete = watchedPH !== undefined && watchedPCO2 !== undefined && watchedHCO3 !== undefined;
@@ -148,7 +343,7 @@ export function StepInitial() {
             <div>
               <CardTitle className="text-xl">Step 1: Initial Blood Gas Values</CardTitle>
               <CardDescription>
-                Enter the arterial blood gas values to begin interpretation
+                Enter the blood gas values to begin interpretation
               </CardDescription>
             </div>
           </div>
@@ -156,13 +351,226 @@ export function StepInitial() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {/* Patient */}
+              <div className="p-4 rounded-lg bg-muted/30 border space-y-4">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <h3 className="text-base font-semibold flex items-center gap-2">
+                    <Baby className="w-4 h-4" />
+                    Patient
+                  </h3>
+                  <p className="text-sm text-muted-foreground" data-testid="text-reference-set">
+                    Reference set: <span className="font-medium text-foreground">{patientProfile.name}</span>
+                    {" "}({ageBands[appliedAgeGroup].description})
+                  </p>
+                </div>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <FormField
+                    control={form.control}
+                    name="ageGroup"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold">Age group</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === "auto" ? undefined : value)}
+                          value={field.value ?? "auto"}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-age-group">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="auto">From age (default adult)</SelectItem>
+                            {ageGroups.map((group) => (
+                              <SelectItem key={group} value={group}>
+                                {ageBands[group].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="age"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold">
+                          Age (years) <span className="text-muted-foreground font-normal">(optional)</span>
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder="45"
+                            className="font-mono"
+                            data-testid="input-patient-age"
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormDescription>Use decimals under 1 year (0.5 = 6 months)</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {canBePregnant && (
+                    <FormField
+                      control={form.control}
+                      name="pregnancy"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-semibold">Pregnancy</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-pregnancy">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Not pregnant</SelectItem>
+                              {trimesters.map((value: Trimester) => (
+                                <SelectItem key={value} value={value}>
+                                  {pregnancyAdjustments[value].label}
+                                </SelectItem>
+                              ))}
+                              <SelectItem value="unknown">Pregnant, trimester unknown</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {pregnant && (
+                            <FormDescription>
+                              pCO₂ and HCO₃⁻ are judged against the lower baselines of pregnancy
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="temperature"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold">
+                          Temperature (°C) <span className="text-muted-foreground font-normal">(optional)</span>
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            placeholder="37.0"
+                            className="font-mono"
+                            data-testid="input-temperature"
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormDescription>Core temperature for hypothermia or fever</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {watchedTemperature !== undefined && (
+                    <FormField
+                      control={form.control}
+                      name="temperatureStrategy"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-semibold">Interpretation basis</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-temperature-strategy">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {temperatureStrategies.map((strategy) => (
+                                <SelectItem key={strategy} value={strategy}>
+                                  {temperatureStrategyLabels[strategy]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {isNeonate && (
+                    <FormField
+                      control={form.control}
+                      name="gestationalAge"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-semibold">Gestational age (weeks)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="1"
+                              placeholder="40"
+                              className="font-mono"
+                              data-testid="input-gestational-age"
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                              value={field.value ?? ""}
+                            />
+                          </FormControl>
+                          <FormDescription>Below 37 weeks uses the preterm ranges</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              </div>
+
+              {/* Sample Type */}
+              <FormField
+                control={form.control}
+                name="sampleType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base font-semibold">Sample Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="h-11" data-testid="select-sample-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {sampleTypes.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {sampleTypeOffsets[type].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {watchedSampleType !== "arterial" && (
+                      <FormDescription>
+                        {watchedSampleType === "venous" || watchedSampleType === "mixed_venous"
+                          ? "Arterial values will be estimated from typical arterio-venous differences"
+                          : watchedSampleType === "capillary"
+                            ? "Capillary values are interpreted as arterial"
+                            : "Adult acid-base rules are not validated for cord samples"}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {/* pH Input */}
               <FormField
                 control={form.control}
                 name="pH"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-lg font-semibold">Arterial pH</FormLabel>
+                    <FormLabel className="text-lg font-semibold">{sampleLabel} pH</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -193,7 +601,7 @@ export function StepInitial() {
                       />
                     </FormControl>
                     <FormDescription>
-                      Normal range: {normalRanges.pH.low} - {normalRanges.pH.high}
+                      Normal range: {ranges.pH.low.toFixed(2)} - {ranges.pH.high.toFixed(2)}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -207,8 +615,8 @@ export function StepInitial() {
                     value={watchedPH}
                     min={0}
                     max={14}
-                    normalLow={normalRanges.pH.low}
-                    normalHigh={normalRanges.pH.high}
+                    normalLow={ranges.pH.low}
+                    normalHigh={ranges.pH.high}
                     unit=""
                     label="pH"
                   />
@@ -241,39 +649,42 @@ export function StepInitial() {
                       name="pCO2"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel className="text-lg font-semibold flex items-center gap-2">
-                            <Wind className="w-4 h-4 text-clinical-blue" />
-                            pCO₂ (mmHg)
-                          </FormLabel>
+                          <div className="flex items-center justify-between gap-2">
+                            <FormLabel className="text-lg font-semibold flex items-center gap-2">
+                              <Wind className="w-4 h-4 text-clinical-blue" />
+                              pCO₂ ({watchedPCO2Unit})
+                            </FormLabel>
+                            <UnitSelect field="pCO2" value={watchedPCO2Unit} onChange={handlePCO2UnitChange} />
+                          </div>
                           <FormControl>
                             <Input
                               type="number"
                               step="0.1"
-                              placeholder="40"
+                              placeholder={watchedPCO2Unit === "kPa" ? "5.3" : "40"}
                               className="text-xl h-12 font-mono"
                               data-testid="input-pco2"
                               {...field}
-                              tooltip=" Good —  is within the 10 - 100"
+                              tooltip={` Good —  is within the ${describeInputLimits("pCO2", watchedPCO2Unit)}`}
                               onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
                               value={field.value ?? ""}
                             />
                           </FormControl>
                           <FormDescription>
-                            Normal: {normalRanges.pCO2.low} - {normalRanges.pCO2.high} {normalRanges.pCO2.unit}
+                            Normal: {formatInUnit("pCO2", ranges.pCO2.low, pCO2Units)} - {formatInUnit("pCO2", ranges.pCO2.high, pCO2Units)} {watchedPCO2Unit}
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
 
-                    {watchedPCO2 !== undefined && (
+                    {watchedPCO2Value !== undefined && (
                       <ValueRangeIndicator
-                        value={watchedPCO2}
-                        min={10}
-                        max={100}
-                        normalLow={normalRanges.pCO2.low}
-                        normalHigh={normalRanges.pCO2.high}
-                        unit=" mmHg"
+                        value={watchedPCO2Value}
+                        min={formatInUnit("pCO2", 10, pCO2Units)}
+                        max={formatInUnit("pCO2", 100, pCO2Units)}
+                        normalLow={formatInUnit("pCO2", ranges.pCO2.low, pCO2Units)}
+                        normalHigh={formatInUnit("pCO2", ranges.pCO2.high, pCO2Units)}
+                        unit={` ${watchedPCO2Unit}`}
                         label="pCO₂"
                       />
                     )}
@@ -305,7 +716,7 @@ export function StepInitial() {
                           </FormControl>
                           <FormDescription>
                             HC03 “the measured Bicarbonate, please obtain the result from the chemistry”
-                            Normal: {normalRanges.HCO3.low} - {normalRanges.HCO3.high} {normalRanges.HCO3.unit}
+                            Normal: {ranges.HCO3.low} - {ranges.HCO3.high} {ranges.HCO3.unit}
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -317,16 +728,132 @@ export function StepInitial() {
                         value={watchedHCO3}
                         min={5}
                         max={45}
-                        normalLow={normalRanges.HCO3.low}
-                        normalHigh={normalRanges.HCO3.high}
+                        normalLow={ranges.HCO3.low}
+                        normalHigh={ranges.HCO3.high}
                         unit=" mmol/L"
                         label="HCO₃⁻"
                       />
                     )}
                   </div>
                 </div>
+
+                {/* Haemoglobin Input (Optional) */}
+                <div className="grid gap-6 md:grid-cols-2 mt-6">
+                  <FormField
+                    control={form.control}
+                    name="haemoglobin"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-base font-semibold">
+                          Haemoglobin (g/dL) <span className="text-muted-foreground font-normal">(optional)</span>
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            placeholder="14.0"
+                            className="text-lg h-11 font-mono"
+                            data-testid="input-haemoglobin"
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Used for the Van Slyke base excess calculation
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Patient Baseline Gas (Optional) */}
+                <div className="mt-6 space-y-2">
+                  <h4 className="text-base font-semibold">
+                    Patient baseline gas <span className="text-muted-foreground font-normal">(optional)</span>
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    The patient's usual values when well, e.g. in COPD. Respiratory disorders are then judged
+                    from this baseline, which separates acute-on-chronic from purely acute or chronic changes.
+                  </p>
+                  <div className="grid gap-6 md:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="baselinePCO2"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-semibold">Baseline pCO₂ ({watchedPCO2Unit})</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.1"
+                              placeholder={watchedPCO2Unit === "kPa" ? "7.5" : "56"}
+                              className="font-mono"
+                              data-testid="input-baseline-pco2"
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                              value={field.value ?? ""}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="baselineHCO3"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-semibold">Baseline HCO₃⁻ (mmol/L)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.1"
+                              placeholder="32"
+                              className="font-mono"
+                              data-testid="input-baseline-hco3"
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                              value={field.value ?? ""}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
               </div>
 
+              {/* Temperature-corrected values */}
+              {temperatureCorrection && (
+                <div className="p-4 rounded-lg bg-muted/30 border">
+                  <TemperatureCorrection result={temperatureCorrection} units={{ ...input.units, ...pCO2Units }} />
+                </div>
+              )}
+
+              {/* Henderson–Hasselbalch Consistency Warning */}
+              {consistency && !consistency.isConsistent && (
+                <div
+                  className="p-4 rounded-lg border-l-4 flex items-start gap-3 bg-clinical-red-light border-clinical-red"
+                  data-testid="consistency-warning"
+                >
+                  <AlertTriangle className="w-5 h-5 text-clinical-red shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-bold text-lg text-clinical-red">
+                      Values Are Internally Inconsistent
+                    </p>
+                    <p className="text-sm text-foreground/80 mt-1">
+                      pH, pCO₂ and HCO₃⁻ do not agree through the Henderson–Hasselbalch equation
+                      (expected pH {consistency.expectedPH.toFixed(2)}, mismatch {Math.abs(consistency.difference).toFixed(2)}).
+                      Check for a transcription error or samples taken at different times.
+                    </p>
+                    <p className="font-mono text-xs mt-2">{consistency.formula}</p>
+                  </div>
+                </div>
+              )}
+
               {/* Preliminary Disorder Display */}
               {/* {preliminaryDisorder && disorderInfo && (
                 <div
@@ -13,10 +13,35 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ValueRangeIndicator } from "../value-range-indicator";
+import { ToxicAlcoholEstimate } from "../toxic-alcohol-estimate";
 import { useWizard } from "../wizard-context";
-import { calculateOsmolarGap } from "@/lib/blood-gas-logic";
+import { UnitSelect } from "../unit-select";
+import {
+  ethanolCoefficients,
+  unitOptions,
+  type EthanolCoefficient,
+  type UnitPreferences,
+} from "@shared/schema";
+import {
+  calculateOsmolarGap,
+  estimateToxicAlcohols,
+  convertUnit,
+  describeInputLimits,
+  formatInUnit,
+  getUnit,
+  getUnitLabel,
+  isWithinInputLimits,
+  toCanonicalUnit,
+} from "@/lib/blood-gas-logic";
 import { cn } from "@/lib/utils";
 
 const osmolarGapSchema = z.object({
@@ -25,60 +50,145 @@ const osmolarGapSchema = z.object({
     .min(200, "Measured osmolality must be at least 200 mOsm/kg")
     .max(400, "Measured osmolality must be at most 400 mOsm/kg")
     .optional(),
-  glucose: z.coerce
-    .number()
-    .min(0, "Glucose must be at least 0 mmol/L")
-    .max(50, "Glucose must be at most 50 mmol/L")
-    .optional(),
-  urea: z.coerce
-    .number()
-    .min(0, "Urea must be at least 0 mmol/L")
-    .max(100, "Urea must be at most 100 mmol/L")
-    .optional(),
-  ethanol: z.coerce
-    .number()
-    .min(0, "Ethanol must be at least 0 mmol/L")
-    .max(100, "Ethanol must be at most 100 mmol/L")
-    .optional(),
+  glucoseUnit: z.enum(unitOptions.glucose),
+  glucose: z.coerce.number().optional(),
+  ureaUnit: z.enum(unitOptions.urea),
+  urea: z.coerce.number().optional(),
+  ethanolUnit: z.enum(unitOptions.ethanol),
+  ethanol: z.coerce.number().optional(),
+}).superRefine((data, ctx) => {
+  const checks = [
+    { field: "glucose", label: "Glucose", value: data.glucose, unit: data.glucoseUnit },
+    { field: "urea", label: "Urea", value: data.urea, unit: data.ureaUnit },
+    { field: "ethanol", label: "Ethanol", value: data.ethanol, unit: data.ethanolUnit },
+  ] as const;
+
+  for (const check of checks) {
+    if (check.value !== undefined && !isWithinInputLimits(check.field, check.value, check.unit)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [check.field],
+        message: `${check.label} must be between ${describeInputLimits(check.field, check.unit)}`,
+      });
+    }
+  }
 });
 
 type OsmolarGapFormData = z.infer<typeof osmolarGapSchema>;
+type OsmolarUnitField = "glucose" | "urea" | "ethanol";
 
 export function StepOsmolarGap() {
-  const { input, updateInput, goToNextStep, goToPreviousStep, interpretation } = useWizard();
+  const {
+    input,
+    updateInput,
+    goToNextStep,
+    goToPreviousStep,
+    interpretation,
+    referenceProfile,
+    ethanolCoefficient,
+    setEthanolCoefficient,
+  } = useWizard();
+  const referenceRanges = referenceProfile.ranges;
 
   const form = useForm<OsmolarGapFormData>({
     resolver: zodResolver(osmolarGapSchema),
     defaultValues: {
       measuredOsmolality: input.measuredOsmolality ?? (undefined as unknown as number),
-      glucose: input.glucose ?? (undefined as unknown as number),
-      urea: input.urea ?? (undefined as unknown as number),
-      ethanol: input.ethanol ?? (undefined as unknown as number),
+      glucoseUnit: getUnit("glucose", input.units) as OsmolarGapFormData["glucoseUnit"],
+      glucose: input.glucose !== undefined
+        ? formatInUnit("glucose", input.glucose, input.units)
+        : (undefined as unknown as number),
+      ureaUnit: getUnit("urea", input.units) as OsmolarGapFormData["ureaUnit"],
+      urea: input.urea !== undefined
+        ? formatInUnit("urea", input.urea, input.units)
+        : (undefined as unknown as number),
+      ethanolUnit: getUnit("ethanol", input.units) as OsmolarGapFormData["ethanolUnit"],
+      ethanol: input.ethanol !== undefined
+        ? formatInUnit("ethanol", input.ethanol, input.units)
+        : (undefined as unknown as number),
     },
   });
 
   const watchedMeasuredOsm = form.watch("measuredOsmolality");
-  const watchedGlucose = form.watch("glucose");
-  const watchedUrea = form.watch("urea");
-  const watchedEthanol = form.watch("ethanol");
+  const watchedGlucoseValue = form.watch("glucose");
+  const watchedUreaValue = form.watch("urea");
+  const watchedEthanolValue = form.watch("ethanol");
+  const formUnits: UnitPreferences = {
+    ...input.units,
+    glucose: form.watch("glucoseUnit"),
+    urea: form.watch("ureaUnit"),
+    ethanol: form.watch("ethanolUnit"),
+  };
+
+  const toCanonical = (field: OsmolarUnitField, value: number | undefined) =>
+    value !== undefined ? toCanonicalUnit(field, value, getUnit(field, formUnits)) : undefined;
+
+  const watchedGlucose = toCanonical("glucose", watchedGlucoseValue);
+  const watchedUrea = toCanonical("urea", watchedUreaValue);
+  const watchedEthanol = toCanonical("ethanol", watchedEthanolValue);
 
   const onSubmit = (data: OsmolarGapFormData) => {
     updateInput({
       measuredOsmolality: data.measuredOsmolality,
-      glucose: data.glucose,
-      urea: data.urea,
-      ethanol: data.ethanol,
+      glucose: data.glucose !== undefined
+        ? toCanonicalUnit("glucose", data.glucose, data.glucoseUnit)
+        : undefined,
+      urea: data.urea !== undefined ? toCanonicalUnit("urea", data.urea, data.ureaUnit) : undefined,
+      ethanol: data.ethanol !== undefined
+        ? toCanonicalUnit("ethanol", data.ethanol, data.ethanolUnit)
+        : undefined,
+      units: {
+        ...input.units,
+        glucose: data.glucoseUnit,
+        urea: data.ureaUnit,
+        ethanol: data.ethanolUnit,
+      },
     });
     goToNextStep();
   };
 
+  const handleUnitChange = (field: OsmolarUnitField) => (unit: string) => {
+    const currentUnit = getUnit(field, formUnits);
+    const currentValue = form.getValues(field);
+    if (currentValue !== undefined) {
+      form.setValue(field, convertUnit(field, currentValue, currentUnit, unit));
+    }
+    form.setValue(`${field}Unit`, unit as never);
+  };
+
+  // Display a canonical limit or reference value in the selected unit
+  const inUnit = (field: OsmolarUnitField, value: number) => formatInUnit(field, value, formUnits);
+
   // Calculate osmolar gap if we have required values
   const osmolarGapResult =
     watchedMeasuredOsm !== undefined &&
       input.Na !== undefined &&
       watchedGlucose !== undefined &&
       watchedUrea !== undefined
-      ? calculateOsmolarGap(watchedMeasuredOsm, input.Na, watchedGlucose, watchedUrea, watchedEthanol)
+      ? calculateOsmolarGap(
+        watchedMeasuredOsm,
+        input.Na,
+        watchedGlucose,
+        watchedUrea,
+        watchedEthanol,
+        formUnits,
+        referenceProfile,
+        ethanolCoefficient
+      )
+      : null;
+
+  const toxicAlcoholResult =
+    osmolarGapResult && (osmolarGapResult.isElevated || interpretation?.anionGap?.status === "high")
+      ? estimateToxicAlcohols(
+        {
+          osmolarGap: osmolarGapResult,
+          anionGap: interpretation?.anionGap,
+          pH: interpretation?.arterialEstimate?.pH ?? input.pH,
+          HCO3: input.HCO3,
+          ethanolCoefficient,
+        },
+        referenceProfile
+      )
       : null;
 
   const isHAGMA = interpretation?.anionGap?.status === "high";
@@ -113,7 +223,13 @@ export function StepOsmolarGap() {
               <div className="p-4 rounded-lg bg-muted/50 border">
                 <p className="text-sm text-muted-foreground mb-2">Calculated Osmolality Formula:</p>
                 <p className="text-base font-mono font-semibold">
-                  Osm = 2×[Na⁺] + Glucose + Urea (+ EtOH/4.6)
+                  Osm = 2×[Na⁺] + {formUnits.glucose === "mg/dL" ? "Glucose/18" : "Glucose"} +{" "}
+                  {formUnits.urea === "mg/dL" ? "BUN/2.8" : "Urea"} (+{" "}
+                  {formUnits.ethanol !== "mmol/L"
+                    ? `EtOH/${ethanolCoefficient}`
+                    : ethanolCoefficient === 4.6
+                      ? "EtOH"
+                      : `EtOH×${(4.6 / ethanolCoefficient).toFixed(2)}`})
                 </p>
                 <p className="text-sm text-muted-foreground mt-2">
                   Osmolar Gap = Measured - Calculated (Normal: -10 to +10 mOsm/kg)
@@ -170,9 +286,12 @@ export function StepOsmolarGap() {
                   name="glucose"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="text-base font-semibold">
-                        Glucose (mmol/L)
-                      </FormLabel>
+                      <div className="flex items-center justify-between gap-2">
+                        <FormLabel className="text-base font-semibold">
+                          Glucose ({formUnits.glucose})
+                        </FormLabel>
+                        <UnitSelect field="glucose" value={getUnit("glucose", formUnits)} onChange={handleUnitChange("glucose")} />
+                      </div>
                       <FormControl>
                         <Input
                           type="number"
@@ -186,22 +305,22 @@ export function StepOsmolarGap() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Normal: 3.9-6.1 mmol/L
+                        Normal: {inUnit("glucose", referenceRanges.glucose.low)}-{inUnit("glucose", referenceRanges.glucose.high)} {formUnits.glucose}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
-                {watchedGlucose !== undefined && (
+                {watchedGlucoseValue !== undefined && (
                   <div className="pt-2">
                     <ValueRangeIndicator
-                      value={watchedGlucose}
+                      value={watchedGlucoseValue}
                       min={0}
-                      max={50}
-                      normalLow={3.9}
-                      normalHigh={6.1}
-                      unit=" mmol/L"
+                      max={inUnit("glucose", 50)}
+                      normalLow={inUnit("glucose", referenceRanges.glucose.low)}
+                      normalHigh={inUnit("glucose", referenceRanges.glucose.high)}
+                      unit={` ${formUnits.glucose}`}
                       label="Glucose"
                     />
                   </div>
@@ -213,9 +332,12 @@ export function StepOsmolarGap() {
                   name="urea"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="text-base font-semibold">
-                        Urea (mmol/L)
-                      </FormLabel>
+                      <div className="flex items-center justify-between gap-2">
+                        <FormLabel className="text-base font-semibold">
+                          {formUnits.urea === "mg/dL" ? "BUN" : "Urea"} ({getUnitLabel("urea", formUnits)})
+                        </FormLabel>
+                        <UnitSelect field="urea" value={getUnit("urea", formUnits)} onChange={handleUnitChange("urea")} />
+                      </div>
                       <FormControl>
                         <Input
                           type="number"
@@ -229,23 +351,23 @@ export function StepOsmolarGap() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Normal: 2.5-7.1 mmol/L
+                        Normal: {inUnit("urea", referenceRanges.urea.low)}-{inUnit("urea", referenceRanges.urea.high)} {formUnits.urea}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
-                {watchedUrea !== undefined && (
+                {watchedUreaValue !== undefined && (
                   <div className="pt-2">
                     <ValueRangeIndicator
-                      value={watchedUrea}
+                      value={watchedUreaValue}
                       min={0}
-                      max={100}
-                      normalLow={2.5}
-                      normalHigh={7.1}
-                      unit=" mmol/L"
-                      label="Urea"
+                      max={inUnit("urea", 100)}
+                      normalLow={inUnit("urea", referenceRanges.urea.low)}
+                      normalHigh={inUnit("urea", referenceRanges.urea.high)}
+                      unit={` ${formUnits.urea}`}
+                      label={formUnits.urea === "mg/dL" ? "BUN" : "Urea"}
                     />
                   </div>
                 )}
@@ -256,9 +378,12 @@ export function StepOsmolarGap() {
                   name="ethanol"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="text-base font-semibold">
-                        Ethanol (mmol/L) <span className="text-muted-foreground font-normal">(if known)</span>
-                      </FormLabel>
+                      <div className="flex items-center justify-between gap-2">
+                        <FormLabel className="text-base font-semibold">
+                          Ethanol ({formUnits.ethanol}) <span className="text-muted-foreground font-normal">(if known)</span>
+                        </FormLabel>
+                        <UnitSelect field="ethanol" value={getUnit("ethanol", formUnits)} onChange={handleUnitChange("ethanol")} />
+                      </div>
                       <FormControl>
                         <Input
                           type="number"
@@ -271,23 +396,40 @@ export function StepOsmolarGap() {
                           value={field.value ?? ""}
                         />
                       </FormControl>
-                      <FormDescription>
-                        Include if ethanol level measured
-                      </FormDescription>
+                      <div className="flex items-center justify-between gap-2">
+                        <FormDescription>
+                          Include if ethanol level measured
+                        </FormDescription>
+                        <Select
+                          value={String(ethanolCoefficient)}
+                          onValueChange={(value) => setEthanolCoefficient(Number(value) as EthanolCoefficient)}
+                        >
+                          <SelectTrigger className="h-8 w-auto text-xs" data-testid="select-ethanol-coefficient">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ethanolCoefficients.map((coefficient) => (
+                              <SelectItem key={coefficient} value={String(coefficient)}>
+                                EtOH ÷ {coefficient} {coefficient === 4.6 ? "(molecular weight)" : "(empirical)"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
-                {watchedEthanol !== undefined && watchedEthanol > 0 && (
+                {watchedEthanolValue !== undefined && watchedEthanolValue > 0 && (
                   <div className="pt-2">
                     <ValueRangeIndicator
-                      value={watchedEthanol}
+                      value={watchedEthanolValue}
                       min={0}
-                      max={100}
+                      max={inUnit("ethanol", 600)}
                       normalLow={0}
                       normalHigh={0}
-                      unit=" mmol/L"
+                      unit={` ${formUnits.ethanol}`}
                       label="Ethanol"
                     />
                   </div>
@@ -331,6 +473,8 @@ export function StepOsmolarGap() {
                     </div>
                   </div>
 
+                  {toxicAlcoholResult && <ToxicAlcoholEstimate result={toxicAlcoholResult} />}
+
                   {/* Interpretation */}
                   {/* <div
                     className={cn(
@@ -0,0 +1,387 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { ArrowLeft, ArrowRight, Wind, AlertTriangle, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ValueRangeIndicator } from "../value-range-indicator";
+import { useWizard } from "../wizard-context";
+import { UnitSelect } from "../unit-select";
+import { unitOptions } from "@shared/schema";
+import {
+  calculateOxygenation,
+  convertUnit,
+  describeInputLimits,
+  formatInUnit,
+  formatRespiratoryFailure,
+  getUnit,
+  isWithinInputLimits,
+  toCanonicalUnit,
+} from "@/lib/blood-gas-logic";
+import { cn } from "@/lib/utils";
+
+const oxygenationSchema = z.object({
+  pO2Unit: z.enum(unitOptions.pO2),
+  pO2: z.coerce.number().optional(),
+  FiO2: z.coerce
+    .number()
+    .min(0.21, "FiO2 must be at least 0.21")
+    .max(1, "FiO2 must be at most 1.0")
+    .optional(),
+  barometricPressure: z.coerce
+    .number()
+    .min(400, "Barometric pressure must be at least 400 mmHg")
+    .max(800, "Barometric pressure must be at most 800 mmHg")
+    .optional(),
+  age: z.coerce
+    .number()
+    .min(0, "Age must be at least 0 years")
+    .max(120, "Age must be at most 120 years")
+    .optional(),
+}).superRefine((data, ctx) => {
+  if (data.pO2 !== undefined && !isWithinInputLimits("pO2", data.pO2, data.pO2Unit)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["pO2"],
+      message: `pO2 must be between ${describeInputLimits("pO2", data.pO2Unit)}`,
+    });
+  }
+});
+
+type OxygenationFormData = z.infer<typeof oxygenationSchema>;
+
+const ardsLabels = {
+  none: "No ARDS-range hypoxaemia",
+  mild: "Mild (P/F 200-300)",
+  moderate: "Moderate (P/F 100-200)",
+  severe: "Severe (P/F ≤ 100)",
+};
+
+export function StepOxygenation() {
+  const { input, updateInput, goToNextStep, goToPreviousStep, referenceProfile } = useWizard();
+  const referenceRanges = referenceProfile.ranges;
+
+  const form = useForm<OxygenationFormData>({
+    resolver: zodResolver(oxygenationSchema),
+    defaultValues: {
+      pO2Unit: getUnit("pO2", input.units) as OxygenationFormData["pO2Unit"],
+      pO2: input.pO2 !== undefined
+        ? formatInUnit("pO2", input.pO2, input.units)
+        : (undefined as unknown as number),
+      FiO2: input.FiO2 ?? (undefined as unknown as number),
+      barometricPressure: input.barometricPressure ?? (undefined as unknown as number),
+      age: input.age ?? (undefined as unknown as number),
+    },
+  });
+
+  const watchedPO2Unit = form.watch("pO2Unit");
+  const watchedPO2Value = form.watch("pO2");
+  const watchedPO2 =
+    watchedPO2Value !== undefined
+      ? toCanonicalUnit("pO2", watchedPO2Value, watchedPO2Unit)
+      : undefined;
+  const pO2Units = { pO2: watchedPO2Unit };
+  const watchedFiO2 = form.watch("FiO2");
+  const watchedPatm = form.watch("barometricPressure");
+  const watchedAge = form.watch("age");
+
+  const onSubmit = (data: OxygenationFormData) => {
+    updateInput({
+      pO2: data.pO2 !== undefined ? toCanonicalUnit("pO2", data.pO2, data.pO2Unit) : undefined,
+      FiO2: data.FiO2,
+      barometricPressure: data.barometricPressure,
+      age: data.age,
+      units: { ...input.units, pO2: data.pO2Unit },
+    });
+    goToNextStep();
+  };
+
+  const handlePO2UnitChange = (unit: string) => {
+    const nextUnit = unit as OxygenationFormData["pO2Unit"];
+    if (watchedPO2Value !== undefined) {
+      form.setValue("pO2", convertUnit("pO2", watchedPO2Value, watchedPO2Unit, nextUnit));
+    }
+    form.setValue("pO2Unit", nextUnit);
+  };
+
+  // Calculate oxygenation indices if we have required values
+  const oxygenationResult =
+    watchedPO2 !== undefined && watchedFiO2 !== undefined && input.pCO2 !== undefined
+      ? calculateOxygenation(watchedPO2, watchedFiO2, input.pCO2, watchedPatm, watchedAge)
+      : null;
+
+  const hasFailure = oxygenationResult !== null && oxygenationResult.respiratoryFailure !== "none";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Wind className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-xl">Step 2: Oxygenation (Optional)</CardTitle>
+              <CardDescription>
+                Alveolar gas equation, A-a gradient, P/F ratio and respiratory failure type
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {/* Formula Display */}
+              <div className="p-4 rounded-lg bg-muted/50 border space-y-1">
+                <p className="text-sm text-muted-foreground mb-2">Alveolar Gas Equation:</p>
+                <p className="text-base font-mono font-semibold">
+                  PAO₂ = FiO₂ × (Patm - 47) - pCO₂/0.8
+                </p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  A-a gradient = PAO₂ - PaO₂ (Expected: age/4 + 4 mmHg) | P/F ratio = PaO₂ / FiO₂
+                </p>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                {/* pO2 */}
+                <FormField
+                  control={form.control}
+                  name="pO2"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between gap-2">
+                        <FormLabel className="text-base font-semibold">PaO₂ ({watchedPO2Unit})</FormLabel>
+                        <UnitSelect field="pO2" value={watchedPO2Unit} onChange={handlePO2UnitChange} />
+                      </div>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          placeholder={watchedPO2Unit === "kPa" ? "12.7" : "95"}
+                          className="text-lg h-11 font-mono"
+                          data-testid="input-po2"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Normal: {formatInUnit("pO2", referenceRanges.pO2.low, pO2Units)}-{formatInUnit("pO2", referenceRanges.pO2.high, pO2Units)} {watchedPO2Unit} (room air)
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {watchedPO2Value !== undefined && (
+                  <div className="pt-2">
+                    <ValueRangeIndicator
+                      value={watchedPO2Value}
+                      min={formatInUnit("pO2", 10, pO2Units)}
+                      max={formatInUnit("pO2", 700, pO2Units)}
+                      normalLow={formatInUnit("pO2", referenceRanges.pO2.low, pO2Units)}
+                      normalHigh={formatInUnit("pO2", referenceRanges.pO2.high, pO2Units)}
+                      unit={` ${watchedPO2Unit}`}
+                      label="PaO₂"
+                    />
+                  </div>
+                )}
+
+                {/* FiO2 */}
+                <FormField
+                  control={form.control}
+                  name="FiO2"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base font-semibold">FiO₂ (fraction)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="0.21"
+                          className="text-lg h-11 font-mono"
+                          data-testid="input-fio2"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>Room air = 0.21</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Barometric Pressure */}
+                <FormField
+                  control={form.control}
+                  name="barometricPressure"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base font-semibold">
+                        Barometric Pressure (mmHg) <span className="text-muted-foreground font-normal">(optional)</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="1"
+                          placeholder="760"
+                          className="text-lg h-11 font-mono"
+                          data-testid="input-barometric-pressure"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>Defaults to 760 mmHg (sea level)</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Age */}
+                <FormField
+                  control={form.control}
+                  name="age"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base font-semibold">
+                        Patient Age (years) <span className="text-muted-foreground font-normal">(optional)</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="1"
+                          placeholder="50"
+                          className="text-lg h-11 font-mono"
+                          data-testid="input-age"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>For the age-expected A-a gradient</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Calculation Result */}
+              {oxygenationResult && (
+                <div className="space-y-4">
+                  <div className="p-4 rounded-lg bg-card border space-y-1">
+                    <p className="text-sm text-muted-foreground mb-1">Calculation:</p>
+                    <p className="font-mono text-sm">{oxygenationResult.alveolarFormula}</p>
+                    <p className="font-mono text-sm">{oxygenationResult.aaGradientFormula}</p>
+                    <p className="font-mono text-sm">{oxygenationResult.pfRatioFormula}</p>
+                  </div>
+
+                  <div className="flex items-center justify-center gap-8 p-6 rounded-lg bg-muted/30">
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">PAO₂</p>
+                      <p className="text-2xl font-bold font-mono">{oxygenationResult.alveolarPO2.toFixed(0)}</p>
+                      <p className="text-sm text-muted-foreground">mmHg</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">A-a Gradient</p>
+                      <p className={cn(
+                        "text-2xl font-bold font-mono",
+                        oxygenationResult.isAaGradientElevated ? "text-clinical-red" : "text-clinical-green"
+                      )}>
+                        {oxygenationResult.aaGradient.toFixed(0)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        mmHg (expected ≤ {oxygenationResult.expectedAaGradient.toFixed(0)})
+                      </p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">P/F Ratio</p>
+                      <p className={cn(
+                        "text-3xl font-bold font-mono",
+                        oxygenationResult.ardsSeverity === "none" ? "text-clinical-green" : "text-clinical-red"
+                      )}>
+                        {oxygenationResult.pfRatio.toFixed(0)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">{ardsLabels[oxygenationResult.ardsSeverity]}</p>
+                    </div>
+                  </div>
+
+                  <div
+                    className={cn(
+                      "p-4 rounded-lg border-l-4 flex items-start gap-3",
+                      hasFailure
+                        ? "bg-clinical-red-light border-clinical-red"
+                        : "bg-clinical-green-light border-clinical-green"
+                    )}
+                    data-testid="oxygenation-interpretation"
+                  >
+                    {hasFailure ? (
+                      <AlertTriangle className="w-5 h-5 text-clinical-red shrink-0 mt-0.5" />
+                    ) : (
+                      <CheckCircle className="w-5 h-5 text-clinical-green shrink-0 mt-0.5" />
+                    )}
+                    <div>
+                      <p className={cn("font-bold text-lg", hasFailure ? "text-clinical-red" : "text-clinical-green")}>
+                        {formatRespiratoryFailure(oxygenationResult.respiratoryFailure)}
+                      </p>
+                      <p className="text-sm text-foreground/80 mt-1">
+                        {oxygenationResult.isAaGradientElevated
+                          ? "Raised A-a gradient: V/Q mismatch, shunt or diffusion impairment."
+                          : "Normal A-a gradient: any hypoxaemia is explained by hypoventilation or low inspired O₂."}
+                        {oxygenationResult.ardsSeverity !== "none" &&
+                          " P/F ratio is in the Berlin ARDS range (requires PEEP ≥ 5 cmH₂O and compatible clinical criteria)."}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-between pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="lg"
+                  onClick={goToPreviousStep}
+                  data-testid="button-previous-step"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Previous
+                </Button>
+                <div className="flex gap-3">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="lg"
+                    onClick={goToNextStep}
+                    data-testid="button-skip"
+                  >
+                    Skip
+                  </Button>
+                  <Button
+                    type="submit"
+                    size="lg"
+                    data-testid="button-next-step"
+                  >
+                    Next Step
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,7 +16,6 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ValueRangeIndicator } from "../value-range-indicator";
 import { useWizard } from "../wizard-context";
-import { normalRanges } from "@shared/schema";
 
 const phSchema = z.object({
   pH: z.coerce
@@ -28,7 +27,8 @@ const phSchema = z.object({
 type PHFormData = z.infer<typeof phSchema>;
 
 export function StepPH() {
-  const { input, updateInput, goToNextStep } = useWizard();
+  const { input, updateInput, goToNextStep, referenceProfile } = useWizard();
+  const referenceRanges = referenceProfile.ranges;
 
   const form = useForm<PHFormData>({
     resolver: zodResolver(phSchema),
@@ -46,7 +46,7 @@ export function StepPH() {
 
   const getpHInterpretation = (ph: number | undefined) => {
     if (ph === undefined) return null;
-    if (ph < 7.35) {
+    if (ph < referenceRanges.pH.low) {
       return {
         status: "Acidaemia",
         description: "pH is below normal range, indicating acidaemia. This will lead to either respiratory or metabolic acidosis pathways.",
@@ -55,7 +55,7 @@ export function StepPH() {
         borderColor: "border-clinical-red",
       };
     }
-    if (ph > 7.45) {
+    if (ph > referenceRanges.pH.high) {
       return {
         status: "Alkalaemia",
         description: "pH is above normal range, indicating alkalaemia. This will lead to either respiratory or metabolic alkalosis pathways.",
@@ -113,7 +113,7 @@ export function StepPH() {
                       />
                     </FormControl>
                     <FormDescription>
-                      Normal range: {normalRanges.pH.low} - {normalRanges.pH.high}
+                      Normal range: {referenceRanges.pH.low} - {referenceRanges.pH.high}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -126,8 +126,8 @@ export function StepPH() {
                   value={watchedPH}
                   min={6.8}
                   max={7.8}
-                  normalLow={normalRanges.pH.low}
-                  normalHigh={normalRanges.pH.high}
+                  normalLow={referenceRanges.pH.low}
+                  normalHigh={referenceRanges.pH.high}
                   unit=""
                   label="pH"
                 />
@@ -0,0 +1,385 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { ArrowLeft, ArrowRight, Atom, AlertTriangle, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ValueRangeIndicator } from "../value-range-indicator";
+import { useWizard } from "../wizard-context";
+import { UnitSelect } from "../unit-select";
+import { unitOptions } from "@shared/schema";
+import {
+  calculateStewart,
+  convertUnit,
+  describeInputLimits,
+  formatInUnit,
+  getUnit,
+  isWithinInputLimits,
+  toCanonicalUnit,
+} from "@/lib/blood-gas-logic";
+import { cn } from "@/lib/utils";
+
+const stewartSchema = z.object({
+  K: z.coerce
+    .number()
+    .min(1, "K must be at least 1 mmol/L")
+    .max(10, "K must be at most 10 mmol/L")
+    .optional(),
+  Ca: z.coerce
+    .number()
+    .min(0.3, "Ionised Ca must be at least 0.3 mmol/L")
+    .max(3, "Ionised Ca must be at most 3 mmol/L")
+    .optional(),
+  Mg: z.coerce
+    .number()
+    .min(0.2, "Mg must be at least 0.2 mmol/L")
+    .max(3, "Mg must be at most 3 mmol/L")
+    .optional(),
+  lactate: z.coerce
+    .number()
+    .min(0, "Lactate must be at least 0 mmol/L")
+    .max(30, "Lactate must be at most 30 mmol/L")
+    .optional(),
+  phosphate: z.coerce
+    .number()
+    .min(0, "Phosphate must be at least 0 mmol/L")
+    .max(5, "Phosphate must be at most 5 mmol/L")
+    .optional(),
+  albuminUnit: z.enum(unitOptions.albumin),
+  albumin: z.coerce.number().optional(),
+}).superRefine((data, ctx) => {
+  if (data.albumin !== undefined && !isWithinInputLimits("albumin", data.albumin, data.albuminUnit)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["albumin"],
+      message: `Albumin must be between ${describeInputLimits("albumin", data.albuminUnit)}`,
+    });
+  }
+});
+
+type StewartFormData = z.infer<typeof stewartSchema>;
+
+const fields: {
+  name: Exclude<keyof StewartFormData, "albuminUnit">;
+  label: string;
+  shortLabel: string;
+  placeholder: string;
+  step: string;
+  // Range bar limits (within the schema limits above)
+  min: number;
+  max: number;
+}[] = [
+  { name: "K", label: "K⁺ (mmol/L)", shortLabel: "K⁺", placeholder: "4.0", step: "0.1", min: 1, max: 10 },
+  { name: "Ca", label: "Ionised Ca²⁺ (mmol/L)", shortLabel: "iCa²⁺", placeholder: "1.2", step: "0.01", min: 0.3, max: 3 },
+  { name: "Mg", label: "Mg²⁺ (mmol/L)", shortLabel: "Mg²⁺", placeholder: "0.9", step: "0.01", min: 0.2, max: 3 },
+  { name: "lactate", label: "Lactate (mmol/L)", shortLabel: "Lactate", placeholder: "1.0", step: "0.1", min: 0, max: 15 },
+  { name: "phosphate", label: "Phosphate (mmol/L)", shortLabel: "Phosphate", placeholder: "1.0", step: "0.01", min: 0, max: 5 },
+  { name: "albumin", label: "Albumin", shortLabel: "Albumin", placeholder: "4.0", step: "0.1", min: 1, max: 6 },
+];
+
+export function StepStewart() {
+  const { input, updateInput, goToNextStep, goToPreviousStep, referenceProfile } = useWizard();
+  const referenceRanges = referenceProfile.ranges;
+
+  const form = useForm<StewartFormData>({
+    resolver: zodResolver(stewartSchema),
+    defaultValues: {
+      K: input.K ?? (undefined as unknown as number),
+      Ca: input.Ca ?? (undefined as unknown as number),
+      Mg: input.Mg ?? (undefined as unknown as number),
+      lactate: input.lactate ?? (undefined as unknown as number),
+      phosphate: input.phosphate ?? (undefined as unknown as number),
+      albuminUnit: getUnit("albumin", input.units) as StewartFormData["albuminUnit"],
+      albumin: input.albumin !== undefined
+        ? formatInUnit("albumin", input.albumin, input.units)
+        : (undefined as unknown as number),
+    },
+  });
+
+  const watched = form.watch();
+  const albuminUnits = { albumin: watched.albuminUnit };
+  const watchedAlbumin =
+    watched.albumin !== undefined
+      ? toCanonicalUnit("albumin", watched.albumin, watched.albuminUnit)
+      : undefined;
+
+  const handleAlbuminUnitChange = (unit: string) => {
+    const nextUnit = unit as StewartFormData["albuminUnit"];
+    if (watched.albumin !== undefined) {
+      form.setValue("albumin", convertUnit("albumin", watched.albumin, watched.albuminUnit, nextUnit));
+    }
+    form.setValue("albuminUnit", nextUnit);
+  };
+
+  const onSubmit = (data: StewartFormData) => {
+    updateInput({
+      K: data.K,
+      Ca: data.Ca,
+      Mg: data.Mg,
+      lactate: data.lactate,
+      phosphate: data.phosphate,
+      albumin: data.albumin !== undefined
+        ? toCanonicalUnit("albumin", data.albumin, data.albuminUnit)
+        : undefined,
+      units: { ...input.units, albumin: data.albuminUnit },
+    });
+    goToNextStep();
+  };
+
+  // Calculate Stewart variables if we have required values
+  const stewartResult =
+    input.pH !== undefined &&
+      input.HCO3 !== undefined &&
+      input.Na !== undefined &&
+      input.Cl !== undefined &&
+      watched.K !== undefined &&
+      watched.Ca !== undefined &&
+      watched.Mg !== undefined &&
+      watchedAlbumin !== undefined &&
+      watched.phosphate !== undefined
+      ? calculateStewart({
+        pH: input.pH,
+        HCO3: input.HCO3,
+        Na: input.Na,
+        Cl: input.Cl,
+        K: watched.K,
+        Ca: watched.Ca,
+        Mg: watched.Mg,
+        albumin: watchedAlbumin,
+        phosphate: watched.phosphate,
+        lactate: watched.lactate,
+      }, referenceProfile)
+      : null;
+
+  const isSIGElevated = stewartResult?.sigStatus === "elevated";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Atom className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-xl">Step 5: Stewart Analysis (Optional)</CardTitle>
+              <CardDescription>
+                Physicochemical approach: strong ion difference and strong ion gap
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {/* Formula Display */}
+              <div className="p-4 rounded-lg bg-muted/50 border space-y-1">
+                <p className="text-sm text-muted-foreground mb-2">Stewart Formulas:</p>
+                <p className="text-sm font-mono font-semibold">
+                  SIDa = Na⁺ + K⁺ + Ca²⁺ + Mg²⁺ - Cl⁻ - Lactate⁻
+                </p>
+                <p className="text-sm font-mono font-semibold">
+                  SIDe = HCO₃⁻ + Alb⁻ + Pi⁻
+                </p>
+                <p className="text-sm font-mono font-semibold">SIG = SIDa - SIDe</p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Normal SIDa: {referenceRanges.SIDa.low}-{referenceRanges.SIDa.high} {referenceRanges.SIDa.unit} |
+                  Normal SIG: {referenceRanges.SIG.low} to +{referenceRanges.SIG.high} {referenceRanges.SIG.unit}
+                </p>
+              </div>
+
+              {(input.Na === undefined || input.Cl === undefined) && (
+                <p className="text-sm text-clinical-orange">
+                  Na⁺ and Cl⁻ from the Anion Gap step are required for Stewart analysis.
+                </p>
+              )}
+
+              <div className="grid gap-6 md:grid-cols-3">
+                {fields.map((item) => (
+                  <FormField
+                    key={item.name}
+                    control={form.control}
+                    name={item.name}
+                    render={({ field }) => (
+                      <FormItem>
+                        {item.name === "albumin" ? (
+                          <div className="flex items-center justify-between gap-2">
+                            <FormLabel className="text-base font-semibold">
+                              {item.label} ({watched.albuminUnit})
+                            </FormLabel>
+                            <UnitSelect field="albumin" value={watched.albuminUnit} onChange={handleAlbuminUnitChange} />
+                          </div>
+                        ) : (
+                          <FormLabel className="text-base font-semibold">{item.label}</FormLabel>
+                        )}
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step={item.step}
+                            placeholder={item.placeholder}
+                            className="text-lg h-11 font-mono"
+                            data-testid={`input-${item.name.toLowerCase()}`}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          {item.name === "albumin"
+                            ? `Normal: ${formatInUnit("albumin", referenceRanges.albumin.low, albuminUnits)}-${formatInUnit("albumin", referenceRanges.albumin.high, albuminUnits)} ${watched.albuminUnit}`
+                            : `Normal: ${referenceRanges[item.name].low}-${referenceRanges[item.name].high} ${referenceRanges[item.name].unit}`}
+                        </FormDescription>
+                        <FormMessage />
+                        {watched[item.name] !== undefined && (
+                          <div className="pt-2">
+                            {item.name === "albumin" ? (
+                              <ValueRangeIndicator
+                                value={watched.albumin}
+                                min={formatInUnit("albumin", item.min, albuminUnits)}
+                                max={formatInUnit("albumin", item.max, albuminUnits)}
+                                normalLow={formatInUnit("albumin", referenceRanges.albumin.low, albuminUnits)}
+                                normalHigh={formatInUnit("albumin", referenceRanges.albumin.high, albuminUnits)}
+                                unit={` ${watched.albuminUnit}`}
+                                label={item.shortLabel}
+                              />
+                            ) : (
+                              <ValueRangeIndicator
+                                value={watched[item.name]}
+                                min={item.min}
+                                max={item.max}
+                                normalLow={referenceRanges[item.name].low}
+                                normalHigh={referenceRanges[item.name].high}
+                                unit={` ${referenceRanges[item.name].unit}`}
+                                label={item.shortLabel}
+                              />
+                            )}
+                          </div>
+                        )}
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              {/* Calculation Result */}
+              {stewartResult && (
+                <div className="space-y-4">
+                  <div className="p-4 rounded-lg bg-card border space-y-1">
+                    <p className="text-sm text-muted-foreground mb-1">Calculation:</p>
+                    <p className="font-mono text-sm">{stewartResult.sidaFormula}</p>
+                    <p className="font-mono text-sm">{stewartResult.sideFormula}</p>
+                    <p className="font-mono text-sm">{stewartResult.sigFormula}</p>
+                  </div>
+
+                  <div className="flex items-center justify-center gap-8 p-6 rounded-lg bg-muted/30">
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">SIDa</p>
+                      <p className={cn(
+                        "text-2xl font-bold font-mono",
+                        stewartResult.sidStatus === "normal" ? "text-clinical-green" : "text-clinical-orange"
+                      )}>
+                        {stewartResult.SIDa.toFixed(1)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">mEq/L</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">SIDe</p>
+                      <p className="text-2xl font-bold font-mono">{stewartResult.SIDe.toFixed(1)}</p>
+                      <p className="text-sm text-muted-foreground">mEq/L</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-sm text-muted-foreground">SIG</p>
+                      <p className={cn(
+                        "text-3xl font-bold font-mono",
+                        isSIGElevated ? "text-clinical-red" : "text-clinical-green"
+                      )}>
+                        {stewartResult.SIG.toFixed(1)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">mEq/L</p>
+                    </div>
+                  </div>
+
+                  <div
+                    className={cn(
+                      "p-4 rounded-lg border-l-4 flex items-start gap-3",
+                      isSIGElevated
+                        ? "bg-clinical-red-light border-clinical-red"
+                        : "bg-clinical-green-light border-clinical-green"
+                    )}
+                    data-testid="stewart-interpretation"
+                  >
+                    {isSIGElevated ? (
+                      <AlertTriangle className="w-5 h-5 text-clinical-red shrink-0 mt-0.5" />
+                    ) : (
+                      <CheckCircle className="w-5 h-5 text-clinical-green shrink-0 mt-0.5" />
+                    )}
+                    <div>
+                      <p className={cn(
+                        "font-bold text-lg",
+                        isSIGElevated ? "text-clinical-red" : "text-clinical-green"
+                      )}>
+                        {isSIGElevated ? "Elevated Strong Ion Gap" : "No Excess Unmeasured Anions"}
+                      </p>
+                      <p className="text-sm text-foreground/80 mt-1">
+                        {stewartResult.sidStatus === "low"
+                          ? "Low SIDa indicates a strong ion acidosis (e.g. hyperchloraemia). "
+                          : stewartResult.sidStatus === "high"
+                            ? "High SIDa indicates a strong ion alkalosis (e.g. chloride loss). "
+                            : "SIDa is within normal range. "}
+                        {isSIGElevated
+                          ? "The elevated SIG suggests unmeasured anions (ketones, toxins, uraemic acids)."
+                          : "The SIG does not suggest unmeasured anions."}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-between pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="lg"
+                  onClick={goToPreviousStep}
+                  data-testid="button-previous-step"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Previous
+                </Button>
+                <div className="flex gap-3">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="lg"
+                    onClick={goToNextStep}
+                    data-testid="button-skip"
+                  >
+                    Skip
+                  </Button>
+                  <Button
+                    type="submit"
+                    size="lg"
+                    data-testid="button-next-step"
+                  >
+                    Next Step
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { AlertCircle, Thermometer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  temperatureStrategyLabels,
+  type TemperatureCorrectionResult,
+  type UnitPreferences,
+} from "@shared/schema";
+import { formatInUnit, getUnit } from "@/lib/blood-gas-logic";
+import { cn } from "@/lib/utils";
+
+interface TemperatureCorrectionProps {
+  result: TemperatureCorrectionResult;
+  units?: UnitPreferences;
+}
+
+export function TemperatureCorrection({ result, units }: TemperatureCorrectionProps) {
+  const pCO2Unit = getUnit("pCO2", units);
+  const pO2Unit = getUnit("pO2", units);
+  const rows = [
+    {
+      label: "pH",
+      measured: result.measured.pH.toFixed(2),
+      corrected: result.corrected.pH.toFixed(2),
+    },
+    {
+      label: `pCO₂ (${pCO2Unit})`,
+      measured: formatInUnit("pCO2", result.measured.pCO2, units).toFixed(1),
+      corrected: formatInUnit("pCO2", result.corrected.pCO2, units).toFixed(1),
+    },
+  ];
+  if (result.measured.pO2 !== undefined && result.corrected.pO2 !== undefined) {
+    rows.push({
+      label: `pO₂ (${pO2Unit})`,
+      measured: formatInUnit("pO2", result.measured.pO2, units).toFixed(1),
+      corrected: formatInUnit("pO2", result.corrected.pO2, units).toFixed(1),
+    });
+  }
+  const basisClass = "font-bold text-foreground";
+
+  return (
+    <div className="space-y-3" data-testid="temperature-correction">
+      <div className="flex items-center gap-2">
+        <Thermometer className="w-5 h-5 text-primary" />
+        <p className="font-semibold">Temperature Correction ({result.temperature} °C)</p>
+        <Badge variant="outline" className="ml-auto text-xs">
+          {temperatureStrategyLabels[result.strategy]}
+        </Badge>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-muted-foreground">
+              <th className="text-left py-2 font-medium">Value</th>
+              <th className="text-right py-2 font-medium">At 37 °C</th>
+              <th className="text-right py-2 font-medium">At {result.temperature} °C</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-b last:border-0 text-muted-foreground">
+                <td className="py-2">{row.label}</td>
+                <td className={cn("py-2 text-right font-mono", result.basis === "measured" && basisClass)}>
+                  {row.measured}
+                </td>
+                <td className={cn("py-2 text-right font-mono", result.basis === "corrected" && basisClass)}>
+                  {row.corrected}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Interpretation uses the {result.basis === "measured" ? "37 °C" : "temperature-corrected"} values (bold)
+      </p>
+
+      <div className="p-3 rounded-lg bg-muted/50 border space-y-1">
+        {result.formulas.map((formula, index) => (
+          <p key={index} className="font-mono text-xs">{formula}</p>
+        ))}
+      </div>
+
+      <ul className="space-y-1">
+        {result.notes.map((note, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            {note}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
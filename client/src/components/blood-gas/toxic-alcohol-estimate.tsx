@@ -0,0 +1,115 @@
+import { AlertCircle, AlertTriangle, CheckCircle, Skull } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { IngestionStage, ToxicAlcoholResult, TreatmentIndication } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const stageLabels: Record<IngestionStage, { label: string; color: string; bgColor: string; borderColor: string }> = {
+  early: {
+    label: "Early ingestion",
+    color: "text-clinical-orange",
+    bgColor: "bg-clinical-orange-light",
+    borderColor: "border-clinical-orange",
+  },
+  intermediate: {
+    label: "Metabolism under way",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+  late: {
+    label: "Possible late ingestion",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+  indeterminate: {
+    label: "Stage indeterminate",
+    color: "text-clinical-purple",
+    bgColor: "bg-clinical-purple-light",
+    borderColor: "border-clinical-purple",
+  },
+};
+
+function IndicationRow({ label, indication }: { label: string; indication: TreatmentIndication }) {
+  return (
+    <div className="p-3 rounded-lg border">
+      <div className="flex items-center gap-2">
+        {indication.indicated ? (
+          <AlertTriangle className="w-4 h-4 text-clinical-red shrink-0" />
+        ) : (
+          <CheckCircle className="w-4 h-4 text-clinical-green shrink-0" />
+        )}
+        <p className={cn("font-semibold", indication.indicated ? "text-clinical-red" : "text-clinical-green")}>
+          {label}: {indication.indicated ? "threshold met" : "no threshold met"}
+        </p>
+      </div>
+      {indication.reasons.length > 0 && (
+        <ul className="list-disc pl-10 mt-1 space-y-0.5 text-sm">
+          {indication.reasons.map((reason, index) => (
+            <li key={index}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function ToxicAlcoholEstimate({ result }: { result: ToxicAlcoholResult }) {
+  const stage = stageLabels[result.stage];
+
+  return (
+    <div className="space-y-4" data-testid="toxic-alcohol-estimate">
+      <div className="flex items-center gap-2">
+        <Skull className="w-5 h-5 text-clinical-red" />
+        <p className="font-semibold">Toxic Alcohol Estimate</p>
+        <Badge variant="outline" className="ml-auto font-mono text-xs">
+          EtOH ÷ {result.ethanolCoefficient}
+        </Badge>
+      </div>
+
+      <div className={cn("p-4 rounded-lg border-l-4", stage.bgColor, stage.borderColor)}>
+        <p className={cn("font-bold", stage.color)}>{stage.label}</p>
+        <p className="text-sm text-foreground/80 mt-1">{result.stageInterpretation}</p>
+      </div>
+
+      {result.excessOsmolesHigh > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="text-left py-2 font-medium">If the excess osmoles are</th>
+                <th className="text-right py-2 font-medium">Estimated level (mg/dL)</th>
+                <th className="text-right py-2 font-medium">mmol/L</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.estimates.map((estimate) => (
+                <tr key={estimate.alcohol} className="border-b last:border-0" title={estimate.formula}>
+                  <td className="py-2">{estimate.name}</td>
+                  <td className="py-2 text-right font-mono">
+                    {estimate.lowMgDL.toFixed(0)}-{estimate.highMgDL.toFixed(0)}
+                  </td>
+                  <td className="py-2 text-right font-mono">≤ {estimate.highMmolL.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <IndicationRow label="Fomepizole" indication={result.fomepizole} />
+        <IndicationRow label="Dialysis" indication={result.dialysis} />
+      </div>
+
+      <ul className="space-y-1">
+        {result.caveats.map((caveat, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            {caveat}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
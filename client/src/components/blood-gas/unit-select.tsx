@@ -0,0 +1,34 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { unitOptions, unitLabels, type UnitField } from "@shared/schema";
+
+interface UnitSelectProps {
+  field: UnitField;
+  value: string;
+  onChange: (unit: string) => void;
+}
+
+export function UnitSelect({ field, value, onChange }: UnitSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger
+        className="h-8 w-auto min-w-[6rem] text-xs font-normal"
+        data-testid={`select-unit-${field.toLowerCase()}`}
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {unitOptions[field].map((unit) => (
+          <SelectItem key={unit} value={unit}>
+            {unitLabels[field][unit]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,8 +1,21 @@
 import { createContext, useContext, useState, useCallback } from "react";
-import type { BloodGasInput, BloodGasInterpretation } from "@shared/schema";
-import { interpretBloodGas } from "@/lib/blood-gas-logic";
-
-export type WizardStep = 1 | 2 | 3 | 4 | 5;
+import {
+  ethanolCoefficients,
+  referenceProfileIds,
+  type BloodGasInput,
+  type EthanolCoefficient,
+  type BloodGasInterpretation,
+  type ReferenceProfile,
+  type ReferenceProfileId,
+} from "@shared/schema";
+import {
+  determineAgeGroup,
+  determineTrimester,
+  getReferenceProfile,
+  interpretBloodGas,
+} from "@/lib/blood-gas-logic";
+
+export type WizardStep = 1 | 2 | 3 | 4 | 5 | 6 | 7;
 
 interface WizardContextType {
   currentStep: WizardStep;
@@ -10,6 +23,10 @@ interface WizardContextType {
   input: BloodGasInput;
   updateInput: (updates: Partial<BloodGasInput>) => void;
   interpretation: BloodGasInterpretation | null;
+  referenceProfile: ReferenceProfile;
+  setReferenceProfileId: (id: ReferenceProfileId) => void;
+  ethanolCoefficient: EthanolCoefficient;
+  setEthanolCoefficient: (coefficient: EthanolCoefficient) => void;
   goToNextStep: () => void;
   goToPreviousStep: () => void;
   reset: () => void;
@@ -21,9 +38,41 @@ const WizardContext = createContext<WizardContextType | undefined>(undefined);
 
 const initialInput: BloodGasInput = {};
 
+const profileStorageKey = "blood-gas-reference-profile";
+const ethanolCoefficientStorageKey = "blood-gas-ethanol-coefficient";
+
+function loadReferenceProfileId(): ReferenceProfileId | undefined {
+  const stored = localStorage.getItem(profileStorageKey);
+  return referenceProfileIds.find((id) => id === stored);
+}
+
+function loadEthanolCoefficient(): EthanolCoefficient {
+  const stored = Number(localStorage.getItem(ethanolCoefficientStorageKey));
+  return ethanolCoefficients.find((coefficient) => coefficient === stored) ?? ethanolCoefficients[0];
+}
+
 export function WizardProvider({ children }: { children: React.ReactNode }) {
   const [currentStep, setCurrentStep] = useState<WizardStep>(1);
   const [input, setInput] = useState<BloodGasInput>(initialInput);
+  const [referenceProfileId, setProfileId] = useState<ReferenceProfileId | undefined>(
+    loadReferenceProfileId
+  );
+  const [ethanolCoefficient, setCoefficient] = useState<EthanolCoefficient>(loadEthanolCoefficient);
+  const referenceProfile = getReferenceProfile(
+    referenceProfileId,
+    determineAgeGroup(input.age, input.gestationalAge, input.ageGroup),
+    determineTrimester(input.pregnant, input.trimester)
+  );
+
+  const setReferenceProfileId = useCallback((id: ReferenceProfileId) => {
+    localStorage.setItem(profileStorageKey, id);
+    setProfileId(id);
+  }, []);
+
+  const setEthanolCoefficient = useCallback((coefficient: EthanolCoefficient) => {
+    localStorage.setItem(ethanolCoefficientStorageKey, String(coefficient));
+    setCoefficient(coefficient);
+  }, []);
 
   const updateInput = useCallback((updates: Partial<BloodGasInput>) => {
     setInput((prev) => ({ ...prev, ...updates }));
@@ -32,11 +81,11 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
   const interpretation = input.pH !== undefined && 
     input.pCO2 !== undefined && 
     input.HCO3 !== undefined
-    ? interpretBloodGas(input)
+    ? interpretBloodGas(input, { profile: referenceProfile.id, ethanolCoefficient })
     : null;
 
   const goToNextStep = useCallback(() => {
-    setCurrentStep((prev) => Math.min(prev + 1, 5) as WizardStep);
+    setCurrentStep((prev) => Math.min(prev + 1, 7) as WizardStep);
   }, []);
 
   const goToPreviousStep = useCallback(() => {
@@ -53,12 +102,16 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
       case 1:
         return input.pH !== undefined && input.pCO2 !== undefined && input.HCO3 !== undefined;
       case 2:
-        return input.Na !== undefined && input.Cl !== undefined;
+        return true; // Oxygenation is optional
       case 3:
-        return true; // Osmolar gap is optional
+        return input.Na !== undefined && input.Cl !== undefined;
       case 4:
-        return true; // Compensation is auto-calculated
+        return true; // Osmolar gap is optional
       case 5:
+        return true; // Stewart analysis is optional
+      case 6:
+        return true; // Compensation is auto-calculated
+      case 7:
         return true;
       default:
         return false;
@@ -69,9 +122,9 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
     const path: string[] = [];
     
     if (input.pH !== undefined) {
-      if (input.pH < 7.35) {
+      if (input.pH < referenceProfile.ranges.pH.low) {
         path.push("acidaemia");
-      } else if (input.pH > 7.45) {
+      } else if (input.pH > referenceProfile.ranges.pH.high) {
         path.push("alkalaemia");
       } else {
         path.push("normal");
@@ -87,7 +140,7 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
     }
 
     return path;
-  }, [input, interpretation]);
+  }, [input, interpretation, referenceProfile]);
 
   return (
     <WizardContext.Provider
@@ -97,6 +150,10 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
         input,
         updateInput,
         interpretation,
+        referenceProfile,
+        setReferenceProfileId,
+        ethanolCoefficient,
+        setEthanolCoefficient,
         goToNextStep,
         goToPreviousStep,
         reset,
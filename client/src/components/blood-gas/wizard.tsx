@@ -3,8 +3,10 @@ import { StepIndicator } from "./step-indicator";
 import { Flowchart } from "./flowchart";
 import {
   StepInitial,
+  StepOxygenation,
   StepAnionGap,
   StepOsmolarGap,
+  StepStewart,
   StepCompensation,
   StepDiagnosis,
 } from "./steps";
@@ -16,12 +18,16 @@ function StepContent() {
     case 1:
       return <StepInitial />;
     case 2:
-      return <StepAnionGap />;
+      return <StepOxygenation />;
     case 3:
-      return <StepOsmolarGap />;
+      return <StepAnionGap />;
     case 4:
-      return <StepCompensation />;
+      return <StepOsmolarGap />;
     case 5:
+      return <StepStewart />;
+    case 6:
+      return <StepCompensation />;
+    case 7:
       return <StepDiagnosis />;
     default:
       return <StepInitial />;
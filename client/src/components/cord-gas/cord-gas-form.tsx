@@ -0,0 +1,207 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Baby } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { UnitSelect } from "@/components/blood-gas";
+import { unitOptions, type CordGasReport } from "@shared/schema";
+import {
+  convertUnit,
+  describeInputLimits,
+  interpretCordGas,
+  isWithinInputLimits,
+  toCanonicalUnit,
+} from "@/lib/blood-gas-logic";
+
+const sampleSchema = z.object({
+  pH: z.coerce
+    .number()
+    .min(6.5, "pH must be at least 6.5")
+    .max(7.6, "pH must be at most 7.6"),
+  pCO2: z.coerce.number(),
+  baseExcess: z.coerce
+    .number()
+    .min(-30, "Base excess must be at least -30 mmol/L")
+    .max(15, "Base excess must be at most 15 mmol/L")
+    .optional(),
+});
+
+const cordGasFormSchema = z.object({
+  pCO2Unit: z.enum(unitOptions.pCO2),
+  arterial: sampleSchema,
+  venous: sampleSchema,
+}).superRefine((data, ctx) => {
+  for (const vessel of ["arterial", "venous"] as const) {
+    if (!isWithinInputLimits("pCO2", data[vessel].pCO2, data.pCO2Unit)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [vessel, "pCO2"],
+        message: `pCO2 must be between ${describeInputLimits("pCO2", data.pCO2Unit)}`,
+      });
+    }
+  }
+});
+
+type CordGasFormData = z.infer<typeof cordGasFormSchema>;
+
+const vessels = [
+  { key: "arterial", title: "Umbilical artery" },
+  { key: "venous", title: "Umbilical vein" },
+] as const;
+
+interface CordGasFormProps {
+  onReport: (report: CordGasReport) => void;
+}
+
+export function CordGasForm({ onReport }: CordGasFormProps) {
+  const form = useForm<CordGasFormData>({
+    resolver: zodResolver(cordGasFormSchema),
+    defaultValues: {
+      pCO2Unit: unitOptions.pCO2[0],
+      arterial: {
+        pH: undefined as unknown as number,
+        pCO2: undefined as unknown as number,
+        baseExcess: undefined as unknown as number,
+      },
+      venous: {
+        pH: undefined as unknown as number,
+        pCO2: undefined as unknown as number,
+        baseExcess: undefined as unknown as number,
+      },
+    },
+  });
+
+  const watchedPCO2Unit = form.watch("pCO2Unit");
+
+  const handlePCO2UnitChange = (unit: string) => {
+    const nextUnit = unit as CordGasFormData["pCO2Unit"];
+    for (const vessel of ["arterial", "venous"] as const) {
+      const value = form.getValues(`${vessel}.pCO2`);
+      if (value !== undefined) {
+        form.setValue(`${vessel}.pCO2`, convertUnit("pCO2", value, watchedPCO2Unit, nextUnit));
+      }
+    }
+    form.setValue("pCO2Unit", nextUnit);
+  };
+
+  const onSubmit = (data: CordGasFormData) => {
+    onReport(
+      interpretCordGas({
+        arterial: { ...data.arterial, pCO2: toCanonicalUnit("pCO2", data.arterial.pCO2, data.pCO2Unit) },
+        venous: { ...data.venous, pCO2: toCanonicalUnit("pCO2", data.venous.pCO2, data.pCO2Unit) },
+        units: { pCO2: data.pCO2Unit },
+      })
+    );
+  };
+
+  return (
+    <Card data-testid="card-cord-gas-input">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Baby className="w-5 h-5" />
+          Paired Umbilical Cord Gases
+        </CardTitle>
+        <CardDescription>
+          Enter the umbilical artery and vein samples taken at delivery. Base excess is optional -
+          it is calculated from pH and pCO2 when left blank.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-muted-foreground">pCO2 units</span>
+              <UnitSelect field="pCO2" value={watchedPCO2Unit} onChange={handlePCO2UnitChange} />
+            </div>
+            <div className="grid gap-6 md:grid-cols-2">
+              {vessels.map((vessel) => (
+                <div key={vessel.key} className="space-y-4 p-4 rounded-lg border">
+                  <p className="font-semibold">{vessel.title}</p>
+                  <FormField
+                    control={form.control}
+                    name={`${vessel.key}.pH`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold">pH</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder={vessel.key === "arterial" ? "7.26" : "7.34"}
+                            className="font-mono"
+                            data-testid={`input-cord-${vessel.key}-ph`}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`${vessel.key}.pCO2`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold">pCO2 ({watchedPCO2Unit})</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            placeholder={vessel.key === "arterial" ? "53" : "41"}
+                            className="font-mono"
+                            data-testid={`input-cord-${vessel.key}-pco2`}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`${vessel.key}.baseExcess`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold">Base excess (mmol/L, optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            placeholder="-4.0"
+                            className="font-mono"
+                            data-testid={`input-cord-${vessel.key}-be`}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+            </div>
+            <Button type="submit" data-testid="button-interpret-cord-gas">
+              Interpret cord gas
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { AlertCircle, AlertTriangle, CheckCircle, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  cordGasThresholds,
+  type CordGasReport as CordGasReportData,
+  type CordPairingStatus,
+  type CordSampleResult,
+  type FetalAcidaemiaType,
+} from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const acidaemiaLabels: Record<FetalAcidaemiaType, { label: string; color: string; bgColor: string; borderColor: string }> = {
+  none: {
+    label: "No Fetal Acidaemia",
+    color: "text-clinical-green",
+    bgColor: "bg-clinical-green-light",
+    borderColor: "border-clinical-green",
+  },
+  mild: {
+    label: "Mild Acidaemia",
+    color: "text-clinical-orange",
+    bgColor: "bg-clinical-orange-light",
+    borderColor: "border-clinical-orange",
+  },
+  respiratory: {
+    label: "Respiratory Acidaemia",
+    color: "text-clinical-orange",
+    bgColor: "bg-clinical-orange-light",
+    borderColor: "border-clinical-orange",
+  },
+  metabolic: {
+    label: "Metabolic Acidaemia",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+  mixed: {
+    label: "Mixed Acidaemia",
+    color: "text-clinical-red",
+    bgColor: "bg-clinical-red-light",
+    borderColor: "border-clinical-red",
+  },
+};
+
+const pairingLabels: Record<CordPairingStatus, string> = {
+  valid: "Valid artery-vein pair",
+  swapped: "Samples appear swapped",
+  same_vessel: "Both samples from one vessel",
+  discordant: "Pairing uncertain",
+};
+
+function SampleRow({ title, sample, classified }: { title: string; sample: CordSampleResult; classified: boolean }) {
+  return (
+    <tr className="border-b last:border-0" title={sample.baseDeficitFormula}>
+      <td className="py-2">
+        {title}
+        {classified && <Badge variant="outline" className="ml-2 text-xs">classified</Badge>}
+      </td>
+      <td className="py-2 text-right font-mono">{sample.pH.toFixed(2)}</td>
+      <td className="py-2 text-right font-mono">{sample.pCO2.toFixed(1)}</td>
+      <td className="py-2 text-right font-mono">{sample.HCO3.toFixed(1)}</td>
+      <td className="py-2 text-right font-mono">
+        {sample.baseDeficit.toFixed(1)}
+        <span className="text-xs text-muted-foreground ml-1">
+          ({sample.baseDeficitSource === "measured" ? "measured" : "calc"})
+        </span>
+      </td>
+    </tr>
+  );
+}
+
+export function CordGasReport({ report }: { report: CordGasReportData }) {
+  const acidaemia = acidaemiaLabels[report.acidaemia];
+  const pairingValid = report.pairing.status === "valid";
+
+  return (
+    <Card data-testid="card-cord-gas-report">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Cord Gas Report
+        </CardTitle>
+        <CardDescription>
+          Acidaemia pH &lt; {cordGasThresholds.acidaemiaPH.toFixed(2)}; metabolic component BD ≥{" "}
+          {cordGasThresholds.metabolicBaseDeficit} mmol/L; respiratory component pCO₂ &gt;{" "}
+          {cordGasThresholds.respiratoryPCO2} mmHg
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="text-left py-2 font-medium">Sample</th>
+                <th className="text-right py-2 font-medium">pH</th>
+                <th className="text-right py-2 font-medium">pCO₂ (mmHg)</th>
+                <th className="text-right py-2 font-medium">HCO₃⁻ (mmol/L)</th>
+                <th className="text-right py-2 font-medium">BD (mmol/L)</th>
+              </tr>
+            </thead>
+            <tbody>
+              <SampleRow title="Artery" sample={report.arterial} classified={report.classifiedSample === "arterial"} />
+              <SampleRow title="Vein" sample={report.venous} classified={report.classifiedSample === "venous"} />
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 rounded-lg border" data-testid="text-cord-pairing">
+          <div className="flex items-center gap-2 mb-1">
+            {pairingValid ? (
+              <CheckCircle className="w-4 h-4 text-clinical-green shrink-0" />
+            ) : (
+              <AlertTriangle className="w-4 h-4 text-clinical-orange shrink-0" />
+            )}
+            <p className={cn("font-semibold", pairingValid ? "text-clinical-green" : "text-clinical-orange")}>
+              {pairingLabels[report.pairing.status]}
+            </p>
+          </div>
+          <ul className="list-disc pl-10 space-y-0.5 text-sm">
+            {report.pairing.messages.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        </div>
+
+        <div
+          className={cn("p-4 rounded-lg border-l-4", acidaemia.bgColor, acidaemia.borderColor)}
+          data-testid="text-cord-acidaemia"
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <p className={cn("font-bold text-lg", acidaemia.color)}>{acidaemia.label}</p>
+            {report.isSevere && <Badge variant="destructive">Severe</Badge>}
+            {report.isPathological && <Badge variant="outline">Pathological</Badge>}
+          </div>
+          <p className="text-sm text-foreground/80">{report.interpretation}</p>
+        </div>
+
+        <ul className="space-y-1">
+          {report.notes.map((note, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 text-clinical-orange shrink-0" />
+              {note}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
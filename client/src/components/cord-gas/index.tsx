@@ -0,0 +1,2 @@
+export { CordGasForm } from "./cord-gas-form";
+export { CordGasReport } from "./cord-gas-report";
@@ -1,15 +1,58 @@
 export {
+  getUnit,
+  getUnitLabel,
+  toCanonicalUnit,
+  fromCanonicalUnit,
+  convertUnit,
+  formatInUnit,
+  isWithinInputLimits,
+  describeInputLimits,
+  checkInternalConsistency,
+  getReferenceProfile,
+  getBaselineGas,
+  determineTrimester,
+  determineAgeGroup,
+  calculateTemperatureCorrection,
+  estimateArterialValues,
+  getSampleReferenceRanges,
+  getSampleLimitations,
+  assessPregnancy,
   determinepHStatus,
+  scoreDisorderDominance,
   determinePrimaryDisorder,
+  detectNormalPHMixedDisorder,
   calculateAnionGap,
+  calculateLactateContribution,
+  assessElectrolytes,
+  calculateUrineAnionGap,
+  classifyMetabolicAlkalosis,
+  calculateStewart,
   calculateOsmolarGap,
+  stageToxicAlcoholIngestion,
+  estimateToxicAlcohols,
+  calculateCorrectedSodium,
+  calculateEffectiveOsmolality,
+  assessDiabeticEmergency,
   calculateWintersFormula,
   calculateDeltaRatio,
   calculateRespiratoryCompensation,
   calculateMetabolicAlkalosisCompensation,
+  calculateBaseExcess,
+  calculateCopenhagenCompensation,
+  calculateOxygenation,
+  formatRespiratoryFailure,
   getCausesForDisorder,
+  findCauses,
+  rankDifferential,
+  recommendFollowUpTests,
+  assessBicarbonateTherapy,
+  isSevereMetabolicAcidosis,
   getMnemonicForDisorder,
   formatDisorderName,
+  formatChronicity,
   getDisorderColorClass,
+  getAvailableInterpretationMethods,
+  compareInterpretationMethods,
   interpretBloodGas,
+  interpretCordGas,
 } from "@shared/blood-gas-calculations";
@@ -0,0 +1,18 @@
+import { useState } from "react";
+import type { CordGasReport as CordGasReportData } from "@shared/schema";
+import { AppHeader } from "@/components/app-header";
+import { CordGasForm, CordGasReport } from "@/components/cord-gas";
+
+export default function CordGas() {
+  const [report, setReport] = useState<CordGasReportData | null>(null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader subtitle="Umbilical Cord Gas Analysis" />
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-6">
+        <CordGasForm onReport={setReport} />
+        {report && <CordGasReport report={report} />}
+      </div>
+    </div>
+  );
+}
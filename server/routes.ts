@@ -2,18 +2,41 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
 import {
+  ageGroups,
+  bicarbonateTherapyOptionsSchema,
   bloodGasInputSchema,
+  causeFilterSchema,
+  cordGasInputSchema,
+  ethanolCoefficientSchema,
+  interpretationMethodDetails,
+  interpretationOptionsSchema,
+  referenceProfileIds,
+  referenceProfiles,
+  unitPreferencesSchema,
+  type AgeGroup,
   type AnionGapStatus,
   type Chronicity,
   type PrimaryDisorder,
+  type ReferenceProfileId,
 } from "@shared/schema";
 import {
   calculateAnionGap,
   calculateOsmolarGap,
   calculateWintersFormula,
   calculateDeltaRatio,
+  calculateUrineAnionGap,
+  estimateToxicAlcohols,
+  convertInputToCanonical,
+  toCanonicalUnit,
+  getReferenceProfile,
   getCausesForDisorder,
+  findCauses,
+  getAvailableInterpretationMethods,
+  compareInterpretationMethods,
   interpretBloodGas,
+  interpretCordGas,
+  recommendFollowUpTests,
+  assessBicarbonateTherapy,
 } from "@shared/blood-gas-calculations";
 
 export async function registerRoutes(
@@ -22,8 +45,23 @@ export async function registerRoutes(
 ): Promise<Server> {
   app.post("/api/interpret", (req, res) => {
     try {
-      const validatedInput = bloodGasInputSchema.parse(req.body);
-      const interpretation = interpretBloodGas(validatedInput);
+      const units = unitPreferencesSchema.parse(req.body?.units ?? {});
+      const validatedInput = bloodGasInputSchema.parse(
+        convertInputToCanonical(req.body, units)
+      );
+      const options = interpretationOptionsSchema.parse(req.query);
+
+      if (
+        options.method &&
+        !getAvailableInterpretationMethods(validatedInput).includes(options.method)
+      ) {
+        const { label, requires } = interpretationMethodDetails[options.method];
+        return res.status(400).json({
+          error: `The ${label} method requires ${requires}.`,
+        });
+      }
+
+      const interpretation = interpretBloodGas(validatedInput, options);
 
       if (!interpretation) {
         return res.status(400).json({
@@ -44,6 +82,126 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/interpret/compare", (req, res) => {
+    try {
+      const units = unitPreferencesSchema.parse(req.body?.units ?? {});
+      const validatedInput = bloodGasInputSchema.parse(
+        convertInputToCanonical(req.body, units)
+      );
+      const options = interpretationOptionsSchema.parse(req.query);
+      const comparison = compareInterpretationMethods(validatedInput, options);
+
+      if (!comparison) {
+        return res.status(400).json({
+          error: "Insufficient data for interpretation. pH, pCO2, and HCO3 are required.",
+        });
+      }
+
+      res.json(comparison);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      console.error("Method comparison error:", error);
+      res.status(500).json({ error: "Failed to compare interpretation methods" });
+    }
+  });
+
+  app.post("/api/differential", (req, res) => {
+    try {
+      const units = unitPreferencesSchema.parse(req.body?.units ?? {});
+      const validatedInput = bloodGasInputSchema.parse(
+        convertInputToCanonical(req.body, units)
+      );
+      const options = interpretationOptionsSchema.parse(req.query);
+      const interpretation = interpretBloodGas(validatedInput, options);
+
+      if (!interpretation) {
+        return res.status(400).json({
+          error: "Insufficient data for interpretation. pH, pCO2, and HCO3 are required.",
+        });
+      }
+
+      res.json(interpretation.differential);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      console.error("Differential error:", error);
+      res.status(500).json({ error: "Failed to rank the differential diagnosis" });
+    }
+  });
+
+  app.post("/api/follow-up-tests", (req, res) => {
+    try {
+      const units = unitPreferencesSchema.parse(req.body?.units ?? {});
+      const validatedInput = bloodGasInputSchema.parse(
+        convertInputToCanonical(req.body, units)
+      );
+      const options = interpretationOptionsSchema.parse(req.query);
+      const interpretation = interpretBloodGas(validatedInput, options);
+
+      if (!interpretation) {
+        return res.status(400).json({
+          error: "Insufficient data for interpretation. pH, pCO2, and HCO3 are required.",
+        });
+      }
+
+      res.json({ tests: recommendFollowUpTests(interpretation) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      console.error("Follow-up tests error:", error);
+      res.status(500).json({ error: "Failed to recommend follow-up tests" });
+    }
+  });
+
+  app.post("/api/treatment/bicarbonate", (req, res) => {
+    try {
+      const units = unitPreferencesSchema.parse(req.body?.units ?? {});
+      const validatedInput = bloodGasInputSchema.parse(
+        convertInputToCanonical(req.body, units)
+      );
+      const therapyOptions = bicarbonateTherapyOptionsSchema.parse(req.body?.therapy ?? {});
+      const options = interpretationOptionsSchema.parse(req.query);
+      const interpretation = interpretBloodGas(validatedInput, options);
+
+      if (!interpretation) {
+        return res.status(400).json({
+          error: "Insufficient data for interpretation. pH, pCO2, and HCO3 are required.",
+        });
+      }
+
+      const result = assessBicarbonateTherapy(interpretation, therapyOptions);
+      if (!result) {
+        return res.status(400).json({
+          error: "Bicarbonate therapy support applies only to a metabolic acidosis.",
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      console.error("Bicarbonate therapy error:", error);
+      res.status(500).json({ error: "Failed to calculate bicarbonate therapy" });
+    }
+  });
+
   app.post("/api/calculate/anion-gap", (req, res) => {
     try {
       const schema = z.object({
@@ -51,10 +209,22 @@ export async function registerRoutes(
         Cl: z.number(),
         HCO3: z.number(),
         albumin: z.number().optional(),
+        K: z.number().optional(),
+        units: unitPreferencesSchema.optional(),
+        profile: z.enum(referenceProfileIds).optional(),
+        ageGroup: z.enum(ageGroups).optional(),
       });
 
-      const { Na, Cl, HCO3, albumin } = schema.parse(req.body);
-      const result = calculateAnionGap(Na, Cl, HCO3, albumin);
+      const { Na, Cl, HCO3, albumin, K, units, profile, ageGroup } = schema.parse(req.body);
+      const result = calculateAnionGap(
+        Na,
+        Cl,
+        HCO3,
+        albumin !== undefined ? toCanonicalUnit("albumin", albumin, units?.albumin) : undefined,
+        units,
+        getReferenceProfile(profile, ageGroup),
+        K
+      );
 
       res.json(result);
     } catch (error) {
@@ -76,10 +246,23 @@ export async function registerRoutes(
         glucose: z.number(),
         urea: z.number(),
         ethanol: z.number().optional(),
+        ethanolCoefficient: ethanolCoefficientSchema.optional(),
+        units: unitPreferencesSchema.optional(),
+        profile: z.enum(referenceProfileIds).optional(),
       });
 
-      const { measuredOsmolality, Na, glucose, urea, ethanol } = schema.parse(req.body);
-      const result = calculateOsmolarGap(measuredOsmolality, Na, glucose, urea, ethanol);
+      const { measuredOsmolality, Na, glucose, urea, ethanol, ethanolCoefficient, units, profile } =
+        schema.parse(req.body);
+      const result = calculateOsmolarGap(
+        measuredOsmolality,
+        Na,
+        toCanonicalUnit("glucose", glucose, units?.glucose),
+        toCanonicalUnit("urea", urea, units?.urea),
+        ethanol !== undefined ? toCanonicalUnit("ethanol", ethanol, units?.ethanol) : undefined,
+        units,
+        getReferenceProfile(profile),
+        ethanolCoefficient
+      );
 
       res.json(result);
     } catch (error) {
@@ -93,15 +276,90 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/calculate/toxic-alcohols", (req, res) => {
+    try {
+      const schema = z.object({
+        measuredOsmolality: z.number(),
+        Na: z.number(),
+        glucose: z.number(),
+        urea: z.number(),
+        ethanol: z.number().optional(),
+        ethanolCoefficient: ethanolCoefficientSchema.optional(),
+        Cl: z.number().optional(),
+        HCO3: z.number().optional(),
+        albumin: z.number().optional(),
+        K: z.number().optional(),
+        pH: z.number().optional(),
+        units: unitPreferencesSchema.optional(),
+        profile: z.enum(referenceProfileIds).optional(),
+      });
+
+      const data = schema.parse(req.body);
+      const { Na, Cl, HCO3, albumin, K, units } = data;
+      const referenceProfile = getReferenceProfile(data.profile);
+      const osmolarGap = calculateOsmolarGap(
+        data.measuredOsmolality,
+        Na,
+        toCanonicalUnit("glucose", data.glucose, units?.glucose),
+        toCanonicalUnit("urea", data.urea, units?.urea),
+        data.ethanol !== undefined
+          ? toCanonicalUnit("ethanol", data.ethanol, units?.ethanol)
+          : undefined,
+        units,
+        referenceProfile,
+        data.ethanolCoefficient
+      );
+      const anionGap =
+        Cl !== undefined && HCO3 !== undefined
+          ? calculateAnionGap(
+            Na,
+            Cl,
+            HCO3,
+            albumin !== undefined ? toCanonicalUnit("albumin", albumin, units?.albumin) : undefined,
+            units,
+            referenceProfile,
+            K
+          )
+          : undefined;
+      const result = estimateToxicAlcohols(
+        {
+          osmolarGap,
+          anionGap,
+          pH: data.pH,
+          HCO3,
+          ethanolCoefficient: data.ethanolCoefficient,
+        },
+        referenceProfile
+      );
+
+      res.json({ osmolarGap, anionGap, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      res.status(500).json({ error: "Failed to estimate toxic alcohols" });
+    }
+  });
+
   app.post("/api/calculate/winters", (req, res) => {
     try {
       const schema = z.object({
         HCO3: z.number(),
         pCO2: z.number(),
+        units: unitPreferencesSchema.optional(),
+        ageGroup: z.enum(ageGroups).optional(),
       });
 
-      const { HCO3, pCO2 } = schema.parse(req.body);
-      const result = calculateWintersFormula(HCO3, pCO2);
+      const { HCO3, pCO2, units, ageGroup } = schema.parse(req.body);
+      const result = calculateWintersFormula(
+        HCO3,
+        toCanonicalUnit("pCO2", pCO2, units?.pCO2),
+        units,
+        getReferenceProfile(undefined, ageGroup)
+      );
 
       res.json(result);
     } catch (error) {
@@ -120,10 +378,18 @@ export async function registerRoutes(
       const schema = z.object({
         anionGap: z.number(),
         HCO3: z.number(),
+        profile: z.enum(referenceProfileIds).optional(),
+        ageGroup: z.enum(ageGroups).optional(),
+        includesPotassium: z.boolean().optional(),
       });
 
-      const { anionGap, HCO3 } = schema.parse(req.body);
-      const result = calculateDeltaRatio(anionGap, HCO3);
+      const { anionGap, HCO3, profile, ageGroup, includesPotassium } = schema.parse(req.body);
+      const agReference = getReferenceProfile(profile, ageGroup).anionGap;
+      const result = calculateDeltaRatio(
+        anionGap,
+        HCO3,
+        includesPotassium ? agReference.normalWithPotassium : agReference.normal
+      );
 
       res.json(result);
     } catch (error) {
@@ -137,6 +403,88 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/calculate/urine-anion-gap", (req, res) => {
+    try {
+      const schema = z.object({
+        urineNa: z.number(),
+        urineK: z.number(),
+        urineCl: z.number(),
+        urineUrea: z.number().optional(),
+        urineGlucose: z.number().optional(),
+        urineOsmolality: z.number().optional(),
+        serumK: z.number().optional(),
+      });
+
+      const result = calculateUrineAnionGap(schema.parse(req.body));
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      res.status(500).json({ error: "Failed to calculate urine anion gap" });
+    }
+  });
+
+  app.post("/api/cord-gas", (req, res) => {
+    try {
+      const units = unitPreferencesSchema.parse(req.body?.units ?? {});
+      const input = cordGasInputSchema.parse({
+        arterial: convertInputToCanonical(req.body?.arterial ?? {}, units),
+        venous: convertInputToCanonical(req.body?.venous ?? {}, units),
+        units,
+      });
+
+      res.json(interpretCordGas(input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      console.error("Cord gas error:", error);
+      res.status(500).json({ error: "Failed to interpret cord gas" });
+    }
+  });
+
+  app.get("/api/reference-profiles", (_req, res) => {
+    res.json({ profiles: Object.values(referenceProfiles) });
+  });
+
+  app.get("/api/reference-profiles/:id", (req, res) => {
+    const { id } = req.params;
+    const { ageGroup } = req.query;
+
+    if (!referenceProfileIds.includes(id as ReferenceProfileId)) {
+      return res.status(404).json({ error: "Reference profile not found" });
+    }
+    if (ageGroup !== undefined && !ageGroups.includes(ageGroup as AgeGroup)) {
+      return res.status(400).json({ error: "Invalid age group" });
+    }
+
+    res.json(getReferenceProfile(id as ReferenceProfileId, ageGroup as AgeGroup | undefined));
+  });
+
+  app.get("/api/causes", (req, res) => {
+    try {
+      const filter = causeFilterSchema.parse(req.query);
+      res.json({ causes: findCauses(filter) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid input data",
+          details: error.errors,
+        });
+      }
+      console.error("Cause lookup error:", error);
+      res.status(500).json({ error: "Failed to look up causes" });
+    }
+  });
+
   app.get("/api/causes/:disorder", (req, res) => {
     const { disorder } = req.params;
     const { anionGapStatus, chronicity } = req.query;
@@ -11,90 +11,674 @@ import type {
   CompensationStatus,
   Chronicity,
   BloodGasInterpretation,
+  BaseExcessResult,
+  ConsistencyResult,
+  InterpretationOptions,
+  OxygenationResult,
+  ARDSSeverity,
+  RespiratoryFailureType,
+  StewartResult,
+  SampleType,
+  ArterialEstimate,
+  StrongIonGapStatus,
+  StrongIonDifferenceStatus,
+  UnitField,
+  UnitPreferences,
+  ReferenceProfile,
+  ReferenceProfileId,
+  MixedDisorderCandidate,
+  MixedDisorderResult,
+  DisorderDominance,
+  DominanceConfidence,
+  NAGMAOrigin,
+  UrineAnionGapResult,
+  ChlorideResponse,
+  MetabolicAlkalosisClassification,
+  VolumeStatus,
+  EthanolCoefficient,
+  IngestionStage,
+  ToxicAlcohol,
+  ToxicAlcoholEstimate,
+  ToxicAlcoholResult,
+  DiabeticEmergencyResult,
+  DiabeticEmergencyType,
+  DKASeverity,
+  DiagnosticCriterion,
+  AnalyteStatus,
+  ElectrolyteAnalyte,
+  ElectrolyteAssessment,
+  ElectrolyteFlag,
+  LactateContribution,
+  AgeGroup,
+  CordGasInput,
+  CordGasReport,
+  CordPairingStatus,
+  CordSample,
+  CordSampleResult,
+  FetalAcidaemiaType,
+  PregnancyAssessment,
+  Trimester,
+  TemperatureCorrectionResult,
+  TemperatureStrategy,
+  ReasoningStep,
+  InterpretationContext,
+  InterpretationMethod,
+  MethodAssessment,
+  MethodComparison,
+  MethodConclusion,
+  MethodDifference,
+  StrongIonComponent,
+  DifferentialEvidence,
+  DifferentialGroup,
+  DifferentialResult,
+  RankedCause,
+  CauseEntry,
+  CauseFilter,
+  FollowUpPriority,
+  FollowUpTest,
+  FollowUpTestId,
+  BicarbonateTherapyOptions,
+  BicarbonateTherapyResult,
+  BicarbonateWarning,
 } from "./schema";
 import {
+  referenceProfiles,
+  defaultReferenceProfileId,
+  sampleTypeOffsets,
+  unitOptions,
+  unitConversionFactors,
+  unitLabels,
+  canonicalInputLimits,
   respiratoryAcidosisCauses,
   metabolicAcidosisCauses,
   respiratoryAlkalosisCauses,
   metabolicAlkalosisCauses,
+  causeKnowledgeBase,
+  toxicAlcohols,
+  toxicAlcoholThresholds,
+  diabeticEmergencyCriteria,
+  ageBands,
+  cordGasThresholds,
+  defaultBaselineGas,
+  defaultTrimester,
+  pregnancyAdjustments,
+  temperatureCorrectionFactors,
+  unitFieldAliases,
+  reasoningReferences,
+  interpretationMethods,
+  interpretationMethodDetails,
+  defaultInterpretationMethod,
+  concurrentDisorderForCompensation,
+  differentialCandidates,
+  differentialThresholds,
+  followUpTestDetails,
+  bicarbonateTherapyParameters,
 } from "./schema";
 
-export function determinepHStatus(pH: number): pHStatus {
-  if (pH < 7.35) return "acidaemia";
-  if (pH > 7.45) return "alkalaemia";
-  return "normal";
+export function getUnit(field: UnitField, units?: UnitPreferences): string {
+  return units?.[field] ?? unitOptions[field][0];
 }
 
-export function determinePrimaryDisorder(
+export function getUnitLabel(field: UnitField, units?: UnitPreferences): string {
+  return unitLabels[field][getUnit(field, units)];
+}
+
+export function toCanonicalUnit(
+  field: UnitField,
+  value: number,
+  unit?: string
+): number {
+  return unit ? value * (unitConversionFactors[field][unit] ?? 1) : value;
+}
+
+export function fromCanonicalUnit(
+  field: UnitField,
+  value: number,
+  unit?: string
+): number {
+  return unit ? value / (unitConversionFactors[field][unit] ?? 1) : value;
+}
+
+export function convertUnit(
+  field: UnitField,
+  value: number,
+  fromUnit: string,
+  toUnit: string
+): number {
+  return Number(
+    fromCanonicalUnit(field, toCanonicalUnit(field, value, fromUnit), toUnit).toFixed(2)
+  );
+}
+
+// Rounds a canonical value converted to the user's unit to a sensible display precision
+export function formatInUnit(
+  field: UnitField,
+  value: number,
+  units?: UnitPreferences
+): number {
+  const unit = getUnit(field, units);
+  const decimals = unit === "mg/dL" || unit === "g/L" ? 0 : unit === "mmHg" ? 1 : 2;
+  return Number(fromCanonicalUnit(field, value, unit).toFixed(decimals));
+}
+
+export function isWithinInputLimits(
+  field: UnitField,
+  value: number,
+  unit?: string
+): boolean {
+  const canonical = toCanonicalUnit(field, value, unit);
+  const limits = canonicalInputLimits[field];
+  return canonical >= limits.min && canonical <= limits.max;
+}
+
+export function describeInputLimits(field: UnitField, unit?: string): string {
+  const limits = canonicalInputLimits[field];
+  const resolvedUnit = unit ?? unitOptions[field][0];
+  const low = Number(fromCanonicalUnit(field, limits.min, resolvedUnit).toFixed(1));
+  const high = Number(fromCanonicalUnit(field, limits.max, resolvedUnit).toFixed(1));
+  return `${low} - ${high} ${unitLabels[field][resolvedUnit]}`;
+}
+
+export function convertInputToCanonical(
+  values: Record<string, unknown>,
+  units: UnitPreferences = {}
+): Record<string, unknown> {
+  const converted: Record<string, unknown> = { ...values, units };
+  for (const field of Object.keys(unitOptions) as UnitField[]) {
+    const value = values[field];
+    if (typeof value === "number") {
+      converted[field] = toCanonicalUnit(field, value, units[field]);
+    }
+  }
+  for (const [key, field] of Object.entries(unitFieldAliases)) {
+    const value = values[key];
+    if (typeof value === "number") {
+      converted[key] = toCanonicalUnit(field, value, units[field]);
+    }
+  }
+  return converted;
+}
+
+// Default allowed pH mismatch; HCO3 taken from chemistry (total CO2) runs slightly high
+export const DEFAULT_CONSISTENCY_TOLERANCE = 0.05;
+
+export function checkInternalConsistency(
   pH: number,
   pCO2: number,
-  HCO3: number
-): PrimaryDisorder {
-  const phStatus = determinepHStatus(pH);
+  HCO3: number,
+  tolerance: number = DEFAULT_CONSISTENCY_TOLERANCE
+): ConsistencyResult {
+  const expectedPH = 6.1 + Math.log10(HCO3 / (0.03 * pCO2));
+  const difference = pH - expectedPH;
 
-  if (phStatus === "normal") {
-    return "normal";
+  return {
+    expectedPH,
+    difference,
+    tolerance,
+    isConsistent: Math.abs(difference) <= tolerance,
+    formula: `Expected pH = 6.1 + log(${HCO3} / (0.03 × ${pCO2})) = ${expectedPH.toFixed(2)} (measured ${pH}, Δ ${difference >= 0 ? "+" : ""}${difference.toFixed(2)})`,
+  };
+}
+
+export function getReferenceProfile(
+  id?: ReferenceProfileId,
+  ageGroup?: AgeGroup,
+  trimester?: Trimester
+): ReferenceProfile {
+  let profile = referenceProfiles[id ?? defaultReferenceProfileId];
+
+  if (ageGroup && ageGroup !== "adult") {
+    const band = ageBands[ageGroup];
+    profile = {
+      ...profile,
+      name: `${profile.name} · ${band.label}`,
+      ageGroup,
+      anionGap: {
+        ...profile.anionGap,
+        normal: profile.anionGap.normal + band.anionGapOffset,
+        normalWithPotassium: profile.anionGap.normalWithPotassium + band.anionGapOffset,
+        tolerance: profile.anionGap.tolerance + band.anionGapToleranceOffset,
+      },
+      albuminReference: band.albuminReference ?? profile.albuminReference,
+      ranges: { ...profile.ranges, ...band.ranges },
+    };
   }
 
-  if (phStatus === "acidaemia") {
-    if (pCO2 > 45) {
-      return "respiratory_acidosis";
-    }
-    if (HCO3 < 22) {
-      return "metabolic_acidosis";
-    }
-    if (pCO2 > 45 && HCO3 < 22) {
-      const pCO2Deviation = (pCO2 - 40) / 40;
-      const HCO3Deviation = (24 - HCO3) / 24;
-      return pCO2Deviation > HCO3Deviation
-        ? "respiratory_acidosis"
-        : "metabolic_acidosis";
-    }
-    return pCO2 > 45 ? "respiratory_acidosis" : "metabolic_acidosis";
+  if (trimester) {
+    const adjustment = pregnancyAdjustments[trimester];
+    profile = {
+      ...profile,
+      name: `${profile.name} · ${adjustment.label}`,
+      trimester,
+      ranges: { ...profile.ranges, ...adjustment.ranges },
+    };
   }
 
-  if (phStatus === "alkalaemia") {
-    if (pCO2 < 35) {
-      return "respiratory_alkalosis";
-    }
-    if (HCO3 > 26) {
-      return "metabolic_alkalosis";
+  return profile;
+}
+
+// pCO2, HCO3 and the pH they give, against which disorders and compensation are judged
+export function getBaselineGas(
+  profile: ReferenceProfile = getReferenceProfile()
+): { pH: number; pCO2: number; HCO3: number } {
+  const { pCO2, HCO3 } = profile.trimester
+    ? pregnancyAdjustments[profile.trimester].baseline
+    : defaultBaselineGas;
+  return { pH: 6.1 + Math.log10(HCO3 / (0.03 * pCO2)), pCO2, HCO3 };
+}
+
+export function determineTrimester(pregnant?: boolean, trimester?: Trimester): Trimester | undefined {
+  if (!pregnant) {
+    return undefined;
+  }
+  return trimester ?? defaultTrimester;
+}
+
+export function determineAgeGroup(
+  age?: number,
+  gestationalAge?: number,
+  ageGroup?: AgeGroup
+): AgeGroup {
+  if (ageGroup) {
+    return ageGroup;
+  }
+  // A gestational age on its own only makes sense for a neonate
+  if (age === undefined) {
+    if (gestationalAge === undefined) {
+      return "adult";
     }
-    if (pCO2 < 35 && HCO3 > 26) {
-      const pCO2Deviation = (40 - pCO2) / 40;
-      const HCO3Deviation = (HCO3 - 24) / 24;
-      return pCO2Deviation > HCO3Deviation
-        ? "respiratory_alkalosis"
-        : "metabolic_alkalosis";
+    return gestationalAge < 37 ? "preterm_neonate" : "term_neonate";
+  }
+  if (age < 28 / 365) {
+    return gestationalAge !== undefined && gestationalAge < 37 ? "preterm_neonate" : "term_neonate";
+  }
+  if (age < 1) {
+    return "infant";
+  }
+  if (age < 12) {
+    return "child";
+  }
+  if (age < 18) {
+    return "adolescent";
+  }
+  return "adult";
+}
+
+export function calculateTemperatureCorrection(params: {
+  pH: number;
+  pCO2: number;
+  pO2?: number;
+  temperature: number;
+  strategy?: TemperatureStrategy;
+}): TemperatureCorrectionResult {
+  const { pH, pCO2, pO2, temperature } = params;
+  const strategy = params.strategy ?? "alpha_stat";
+  const factors = temperatureCorrectionFactors;
+  const delta = temperature - 37;
+
+  const correctedPH = Number((pH + factors.pH * delta).toFixed(2));
+  const correctedPCO2 = Number((pCO2 * Math.pow(10, factors.pCO2 * delta)).toFixed(1));
+  const correctedPO2 =
+    pO2 !== undefined ? Number((pO2 * Math.pow(10, factors.pO2 * delta)).toFixed(1)) : undefined;
+  const correctedHCO3 = Number((0.03 * correctedPCO2 * Math.pow(10, correctedPH - 6.1)).toFixed(1));
+
+  const formulas = [
+    `pH(T) = ${pH} - 0.0147 × (${temperature} - 37) = ${correctedPH.toFixed(2)}`,
+    `pCO₂(T) = ${pCO2} × 10^(0.019 × (${temperature} - 37)) = ${correctedPCO2.toFixed(1)} mmHg`,
+  ];
+  if (pO2 !== undefined && correctedPO2 !== undefined) {
+    formulas.push(
+      `pO₂(T) = ${pO2} × 10^(0.031 × (${temperature} - 37)) = ${correctedPO2.toFixed(1)} mmHg`
+    );
+  }
+  formulas.push(
+    `HCO₃⁻(T) = 0.03 × ${correctedPCO2.toFixed(1)} × 10^(${correctedPH.toFixed(2)} - 6.1) = ${correctedHCO3.toFixed(1)} mmol/L`
+  );
+
+  const notes: string[] = [];
+  if (strategy === "alpha_stat") {
+    notes.push(
+      "Alpha-stat: interpreted on the 37 °C values, which keeps protein ionisation constant - the usual approach in adult bypass, targeted temperature management and accidental hypothermia"
+    );
+    if (delta < 0) {
+      notes.push("Corrected values look alkalotic and hypocapnic in hypothermia - this is expected and should not be treated");
     }
-    return pCO2 < 35 ? "respiratory_alkalosis" : "metabolic_alkalosis";
+  } else {
+    notes.push(
+      "pH-stat: interpreted on the temperature-corrected values against normal ranges - in hypothermia this means adding CO₂ to hold the corrected pH at 7.40 (used in paediatric deep hypothermic bypass to raise cerebral blood flow)"
+    );
+  }
+  if (delta > 0) {
+    notes.push("In fever the patient's true pO₂ and pCO₂ are higher, and pH lower, than the 37 °C values");
+  }
+  if (temperature < factors.reliableAbove) {
+    notes.push(`Correction coefficients are extrapolated below ${factors.reliableAbove} °C`);
   }
 
+  return {
+    temperature,
+    strategy,
+    measured: { pH, pCO2, pO2 },
+    corrected: { pH: correctedPH, pCO2: correctedPCO2, pO2: correctedPO2, HCO3: correctedHCO3 },
+    basis: strategy === "ph_stat" ? "corrected" : "measured",
+    formulas,
+    notes,
+  };
+}
+
+export function estimateArterialValues(
+  sampleType: SampleType,
+  pH: number,
+  pCO2: number,
+  HCO3: number
+): ArterialEstimate {
+  const offset = sampleTypeOffsets[sampleType];
+  return {
+    pH: pH - offset.pH,
+    pCO2: pCO2 - offset.pCO2,
+    HCO3: HCO3 - offset.HCO3,
+  };
+}
+
+export function getSampleReferenceRanges(
+  sampleType: SampleType,
+  profile: ReferenceProfile = getReferenceProfile()
+) {
+  const offset = sampleTypeOffsets[sampleType];
+  const { ranges } = profile;
+  return {
+    pH: { ...ranges.pH, low: ranges.pH.low + offset.pH, high: ranges.pH.high + offset.pH },
+    pCO2: { ...ranges.pCO2, low: ranges.pCO2.low + offset.pCO2, high: ranges.pCO2.high + offset.pCO2 },
+    HCO3: { ...ranges.HCO3, low: ranges.HCO3.low + offset.HCO3, high: ranges.HCO3.high + offset.HCO3 },
+  };
+}
+
+export function getSampleLimitations(
+  sampleType: SampleType,
+  input: BloodGasInput
+): string[] {
+  const limitations: string[] = [];
+
+  switch (sampleType) {
+    case "venous":
+      limitations.push(
+        "Arterial pH, pCO₂ and HCO₃⁻ estimated from venous values using typical arterio-venous differences"
+      );
+      if (input.pO2 !== undefined) {
+        limitations.push("Oxygenation (A-a gradient, P/F ratio) cannot be assessed from a venous pO₂");
+      }
+      if (input.pCO2 !== undefined && input.pCO2 <= 45) {
+        limitations.push("A venous pCO₂ ≤ 45 mmHg reliably excludes arterial hypercapnia");
+      } else {
+        limitations.push(
+          "Venous pCO₂ correlates poorly with arterial pCO₂ in shock or poor perfusion - confirm hypercapnia with an arterial sample"
+        );
+      }
+      break;
+    case "mixed_venous":
+      limitations.push(
+        "Arterial pH, pCO₂ and HCO₃⁻ estimated from mixed venous values; the arterio-venous difference widens in low cardiac output states"
+      );
+      if (input.pO2 !== undefined) {
+        limitations.push("Mixed venous pO₂ reflects tissue oxygen extraction, not arterial oxygenation");
+      }
+      break;
+    case "capillary":
+      limitations.push(
+        "Capillary pH and pCO₂ approximate arterial values only with good peripheral perfusion"
+      );
+      if (input.pO2 !== undefined) {
+        limitations.push("Capillary pO₂ underestimates arterial pO₂ - oxygenation indices are approximate");
+      }
+      break;
+    case "cord":
+      limitations.push(
+        "Umbilical cord samples reflect fetal status at delivery - adult acid-base rules are not validated for cord gases; use the cord-gas report for paired artery and vein samples"
+      );
+      break;
+  }
+
+  return limitations;
+}
+
+export function assessPregnancy(
+  params: { pCO2: number; HCO3: number; trimester?: Trimester },
+  profile: ReferenceProfile = getReferenceProfile()
+): PregnancyAssessment {
+  const { pCO2, HCO3 } = params;
+  const trimester = params.trimester ?? defaultTrimester;
+  const adjustment = pregnancyAdjustments[trimester];
+  const pregnantRanges = getReferenceProfile(profile.id, profile.ageGroup, trimester).ranges;
+  const nonPregnantRanges = getReferenceProfile(profile.id, profile.ageGroup).ranges;
+
+  const relativeHypercapnia =
+    pCO2 > pregnantRanges.pCO2.high && pCO2 <= nonPregnantRanges.pCO2.high;
+
+  const notes: string[] = [
+    `Judged against the chronic respiratory alkalosis of pregnancy: baseline pCO₂ ${adjustment.baseline.pCO2} mmHg, HCO₃⁻ ${adjustment.baseline.HCO3} mmol/L`,
+  ];
+  if (params.trimester === undefined) {
+    notes.push(`Trimester not given - ${trimester}-trimester ranges used`);
+  }
+  if (relativeHypercapnia) {
+    notes.push(
+      `pCO₂ ${pCO2} mmHg is normal outside pregnancy but above the ${trimester}-trimester range (${pregnantRanges.pCO2.low}-${pregnantRanges.pCO2.high} mmHg) - relative hypercapnia; consider tiring respiratory effort, asthma, pulmonary oedema, or opioid or magnesium toxicity`
+    );
+  } else if (pCO2 > nonPregnantRanges.pCO2.high) {
+    notes.push(
+      "Hypercapnia in pregnancy narrows the maternal-fetal CO₂ gradient - fetal acidosis can develop quickly"
+    );
+  }
+  // With a raised pCO2 the higher HCO3 may just be renal compensation
+  if (
+    pCO2 <= pregnantRanges.pCO2.high &&
+    HCO3 > pregnantRanges.HCO3.high &&
+    HCO3 <= nonPregnantRanges.HCO3.high
+  ) {
+    notes.push(
+      `HCO₃⁻ ${HCO3} mmol/L is normal outside pregnancy but above the ${trimester}-trimester range (${pregnantRanges.HCO3.low}-${pregnantRanges.HCO3.high} mmol/L) - consider a metabolic alkalosis such as hyperemesis`
+    );
+  }
+
+  return {
+    trimester,
+    trimesterAssumed: params.trimester === undefined,
+    baselinePCO2: adjustment.baseline.pCO2,
+    baselineHCO3: adjustment.baseline.HCO3,
+    relativeHypercapnia,
+    notes,
+  };
+}
+
+export function determinepHStatus(
+  pH: number,
+  profile: ReferenceProfile = getReferenceProfile()
+): pHStatus {
+  if (pH < profile.ranges.pH.low) return "acidaemia";
+  if (pH > profile.ranges.pH.high) return "alkalaemia";
   return "normal";
 }
 
+export function scoreDisorderDominance(
+  pH: number,
+  pCO2: number,
+  HCO3: number,
+  profile: ReferenceProfile = getReferenceProfile()
+): DisorderDominance {
+  const phStatus = determinepHStatus(pH, profile);
+  const pCO2Range = profile.ranges.pCO2;
+  const HCO3Range = profile.ranges.HCO3;
+  const baseline = getBaselineGas(profile);
+
+  // Henderson–Hasselbalch splits the pH shift into additive respiratory and metabolic parts
+  const respiratoryScore = Math.log10(pCO2 / baseline.pCO2);
+  const metabolicScore = Math.log10(baseline.HCO3 / HCO3);
+
+  if (phStatus === "normal") {
+    return {
+      primary: "normal",
+      confidence: "high",
+      respiratoryScore,
+      metabolicScore,
+      isCombined: false,
+    };
+  }
+
+  const isAcidaemia = phStatus === "acidaemia";
+  const respiratory: PrimaryDisorder = isAcidaemia ? "respiratory_acidosis" : "respiratory_alkalosis";
+  const metabolic: PrimaryDisorder = isAcidaemia ? "metabolic_acidosis" : "metabolic_alkalosis";
+
+  // Contribution in the direction of the pH change (acidifying for acidaemia, alkalinising for alkalaemia)
+  const direction = isAcidaemia ? 1 : -1;
+  const respiratoryContribution = direction * respiratoryScore;
+  const metabolicContribution = direction * metabolicScore;
+
+  const respiratoryAbnormal = isAcidaemia ? pCO2 > pCO2Range.high : pCO2 < pCO2Range.low;
+  const metabolicAbnormal = isAcidaemia ? HCO3 < HCO3Range.low : HCO3 > HCO3Range.high;
+
+  const primary =
+    respiratoryContribution >= metabolicContribution ? respiratory : metabolic;
+
+  if (respiratoryAbnormal !== metabolicAbnormal) {
+    return {
+      primary: respiratoryAbnormal ? respiratory : metabolic,
+      confidence: "high",
+      respiratoryScore,
+      metabolicScore,
+      isCombined: false,
+    };
+  }
+
+  if (!respiratoryAbnormal) {
+    // Neither value explains the pH (usually a transcription or consistency problem)
+    return {
+      primary,
+      confidence: "low",
+      respiratoryScore,
+      metabolicScore,
+      isCombined: false,
+    };
+  }
+
+  const larger = Math.max(respiratoryContribution, metabolicContribution);
+  const smaller = Math.min(respiratoryContribution, metabolicContribution);
+  const ratio = larger > 0 ? smaller / larger : 1;
+
+  let confidence: DominanceConfidence;
+  if (ratio < 0.33) {
+    confidence = "high";
+  } else if (ratio < 0.67) {
+    confidence = "moderate";
+  } else {
+    confidence = "low";
+  }
+
+  return {
+    primary,
+    coPrimary: primary === respiratory ? metabolic : respiratory,
+    confidence,
+    respiratoryScore,
+    metabolicScore,
+    isCombined: true,
+  };
+}
+
+export function determinePrimaryDisorder(
+  pH: number,
+  pCO2: number,
+  HCO3: number,
+  profile: ReferenceProfile = getReferenceProfile()
+): PrimaryDisorder {
+  return scoreDisorderDominance(pH, pCO2, HCO3, profile).primary;
+}
+
+export function detectNormalPHMixedDisorder(
+  pH: number,
+  pCO2: number,
+  HCO3: number,
+  anionGapStatus?: AnionGapStatus,
+  profile: ReferenceProfile = getReferenceProfile()
+): MixedDisorderResult | undefined {
+  if (determinepHStatus(pH, profile) !== "normal") {
+    return undefined;
+  }
+
+  const { pCO2: pCO2Range, HCO3: HCO3Range } = profile.ranges;
+  const baselinePH = getBaselineGas(profile).pH;
+  const candidates: MixedDisorderCandidate[] = [];
+  let workingDisorder: PrimaryDisorder | undefined;
+
+  if (pCO2 > pCO2Range.high && HCO3 > HCO3Range.high) {
+    candidates.push({
+      disorders: ["respiratory_acidosis", "metabolic_alkalosis"],
+      description: `Raised pCO₂ (${pCO2}) and raised HCO₃⁻ (${HCO3}) offsetting each other`,
+    });
+    workingDisorder = pH < baselinePH ? "respiratory_acidosis" : "metabolic_alkalosis";
+  } else if (pCO2 < pCO2Range.low && HCO3 < HCO3Range.low) {
+    candidates.push({
+      disorders: ["respiratory_alkalosis", "metabolic_acidosis"],
+      description: `Low pCO₂ (${pCO2}) and low HCO₃⁻ (${HCO3}) offsetting each other (chronic respiratory alkalosis alone can also normalise pH)`,
+    });
+    workingDisorder = pH < baselinePH ? "metabolic_acidosis" : "respiratory_alkalosis";
+  }
+
+  if (anionGapStatus === "high") {
+    candidates.push({
+      disorders: ["metabolic_acidosis", "metabolic_alkalosis"],
+      description: "Raised anion gap despite a normal pH - HAGMA masked by a metabolic alkalosis",
+    });
+  }
+
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  return {
+    candidates,
+    workingDisorder,
+    explanation: workingDisorder
+      ? `pH is normal but pCO₂ and HCO₃⁻ are both abnormal. Compensation rarely returns pH to normal, so a mixed disorder is likely; pH ${pH.toFixed(2)} is on the ${pH < baselinePH ? "acid" : "alkaline"} side of ${baselinePH.toFixed(2)}, so compensation is assessed against ${formatDisorderName(workingDisorder).toLowerCase()}.`
+      : "pH, pCO₂ and HCO₃⁻ are normal but the anion gap is raised, suggesting offsetting metabolic processes.",
+  };
+}
+
 export function calculateAnionGap(
   Na: number,
   Cl: number,
   HCO3: number,
-  albumin?: number
+  albumin?: number,
+  units?: UnitPreferences,
+  profile: ReferenceProfile = getReferenceProfile(),
+  K?: number
 ): AnionGapResult {
-  const rawAG = Na - (Cl + HCO3);
-  const formula = `AG = [Na⁺] - ([Cl⁻] + [HCO₃⁻]) = ${Na} - (${Cl} + ${HCO3}) = ${rawAG}`;
+  const { anionGap: agReference, albuminReference } = profile;
+  const includesPotassium = agReference.includesPotassium && K !== undefined;
+
+  const rawAG = includesPotassium ? Na + K - (Cl + HCO3) : Na - (Cl + HCO3);
+  const formula = includesPotassium
+    ? `AG = ([Na⁺] + [K⁺]) - ([Cl⁻] + [HCO₃⁻]) = (${Na} + ${K}) - (${Cl} + ${HCO3}) = ${rawAG.toFixed(1)}`
+    : `AG = [Na⁺] - ([Cl⁻] + [HCO₃⁻]) = ${Na} - (${Cl} + ${HCO3}) = ${rawAG}`;
 
   let correctedAG = rawAG;
   let correctionFormula: string | undefined;
 
-  if (albumin !== undefined && albumin < 4) {
-    const correction = 2.5 * (4 - albumin);
+  if (albumin !== undefined && albumin < albuminReference) {
+    const correction = 2.5 * (albuminReference - albumin);
     correctedAG = rawAG + correction;
-    correctionFormula = `Corrected AG = ${rawAG} + 2.5 × (4 - ${albumin}) = ${correctedAG.toFixed(1)}`;
+    correctionFormula =
+      getUnit("albumin", units) === "g/L"
+        ? `Corrected AG = ${rawAG} + 0.25 × (${albuminReference * 10} - ${formatInUnit("albumin", albumin, units)}) = ${correctedAG.toFixed(1)}`
+        : `Corrected AG = ${rawAG} + 2.5 × (${albuminReference} - ${albumin}) = ${correctedAG.toFixed(1)}`;
   }
 
+  // The K⁺-inclusive gap shifts both cut-offs by the analyser's normal K⁺ contribution
+  const normalValue = includesPotassium ? agReference.normalWithPotassium : agReference.normal;
+  const lowCutoff = agReference.lowCutoff + (normalValue - agReference.normal);
+
   let status: AnionGapStatus;
-  if (correctedAG > 16) {
+  if (correctedAG > normalValue + agReference.tolerance) {
     status = "high";
-  } else if (correctedAG < 3) {
+  } else if (correctedAG < lowCutoff) {
     status = "low_negative";
   } else {
     status = "normal";
@@ -106,6 +690,389 @@ export function calculateAnionGap(
     status,
     formula,
     correctionFormula,
+    includesPotassium,
+    normalValue,
+  };
+}
+
+export function calculateLactateContribution(
+  anionGap: AnionGapResult,
+  lactate: number
+): LactateContribution {
+  const excessAnionGap = anionGap.correctedValue - anionGap.normalValue;
+  const fraction = excessAnionGap > 0 ? Math.min(1, lactate / excessAnionGap) : 0;
+  const formula = `Lactate share = lactate / (AG - normal AG) = ${lactate} / (${anionGap.correctedValue.toFixed(1)} - ${anionGap.normalValue}) = ${excessAnionGap > 0 ? `${(fraction * 100).toFixed(0)}%` : "n/a"}`;
+
+  let interpretation: string;
+  if (excessAnionGap <= 0) {
+    interpretation = "The anion gap is not raised above normal, so there is no excess for lactate to explain.";
+  } else if (fraction >= 0.8) {
+    interpretation = "Lactate accounts for most of the anion gap rise.";
+  } else if (fraction >= 0.4) {
+    interpretation = "Lactate explains only part of the anion gap rise - look for a second unmeasured anion (ketones, toxic alcohols, uraemia).";
+  } else {
+    interpretation = "Lactate explains little of the anion gap rise - another unmeasured anion is likely.";
+  }
+
+  return { lactate, excessAnionGap, fraction, formula, interpretation };
+}
+
+export function assessElectrolytes(
+  params: {
+    pH: number;
+    K?: number;
+    Ca?: number;
+    Mg?: number;
+    lactate?: number;
+    phosphate?: number;
+    anionGap?: AnionGapResult;
+  },
+  profile: ReferenceProfile = getReferenceProfile()
+): ElectrolyteAssessment {
+  const { pH, K, Ca, Mg, lactate, phosphate, anionGap } = params;
+  const { ranges } = profile;
+  const isAcidaemic = pH < ranges.pH.low;
+  const isAlkalaemic = pH > ranges.pH.high;
+
+  const labels: Record<ElectrolyteAnalyte, string> = {
+    K: "K⁺",
+    Ca: "Ionised Ca²⁺",
+    Mg: "Mg²⁺",
+    lactate: "Lactate",
+    phosphate: "Phosphate",
+  };
+  const statusOf = (analyte: ElectrolyteAnalyte, value: number): AnalyteStatus =>
+    value < ranges[analyte].low ? "low" : value > ranges[analyte].high ? "high" : "normal";
+
+  const flags: ElectrolyteFlag[] = [];
+  for (const [analyte, value] of [
+    ["K", K],
+    ["Ca", Ca],
+    ["Mg", Mg],
+    ["lactate", lactate],
+    ["phosphate", phosphate],
+  ] as const) {
+    if (value !== undefined) {
+      flags.push({ analyte, label: labels[analyte], value, status: statusOf(analyte, value) });
+    }
+  }
+
+  const warnings: string[] = [];
+
+  // K⁺ moves out of cells by roughly 0.6 mmol/L for every 0.1 fall in pH (less so in organic acidoses)
+  let pHAdjustedK: number | undefined;
+  if (K !== undefined) {
+    if (isAcidaemic) {
+      pHAdjustedK = K - (0.6 * (7.4 - pH)) / 0.1;
+    }
+    if (K > ranges.K.high && isAcidaemic && pHAdjustedK !== undefined) {
+      warnings.push(
+        `Hyperkalaemia with acidaemia: K⁺ shifts out of cells, so at pH 7.40 it would be ≈ ${pHAdjustedK.toFixed(1)} mmol/L. Total-body K⁺ may still be low (e.g. DKA) - expect K⁺ to fall as the acidosis is corrected.`
+      );
+    } else if (K < ranges.K.low && isAcidaemic) {
+      warnings.push(
+        "Hypokalaemia despite acidaemia implies a large total-body K⁺ deficit (RTA, diarrhoea, DKA) - replace K⁺ before correcting the acidosis."
+      );
+    } else if (K < ranges.K.low && isAlkalaemic) {
+      warnings.push("Alkalaemia shifts K⁺ into cells and worsens the hypokalaemia.");
+    }
+  }
+
+  // Acidaemia frees Ca²⁺ from albumin: iCa(7.40) = iCa × [1 - 0.53 × (7.40 - pH)]
+  let normalisedCa: number | undefined;
+  if (Ca !== undefined) {
+    normalisedCa = Ca * (1 - 0.53 * (7.4 - pH));
+    if (isAlkalaemic && Ca < ranges.Ca.low) {
+      warnings.push(
+        "Alkalaemia lowers ionised Ca²⁺ through increased albumin binding - risk of tetany and arrhythmia."
+      );
+    } else if (isAcidaemic && normalisedCa < ranges.Ca.low) {
+      warnings.push(
+        `Ionised Ca²⁺ is held up by the acidaemia; at pH 7.40 it would be ≈ ${normalisedCa.toFixed(2)} mmol/L. Expect hypocalcaemia as the acidosis is corrected, especially with bicarbonate.`
+      );
+    }
+  }
+
+  if (Mg !== undefined && Mg < ranges.Mg.low) {
+    warnings.push("Hypomagnesaemia causes refractory hypokalaemia and hypocalcaemia - replace Mg²⁺ first.");
+  }
+
+  if (phosphate !== undefined && phosphate < ranges.phosphate.low) {
+    warnings.push("Hypophosphataemia: common with DKA treatment, refeeding and respiratory alkalosis.");
+  } else if (phosphate !== undefined && phosphate > ranges.phosphate.high && isAcidaemic) {
+    warnings.push("Hyperphosphataemia with acidaemia: consider renal failure, rhabdomyolysis or tumour lysis.");
+  }
+
+  let lactateContribution: LactateContribution | undefined;
+  if (lactate !== undefined) {
+    if (anionGap?.status === "high") {
+      lactateContribution = calculateLactateContribution(anionGap, lactate);
+    } else if (anionGap && lactate > ranges.lactate.high) {
+      warnings.push(
+        "Hyperlactataemia without a raised anion gap - hypoalbuminaemia or a coexisting alkalosis can mask it."
+      );
+    }
+    if (lactate > 4) {
+      warnings.push("Lactate > 4 mmol/L: consider tissue hypoperfusion or septic shock.");
+    }
+  }
+
+  return { flags, lactateContribution, pHAdjustedK, normalisedCa, warnings };
+}
+
+export function calculateUrineAnionGap(params: {
+  urineNa: number;
+  urineK: number;
+  urineCl: number;
+  urineUrea?: number;
+  urineGlucose?: number;
+  urineOsmolality?: number;
+  serumK?: number;
+}): UrineAnionGapResult {
+  const { urineNa, urineK, urineCl, urineUrea, urineGlucose, urineOsmolality, serumK } = params;
+
+  const urineAnionGap = urineNa + urineK - urineCl;
+  const formula = `UAG = [Na⁺]u + [K⁺]u - [Cl⁻]u = ${urineNa} + ${urineK} - ${urineCl} = ${urineAnionGap.toFixed(0)}`;
+
+  let calculatedUrineOsmolality: number | undefined;
+  let urineOsmolarGap: number | undefined;
+  let urineOsmolarGapFormula: string | undefined;
+  let estimatedUrineNH4: number | undefined;
+
+  if (urineOsmolality !== undefined && urineUrea !== undefined) {
+    const glucose = urineGlucose ?? 0;
+    calculatedUrineOsmolality = 2 * (urineNa + urineK) + urineUrea + glucose;
+    urineOsmolarGap = urineOsmolality - calculatedUrineOsmolality;
+    estimatedUrineNH4 = urineOsmolarGap / 2;
+    urineOsmolarGapFormula = `UOG = ${urineOsmolality} - [2×(${urineNa} + ${urineK}) + ${urineUrea} + ${glucose}] = ${urineOsmolarGap.toFixed(0)} mOsm/kg (NH₄⁺ ≈ ${estimatedUrineNH4.toFixed(0)} mmol/L)`;
+  }
+
+  // The osmolar gap tracks NH4⁺ directly, so it takes precedence over the UAG when available
+  let origin: NAGMAOrigin;
+  let interpretation: string;
+  if (urineOsmolarGap !== undefined) {
+    if (urineOsmolarGap > 150) {
+      origin = "gastrointestinal";
+      interpretation = "Urine osmolar gap > 150 mOsm/kg: renal NH₄⁺ excretion is appropriately increased, pointing to GI (extrarenal) bicarbonate loss.";
+    } else if (urineOsmolarGap < 100) {
+      origin = "renal";
+      interpretation = "Urine osmolar gap < 100 mOsm/kg: renal NH₄⁺ excretion is inappropriately low, pointing to renal tubular acidosis.";
+    } else {
+      origin = "indeterminate";
+      interpretation = "Urine osmolar gap 100-150 mOsm/kg is equivocal for renal NH₄⁺ excretion.";
+    }
+  } else if (urineAnionGap < 0) {
+    origin = "gastrointestinal";
+    interpretation = "Negative urine anion gap: NH₄Cl excretion is preserved, pointing to GI (extrarenal) bicarbonate loss.";
+  } else if (urineAnionGap > 0) {
+    origin = "renal";
+    interpretation = "Positive urine anion gap: NH₄Cl excretion is impaired, pointing to renal tubular acidosis.";
+  } else {
+    origin = "indeterminate";
+    interpretation = "Urine anion gap of zero does not separate GI from renal loss.";
+  }
+
+  const rtaHints: string[] = [];
+  if (origin === "renal") {
+    if (serumK !== undefined && serumK > 5.0) {
+      rtaHints.push("Hyperkalaemia suggests type 4 RTA (hypoaldosteronism) - urine pH usually < 5.5");
+    } else if (serumK !== undefined && serumK < 3.5) {
+      rtaHints.push("Hypokalaemia suggests distal (type 1) RTA - urine pH inappropriately > 5.5");
+      rtaHints.push("Proximal (type 2) RTA also causes hypokalaemia - look for glycosuria, phosphaturia and aminoaciduria (Fanconi)");
+    } else {
+      rtaHints.push("Measure serum K⁺: low suggests type 1 or 2 RTA, high suggests type 4 RTA");
+    }
+  } else if (origin === "gastrointestinal") {
+    rtaHints.push("Proximal (type 2) RTA at steady state can also give a negative UAG - check for Fanconi features if there is no GI loss");
+  }
+
+  const caveats: string[] = [];
+  if (urineNa < 20) {
+    caveats.push("Urine Na⁺ < 20 mmol/L: distal Na⁺ delivery is limited and the UAG is unreliable");
+  }
+  if (urineOsmolarGap === undefined) {
+    caveats.push("Unmeasured urine anions (ketones, hippurate, D-lactate) make the UAG falsely positive - add urine osmolality and urea for the osmolar gap");
+  }
+
+  return {
+    urineAnionGap,
+    formula,
+    calculatedUrineOsmolality,
+    urineOsmolarGap,
+    urineOsmolarGapFormula,
+    estimatedUrineNH4,
+    origin,
+    interpretation,
+    rtaHints,
+    caveats,
+  };
+}
+
+export function classifyMetabolicAlkalosis(params: {
+  urineCl?: number;
+  urineK?: number;
+  systolicBP?: number;
+  diastolicBP?: number;
+  volumeStatus?: VolumeStatus;
+}): MetabolicAlkalosisClassification {
+  const { urineCl, urineK, systolicBP, diastolicBP, volumeStatus } = params;
+
+  const hasBP = systolicBP !== undefined || diastolicBP !== undefined;
+  const isHypertensive = hasBP
+    ? (systolicBP ?? 0) >= 140 || (diastolicBP ?? 0) >= 90
+    : undefined;
+
+  const notes: string[] = [];
+  let response: ChlorideResponse;
+  let interpretation: string;
+
+  if (urineCl !== undefined) {
+    if (urineCl < 20) {
+      response = "chloride_responsive";
+      interpretation = `Urine Cl⁻ ${urineCl} mmol/L (< 20): chloride is being conserved, so the alkalosis is chloride (saline) responsive.`;
+    } else if (urineCl > 40) {
+      response = "chloride_resistant";
+      interpretation = `Urine Cl⁻ ${urineCl} mmol/L (> 40): renal chloride wasting, so the alkalosis is chloride (saline) resistant.`;
+      notes.push("A current diuretic also raises urine Cl⁻ - repeat once the diuretic has worn off");
+    } else {
+      response = "indeterminate";
+      interpretation = `Urine Cl⁻ ${urineCl} mmol/L (20-40) does not clearly separate chloride-responsive from resistant causes.`;
+    }
+  } else if (volumeStatus === "hypovolaemic") {
+    response = "chloride_responsive";
+    interpretation = "No urine Cl⁻: hypovolaemia suggests a chloride (saline) responsive alkalosis.";
+  } else if (isHypertensive || volumeStatus === "hypervolaemic") {
+    response = "chloride_resistant";
+    interpretation = "No urine Cl⁻: hypertension or volume expansion suggests a chloride (saline) resistant alkalosis.";
+  } else {
+    response = "indeterminate";
+    interpretation = "Measure urine Cl⁻ to classify the alkalosis as chloride responsive or resistant.";
+  }
+
+  if (urineK !== undefined) {
+    notes.push(
+      urineK > 30
+        ? `Urine K⁺ ${urineK} mmol/L (> 30): renal potassium wasting (diuretic, mineralocorticoid excess, Bartter/Gitelman, or active vomiting with bicarbonaturia)`
+        : urineK < 20
+          ? `Urine K⁺ ${urineK} mmol/L (< 20): extrarenal potassium loss or remote vomiting/diuretic use`
+          : `Urine K⁺ ${urineK} mmol/L is indeterminate for renal potassium wasting`
+    );
+  }
+  if (volumeStatus === "hypovolaemic" && response === "chloride_resistant") {
+    notes.push("Hypovolaemia with a high urine Cl⁻ points to current diuretic use or a salt-wasting tubulopathy");
+  }
+
+  let causes: CauseEntry[];
+  let nextTests: string[];
+  if (response === "chloride_responsive") {
+    causes = metabolicAlkalosisCauses.chlorideResponsive;
+    nextTests = [
+      "Confirm vomiting, nasogastric losses or previous diuretic use",
+      "Check serum K⁺ and Mg²⁺",
+      "Treat with isotonic saline and KCl; expect urine Cl⁻ to rise and HCO₃⁻ to fall",
+    ];
+  } else if (response === "chloride_resistant" && isHypertensive) {
+    causes = metabolicAlkalosisCauses.chlorideResistantHypertensive;
+    nextTests = [
+      "Plasma renin and aldosterone (aldosterone:renin ratio)",
+      "High renin and high aldosterone: renal artery imaging",
+      "Low renin, high aldosterone: confirmatory saline suppression test and adrenal imaging",
+      "Low renin, low aldosterone: cortisol studies, liquorice history, Liddle's testing",
+    ];
+  } else if (response === "chloride_resistant") {
+    causes = isHypertensive === undefined
+      ? [
+        ...metabolicAlkalosisCauses.chlorideResistantHypertensive,
+        ...metabolicAlkalosisCauses.chlorideResistantNormotensive,
+      ]
+      : metabolicAlkalosisCauses.chlorideResistantNormotensive;
+    nextTests = [
+      ...(isHypertensive === undefined ? ["Measure blood pressure to split hypertensive from normotensive causes"] : []),
+      "Urine diuretic screen",
+      "Serum Mg²⁺ and urine Ca²⁺ (low urine Ca²⁺ suggests Gitelman, normal/high suggests Bartter)",
+      "Serum K⁺ and renal function",
+    ];
+  } else {
+    causes = metabolicAlkalosisCauses.causes;
+    nextTests = [
+      "Spot urine Cl⁻ (and K⁺) before any saline or diuretic",
+      "Blood pressure and volume assessment",
+    ];
+  }
+
+  return {
+    response,
+    isHypertensive,
+    interpretation,
+    causes,
+    nextTests,
+    notes,
+  };
+}
+
+export function calculateStewart(
+  params: {
+    pH: number;
+    HCO3: number;
+    Na: number;
+    K: number;
+    Ca: number;
+    Mg: number;
+    Cl: number;
+    albumin: number;
+    phosphate: number;
+    lactate?: number;
+  },
+  profile: ReferenceProfile = getReferenceProfile()
+): StewartResult {
+  const { pH, HCO3, Na, K, Ca, Mg, Cl, albumin, phosphate } = params;
+  const lactate = params.lactate ?? 0;
+
+  // Ionised Ca and Mg are entered in mmol/L; the divalent charge doubles them to mEq/L
+  const SIDa = Na + K + 2 * Ca + 2 * Mg - Cl - lactate;
+  const sidaFormula = `SIDa = [Na⁺] + [K⁺] + 2[Ca²⁺] + 2[Mg²⁺] - [Cl⁻] - [Lactate⁻] = ${Na} + ${K} + 2×${Ca} + 2×${Mg} - ${Cl} - ${lactate} = ${SIDa.toFixed(1)}`;
+
+  // Figge–Fencl weak acid charges: albumin in g/L, phosphate in mmol/L
+  const albuminGL = albumin * 10;
+  const albuminCharge = albuminGL * (0.123 * pH - 0.631);
+  const phosphateCharge = phosphate * (0.309 * pH - 0.469);
+  const SIDe = HCO3 + albuminCharge + phosphateCharge;
+  const sideFormula = `SIDe = [HCO₃⁻] + [Alb⁻] + [Pi⁻] = ${HCO3} + ${albuminGL} × (0.123 × ${pH} - 0.631) + ${phosphate} × (0.309 × ${pH} - 0.469) = ${SIDe.toFixed(1)}`;
+
+  const SIG = SIDa - SIDe;
+  const sigFormula = `SIG = SIDa - SIDe = ${SIDa.toFixed(1)} - ${SIDe.toFixed(1)} = ${SIG.toFixed(1)}`;
+
+  const { SIDa: sidaRange, SIG: sigRange } = profile.ranges;
+
+  let sidStatus: StrongIonDifferenceStatus;
+  if (SIDa < sidaRange.low) {
+    sidStatus = "low";
+  } else if (SIDa > sidaRange.high) {
+    sidStatus = "high";
+  } else {
+    sidStatus = "normal";
+  }
+
+  let sigStatus: StrongIonGapStatus;
+  if (SIG > sigRange.high) {
+    sigStatus = "elevated";
+  } else if (SIG < sigRange.low) {
+    sigStatus = "negative";
+  } else {
+    sigStatus = "normal";
+  }
+
+  return {
+    SIDa,
+    SIDe,
+    SIG,
+    albuminCharge,
+    phosphateCharge,
+    sidStatus,
+    sigStatus,
+    sidaFormula,
+    sideFormula,
+    sigFormula,
   };
 }
 
@@ -114,14 +1081,32 @@ export function calculateOsmolarGap(
   Na: number,
   glucose: number,
   urea: number,
-  ethanol?: number
+  ethanol?: number,
+  units?: UnitPreferences,
+  profile: ReferenceProfile = getReferenceProfile(),
+  ethanolCoefficient: EthanolCoefficient = 4.6
 ): OsmolarGapResult {
+  const glucoseInMgDL = getUnit("glucose", units) === "mg/dL";
+  const ureaAsBUN = getUnit("urea", units) === "mg/dL";
+  const ethanolInMmolL = getUnit("ethanol", units) === "mmol/L";
+
   let calculatedOsm = 2 * Na + glucose + urea;
-  let formula = `Calculated Osm = 2×[Na⁺] + Glucose + Urea = 2×${Na} + ${glucose} + ${urea}`;
+  let formula = `Calculated Osm = 2×[Na⁺] + ${glucoseInMgDL ? "Glucose/18" : "Glucose"} + ${
+    ureaAsBUN ? "BUN/2.8" : "Urea"
+  } = 2×${Na} + ${
+    glucoseInMgDL ? `${formatInUnit("glucose", glucose, units)}/18` : glucose
+  } + ${ureaAsBUN ? `${formatInUnit("urea", urea, units)}/2.8` : urea}`;
 
+  // Ethanol in mmol/L already equals mg/dL ÷ 4.6, so the empirical 3.7 becomes a ×1.24 scale
   if (ethanol && ethanol > 0) {
-    calculatedOsm += ethanol / 4.6;
-    formula += ` + (${ethanol}/4.6)`;
+    calculatedOsm += ethanol / ethanolCoefficient;
+    if (!ethanolInMmolL) {
+      formula += ` + (${ethanol}/${ethanolCoefficient})`;
+    } else if (ethanolCoefficient === 4.6) {
+      formula += ` + ${formatInUnit("ethanol", ethanol, units)}`;
+    } else {
+      formula += ` + ${formatInUnit("ethanol", ethanol, units)}×${(4.6 / ethanolCoefficient).toFixed(2)}`;
+    }
   }
 
   formula += ` = ${calculatedOsm.toFixed(1)} mOsm/kg`;
@@ -132,18 +1117,319 @@ export function calculateOsmolarGap(
     calculatedOsmolality: calculatedOsm,
     measuredOsmolality,
     gap,
-    isElevated: gap > 10,
+    isElevated: gap > profile.ranges.osmolarGap.high,
     formula,
   };
 }
 
+export function stageToxicAlcoholIngestion(
+  osmolarGapElevated: boolean,
+  anionGapStatus?: AnionGapStatus
+): { stage: IngestionStage; interpretation: string } {
+  if (anionGapStatus === undefined) {
+    return {
+      stage: "indeterminate",
+      interpretation: "Anion gap not available - the ingestion cannot be staged without Na⁺, Cl⁻ and HCO₃⁻.",
+    };
+  }
+
+  const agHigh = anionGapStatus === "high";
+  if (osmolarGapElevated && !agHigh) {
+    return {
+      stage: "early",
+      interpretation:
+        "High osmolar gap with a normal anion gap: the parent alcohol has not yet been metabolised (early presentation), or the alcohol is isopropanol, which causes ketosis without acidosis.",
+    };
+  }
+  if (osmolarGapElevated && agHigh) {
+    return {
+      stage: "intermediate",
+      interpretation:
+        "High osmolar and anion gaps: the parent alcohol is being metabolised to toxic acids. Treat without waiting for a confirmatory level.",
+    };
+  }
+  if (agHigh) {
+    return {
+      stage: "late",
+      interpretation:
+        "Normal osmolar gap with a high anion gap: a late presentation is possible once the alcohol has been metabolised, so a normal osmolar gap does not exclude methanol or ethylene glycol.",
+    };
+  }
+  return {
+    stage: "indeterminate",
+    interpretation: "Neither gap is raised - a significant toxic alcohol ingestion is unlikely.",
+  };
+}
+
+export function estimateToxicAlcohols(
+  params: {
+    osmolarGap: OsmolarGapResult;
+    anionGap?: AnionGapResult;
+    pH?: number;
+    HCO3?: number;
+    ethanolCoefficient?: EthanolCoefficient;
+  },
+  profile: ReferenceProfile = getReferenceProfile()
+): ToxicAlcoholResult {
+  const { osmolarGap, anionGap, pH, HCO3, ethanolCoefficient = 4.6 } = params;
+  const { fomepizole: fomepizoleThresholds, dialysis: dialysisThresholds } = toxicAlcoholThresholds;
+
+  // The patient's own baseline gap is unknown, so bracket it between the upper reference limit and zero
+  const excessOsmolesHigh = Math.max(0, osmolarGap.gap);
+  const excessOsmolesLow = Math.max(0, osmolarGap.gap - profile.ranges.osmolarGap.high);
+
+  const estimates: ToxicAlcoholEstimate[] = (Object.keys(toxicAlcohols) as ToxicAlcohol[]).map(
+    (alcohol) => {
+      const { name, molecularWeight } = toxicAlcohols[alcohol];
+      const factor = molecularWeight / 10;
+      return {
+        alcohol,
+        name,
+        lowMgDL: excessOsmolesLow * factor,
+        highMgDL: excessOsmolesHigh * factor,
+        highMmolL: excessOsmolesHigh,
+        formula: `${name} ≈ excess osmoles × ${factor.toFixed(1)} = ${excessOsmolesLow.toFixed(1)}-${excessOsmolesHigh.toFixed(1)} × ${factor.toFixed(1)} mg/dL`,
+      };
+    }
+  );
+  const highestMgDL = (alcohol: ToxicAlcohol) =>
+    estimates.find((estimate) => estimate.alcohol === alcohol)?.highMgDL ?? 0;
+
+  const { stage, interpretation: stageInterpretation } = stageToxicAlcoholIngestion(
+    osmolarGap.isElevated,
+    anionGap?.status
+  );
+
+  const fomepizoleReasons: string[] = [];
+  const methanolHigh = highestMgDL("methanol");
+  const ethyleneGlycolHigh = highestMgDL("ethylene_glycol");
+  if (methanolHigh > fomepizoleThresholds.levelMgDL) {
+    fomepizoleReasons.push(
+      `Estimated methanol up to ${methanolHigh.toFixed(0)} mg/dL (> ${fomepizoleThresholds.levelMgDL}) if the gap is due to methanol`
+    );
+  }
+  if (ethyleneGlycolHigh > fomepizoleThresholds.levelMgDL) {
+    fomepizoleReasons.push(
+      `Estimated ethylene glycol up to ${ethyleneGlycolHigh.toFixed(0)} mg/dL (> ${fomepizoleThresholds.levelMgDL}) if the gap is due to ethylene glycol`
+    );
+  }
+  const acidaemic =
+    (pH !== undefined && pH < fomepizoleThresholds.pH) ||
+    (HCO3 !== undefined && HCO3 < fomepizoleThresholds.HCO3);
+  if (osmolarGap.gap > fomepizoleThresholds.osmolarGap && acidaemic) {
+    fomepizoleReasons.push(
+      `Osmolar gap > ${fomepizoleThresholds.osmolarGap} with pH < ${fomepizoleThresholds.pH} or HCO₃⁻ < ${fomepizoleThresholds.HCO3}`
+    );
+  }
+
+  const dialysisReasons: string[] = [];
+  if (methanolHigh > dialysisThresholds.methanolMgDL) {
+    dialysisReasons.push(
+      `Estimated methanol up to ${methanolHigh.toFixed(0)} mg/dL (> ${dialysisThresholds.methanolMgDL} on fomepizole)`
+    );
+  }
+  if (ethyleneGlycolHigh > dialysisThresholds.ethyleneGlycolMgDL) {
+    dialysisReasons.push(
+      `Estimated ethylene glycol up to ${ethyleneGlycolHigh.toFixed(0)} mg/dL (> ${dialysisThresholds.ethyleneGlycolMgDL})`
+    );
+  }
+  if (osmolarGap.isElevated || stage === "late") {
+    if (pH !== undefined && pH <= dialysisThresholds.pH) {
+      dialysisReasons.push(`pH ≤ ${dialysisThresholds.pH}`);
+    }
+    if (anionGap && anionGap.correctedValue > dialysisThresholds.anionGap) {
+      dialysisReasons.push(`Anion gap > ${dialysisThresholds.anionGap} mEq/L`);
+    }
+  }
+
+  const caveats = [
+    "Estimates assume the whole excess is a single alcohol - send specific levels to confirm",
+    `Isopropanol: supportive care only (no fomepizole); consider dialysis above ${toxicAlcoholThresholds.isopropanolDialysisMgDL} mg/dL or with refractory hypotension`,
+    "Propylene glycol: stop the infusion (e.g. lorazepam) and check lactate",
+    "Visual disturbance (methanol) or acute kidney injury (ethylene glycol) also supports dialysis",
+  ];
+  if (osmolarGap.isElevated) {
+    caveats.push("Ketoacidosis, lactic acidosis, mannitol, glycerol and severe renal failure also raise the osmolar gap");
+  }
+
+  return {
+    excessOsmolesLow,
+    excessOsmolesHigh,
+    estimates,
+    stage,
+    stageInterpretation,
+    fomepizole: { indicated: fomepizoleReasons.length > 0, reasons: fomepizoleReasons },
+    dialysis: { indicated: dialysisReasons.length > 0, reasons: dialysisReasons },
+    ethanolCoefficient,
+    caveats,
+  };
+}
+
+export function calculateCorrectedSodium(
+  Na: number,
+  glucose: number,
+  units?: UnitPreferences
+): { katz: number; hillier: number; formula: string } {
+  // Both factors are per 100 mg/dL (5.55 mmol/L) of glucose above 100 mg/dL
+  const excessGlucose = Math.max(0, fromCanonicalUnit("glucose", glucose, "mg/dL") - 100) / 100;
+  const katz = Na + 1.6 * excessGlucose;
+  const hillier = Na + 2.4 * excessGlucose;
+  const glucoseTerm =
+    getUnit("glucose", units) === "mg/dL"
+      ? `(${formatInUnit("glucose", glucose, units)} - 100)/100`
+      : `(${glucose} - 5.55)/5.55`;
+
+  return {
+    katz,
+    hillier,
+    formula: `Corrected Na⁺ = ${Na} + 1.6 (Katz) or 2.4 (Hillier) × ${glucoseTerm} = ${katz.toFixed(1)} / ${hillier.toFixed(1)} mmol/L`,
+  };
+}
+
+export function calculateEffectiveOsmolality(
+  Na: number,
+  glucose: number,
+  units?: UnitPreferences
+): { value: number; formula: string } {
+  const value = 2 * Na + glucose;
+  const glucoseTerm =
+    getUnit("glucose", units) === "mg/dL"
+      ? `${formatInUnit("glucose", glucose, units)}/${fromCanonicalUnit("glucose", 1, "mg/dL")}`
+      : `${glucose}`;
+
+  return {
+    value,
+    formula: `Effective Osm = 2×[Na⁺] + Glucose = 2×${Na} + ${glucoseTerm} = ${value.toFixed(1)} mOsm/kg`,
+  };
+}
+
+export function assessDiabeticEmergency(params: {
+  Na: number;
+  glucose: number;
+  pH: number;
+  HCO3: number;
+  ketones?: number;
+  anionGap?: AnionGapResult;
+  units?: UnitPreferences;
+}): DiabeticEmergencyResult {
+  const { Na, glucose, pH, HCO3, ketones, anionGap, units } = params;
+  const { dka, dkaSeverity: severityBounds, hhs } = diabeticEmergencyCriteria;
+
+  const correctedNa = calculateCorrectedSodium(Na, glucose, units);
+  const effectiveOsmolality = calculateEffectiveOsmolality(Na, glucose, units);
+  const glucoseLabel = (mmolL: number) =>
+    `${formatInUnit("glucose", mmolL, units)} ${getUnitLabel("glucose", units)}`;
+
+  const acidotic = pH < dka.pH || HCO3 < dka.HCO3;
+  const ketotic = ketones !== undefined ? ketones >= dka.ketones : undefined;
+  // Without a ketone level a raised AG stands in for ketoacidosis
+  const ketoticOrHighAG = ketotic ?? (anionGap ? anionGap.correctedValue > dka.anionGap : undefined);
+
+  const dkaCriteria: DiagnosticCriterion[] = [
+    { label: `Glucose ≥ ${glucoseLabel(dka.glucose)}`, met: glucose >= dka.glucose },
+    { label: `β-hydroxybutyrate ≥ ${dka.ketones} mmol/L`, met: ketotic },
+    { label: `pH < ${dka.pH} or HCO₃⁻ < ${dka.HCO3} mmol/L`, met: acidotic },
+  ];
+  if (ketones === undefined) {
+    dkaCriteria.push({
+      label: `Anion gap > ${dka.anionGap} mEq/L (ketones not measured)`,
+      met: anionGap ? anionGap.correctedValue > dka.anionGap : undefined,
+    });
+  }
+
+  const hhsCriteria: DiagnosticCriterion[] = [
+    { label: `Glucose ≥ ${glucoseLabel(hhs.glucose)}`, met: glucose >= hhs.glucose },
+    {
+      label: `Effective osmolality > ${hhs.effectiveOsmolality} mOsm/kg`,
+      met: effectiveOsmolality.value > hhs.effectiveOsmolality,
+    },
+    { label: `pH ≥ ${hhs.pH} and HCO₃⁻ ≥ ${hhs.HCO3} mmol/L`, met: pH >= hhs.pH && HCO3 >= hhs.HCO3 },
+    {
+      label: `β-hydroxybutyrate < ${hhs.ketones} mmol/L`,
+      met: ketones !== undefined ? ketones < hhs.ketones : undefined,
+    },
+  ];
+
+  const isDKA = glucose >= dka.glucose && acidotic && ketoticOrHighAG === true;
+  const isEuglycaemicDKA = glucose < dka.glucose && acidotic && ketotic === true;
+  const isHHS =
+    glucose >= hhs.glucose && effectiveOsmolality.value > hhs.effectiveOsmolality;
+  // HHS with enough ketoacidosis to meet DKA criteria is reported as a mixed picture
+  const isHHSOnly = isHHS && pH >= hhs.pH && HCO3 >= hhs.HCO3 && ketotic !== true;
+
+  let type: DiabeticEmergencyType;
+  if (isHHS && isDKA) {
+    type = "mixed_dka_hhs";
+  } else if (isHHSOnly) {
+    type = "hhs";
+  } else if (isDKA) {
+    type = "dka";
+  } else if (isEuglycaemicDKA) {
+    type = "euglycaemic_dka";
+  } else {
+    type = "none";
+  }
+
+  let dkaSeverity: DKASeverity | undefined;
+  if (type === "dka" || type === "mixed_dka_hhs" || type === "euglycaemic_dka") {
+    if (pH < severityBounds.severe.pH || HCO3 < severityBounds.severe.HCO3) {
+      dkaSeverity = "severe";
+    } else if (pH < severityBounds.moderate.pH || HCO3 < severityBounds.moderate.HCO3) {
+      dkaSeverity = "moderate";
+    } else {
+      dkaSeverity = "mild";
+    }
+  }
+
+  const interpretations: Record<DiabeticEmergencyType, string> = {
+    dka: `Diabetic ketoacidosis${dkaSeverity ? ` (${dkaSeverity})` : ""}: hyperglycaemia with ketosis and metabolic acidosis.`,
+    hhs: "Hyperosmolar hyperglycaemic state: marked hyperglycaemia and hyperosmolality without significant ketoacidosis.",
+    mixed_dka_hhs: `Mixed DKA and HHS${dkaSeverity ? ` (${dkaSeverity} DKA)` : ""}: hyperosmolality together with ketoacidosis.`,
+    euglycaemic_dka: `Euglycaemic DKA${dkaSeverity ? ` (${dkaSeverity})` : ""}: ketoacidosis with glucose below ${glucoseLabel(dka.glucose)}.`,
+    none: "Criteria for DKA or HHS are not met.",
+  };
+
+  const notes: string[] = [];
+  if (ketones === undefined && (type === "dka" || type === "mixed_dka_hhs")) {
+    notes.push("Ketones not measured - confirm with blood β-hydroxybutyrate, as lactate also raises the AG");
+  }
+  if (type === "euglycaemic_dka") {
+    notes.push("Consider SGLT2 inhibitors, pregnancy, starvation or alcohol");
+  }
+  if (dkaSeverity === "severe" || type === "hhs" || type === "mixed_dka_hhs") {
+    notes.push("Altered mental status or coma also marks severe DKA and is typical of HHS - assess clinically");
+  }
+  if (correctedNa.katz > 145) {
+    notes.push("Corrected Na⁺ is high: free water deficit - expect the measured Na⁺ to rise as glucose falls");
+  } else if (Na < 135 && correctedNa.katz >= 135) {
+    notes.push("Low measured Na⁺ is explained by hyperglycaemia (translocational hyponatraemia)");
+  }
+
+  return {
+    correctedNaKatz: correctedNa.katz,
+    correctedNaHillier: correctedNa.hillier,
+    correctedNaFormula: correctedNa.formula,
+    effectiveOsmolality: effectiveOsmolality.value,
+    effectiveOsmolalityFormula: effectiveOsmolality.formula,
+    type,
+    dkaSeverity,
+    dkaCriteria,
+    hhsCriteria,
+    interpretation: interpretations[type],
+    notes,
+  };
+}
+
 export function calculateWintersFormula(
   HCO3: number,
-  actualPCO2: number
+  actualPCO2: number,
+  units?: UnitPreferences,
+  profile: ReferenceProfile = getReferenceProfile()
 ): WintersFormulaResult {
-  const expectedPCO2 = 1.5 * HCO3 + 8;
-  const expectedLow = expectedPCO2 - 2;
-  const expectedHigh = expectedPCO2 + 2;
+  const { intercept, tolerance } = ageBands[profile.ageGroup].winters;
+  const expectedPCO2 = 1.5 * HCO3 + intercept;
+  const expectedLow = expectedPCO2 - tolerance;
+  const expectedHigh = expectedPCO2 + tolerance;
 
   let status: CompensationStatus;
   if (actualPCO2 >= expectedLow && actualPCO2 <= expectedHigh) {
@@ -159,30 +1445,36 @@ export function calculateWintersFormula(
     expectedPCO2High: expectedHigh,
     actualPCO2,
     status,
-    formula: `Expected pCO₂ = (1.5 × ${HCO3}) + 8 ± 2 = ${expectedLow.toFixed(
+    formula: `Expected pCO₂ = (1.5 × ${HCO3}) + ${intercept} ± ${tolerance} = ${expectedLow.toFixed(
       1
-    )} - ${expectedHigh.toFixed(1)} mmHg`,
+    )} - ${expectedHigh.toFixed(1)} mmHg${
+      getUnit("pCO2", units) === "kPa"
+        ? ` (${formatInUnit("pCO2", expectedLow, units)} - ${formatInUnit("pCO2", expectedHigh, units)} kPa)`
+        : ""
+    }`,
   };
 }
 
 export function calculateDeltaRatio(
   anionGap: number,
-  HCO3: number
+  HCO3: number,
+  normalAnionGap: number = getReferenceProfile().anionGap.normal,
+  normalHCO3: number = getBaselineGas().HCO3
 ): DeltaRatioResult {
-  const deltaAG = anionGap - 12;
-  const deltaHCO3 = 24 - HCO3;
+  const deltaAG = anionGap - normalAnionGap;
+  const deltaHCO3 = normalHCO3 - HCO3;
 
   if (deltaHCO3 === 0) {
     return {
       value: 0,
       status: "hagma",
       interpretation: "Pure HAGMA (no HCO3 change)",
-      formula: `Delta Ratio = (${anionGap} - 12) / (24 - ${HCO3}) = Cannot calculate (no HCO3 change)`,
+      formula: `Delta Ratio = (${anionGap} - ${normalAnionGap}) / (${normalHCO3} - ${HCO3}) = Cannot calculate (no HCO3 change)`,
     };
   }
 
   const deltaRatio = deltaAG / deltaHCO3;
-  const formula = `Delta Ratio = (AG - 12) / (24 - HCO₃⁻) = (${anionGap} - 12) / (24 - ${HCO3}) = ${deltaRatio.toFixed(
+  const formula = `Delta Ratio = (AG - ${normalAnionGap}) / (${normalHCO3} - HCO₃⁻) = (${anionGap} - ${normalAnionGap}) / (${normalHCO3} - ${HCO3}) = ${deltaRatio.toFixed(
     2
   )}`;
 
@@ -205,20 +1497,84 @@ export function calculateDeltaRatio(
   }
 
   return {
-    value: deltaRatio,
+    value: deltaRatio,
+    status,
+    interpretation,
+    formula,
+  };
+}
+
+// Judges the acute change from a chronically abnormal baseline; undefined when the baseline pCO2
+// is normal or the pCO2 has not moved further in the direction of the disorder
+function assessAcuteOnChronic(
+  disorder: "respiratory_acidosis" | "respiratory_alkalosis",
+  pCO2: number,
+  HCO3: number,
+  baseline: { pCO2: number; HCO3: number },
+  profile: ReferenceProfile
+): CompensationResult | undefined {
+  const range = profile.ranges.pCO2;
+  const isAcidosis = disorder === "respiratory_acidosis";
+  const chronicallyAbnormal = isAcidosis ? baseline.pCO2 > range.high : baseline.pCO2 < range.low;
+  if (!chronicallyAbnormal) {
+    return undefined;
+  }
+
+  const pCO2Change = pCO2 - baseline.pCO2;
+  const HCO3Change = HCO3 - baseline.HCO3;
+  // Changes smaller than this are within the day-to-day variation of the baseline
+  const minimumPCO2Change = 5;
+  const direction = isAcidosis ? 1 : -1;
+  if (direction * pCO2Change < -minimumPCO2Change) {
+    return undefined;
+  }
+
+  let chronicity: Chronicity;
+  let expectedHCO3Change: number;
+  let rule: string;
+  if (direction * pCO2Change < minimumPCO2Change) {
+    chronicity = "chronic";
+    expectedHCO3Change = 0;
+    rule = `Chronic: pCO₂ ${pCO2} is within ${minimumPCO2Change} mmHg of the baseline ${baseline.pCO2}, so HCO₃⁻ should stay near the baseline ${baseline.HCO3} mmol/L`;
+  } else {
+    chronicity = "acute_on_chronic";
+    expectedHCO3Change = (pCO2Change / 10) * (isAcidosis ? 1 : 2);
+    rule = `Acute-on-chronic: for every 10mmHg pCO₂ ${isAcidosis ? "rise above" : "fall below"} the baseline ${baseline.pCO2}, expect HCO₃⁻ to ${isAcidosis ? "increase by 1" : "decrease by 2"}mmol/L from the baseline ${baseline.HCO3}`;
+  }
+
+  let status: CompensationStatus;
+  if (Math.abs(HCO3Change - expectedHCO3Change) <= 2) {
+    status = "appropriate";
+  } else if (direction * (HCO3Change - expectedHCO3Change) > 0) {
+    status = "excessive";
+  } else {
+    status = "inadequate";
+  }
+
+  return {
+    expectedChange: `${expectedHCO3Change >= 0 ? "+" : ""}${expectedHCO3Change.toFixed(1)} mmol/L from baseline`,
+    actualChange: `${HCO3Change >= 0 ? "+" : ""}${HCO3Change.toFixed(1)} mmol/L from baseline`,
     status,
-    interpretation,
-    formula,
+    chronicity,
+    rule,
   };
 }
 
 export function calculateRespiratoryCompensation(
   disorder: "respiratory_acidosis" | "respiratory_alkalosis",
   pCO2: number,
-  HCO3: number
+  HCO3: number,
+  patientBaseline?: { pCO2: number; HCO3: number },
+  profile: ReferenceProfile = getReferenceProfile()
 ): CompensationResult {
-  const normalPCO2 = 40;
-  const normalHCO3 = 24;
+  const acuteOnChronic = patientBaseline
+    ? assessAcuteOnChronic(disorder, pCO2, HCO3, patientBaseline, profile)
+    : undefined;
+  if (acuteOnChronic) {
+    return acuteOnChronic;
+  }
+
+  const { pCO2: normalPCO2, HCO3: normalHCO3 } = getBaselineGas(profile);
   const pCO2Change = Math.abs(pCO2 - normalPCO2);
   const HCO3Change = HCO3 - normalHCO3;
 
@@ -234,12 +1590,12 @@ export function calculateRespiratoryCompensation(
     if (Math.abs(HCO3Change - acuteExpected) <= 2) {
       chronicity = "acute";
       expectedHCO3Change = acuteExpected;
-      rule = `Acute: For every 10mmHg pCO₂ rise above 40, expect HCO₃⁻ to increase by 1mmol/L`;
+      rule = `Acute: For every 10mmHg pCO₂ rise above ${normalPCO2}, expect HCO₃⁻ to increase by 1mmol/L`;
       status = "appropriate";
     } else if (Math.abs(HCO3Change - chronicExpected) <= 2) {
       chronicity = "chronic";
       expectedHCO3Change = chronicExpected;
-      rule = `Chronic: For every 10mmHg pCO₂ rise above 40, expect HCO₃⁻ to increase by 4mmol/L`;
+      rule = `Chronic: For every 10mmHg pCO₂ rise above ${normalPCO2}, expect HCO₃⁻ to increase by 4mmol/L`;
       status = "appropriate";
     } else if (HCO3Change > chronicExpected + 2) {
       chronicity = "unknown";
@@ -259,12 +1615,12 @@ export function calculateRespiratoryCompensation(
     if (Math.abs(HCO3Change - acuteExpected) <= 2) {
       chronicity = "acute";
       expectedHCO3Change = acuteExpected;
-      rule = `Acute: For every 10mmHg pCO₂ fall below 40, expect HCO₃⁻ to decrease by 2mmol/L`;
+      rule = `Acute: For every 10mmHg pCO₂ fall below ${normalPCO2}, expect HCO₃⁻ to decrease by 2mmol/L`;
       status = "appropriate";
     } else if (Math.abs(HCO3Change - chronicExpected) <= 2) {
       chronicity = "chronic";
       expectedHCO3Change = chronicExpected;
-      rule = `Chronic: For every 10mmHg pCO₂ fall below 40, expect HCO₃⁻ to decrease by 5mmol/L`;
+      rule = `Chronic: For every 10mmHg pCO₂ fall below ${normalPCO2}, expect HCO₃⁻ to decrease by 5mmol/L`;
       status = "appropriate";
     } else if (HCO3Change < chronicExpected - 2) {
       chronicity = "unknown";
@@ -314,16 +1670,330 @@ export function calculateMetabolicAlkalosisCompensation(
   };
 }
 
+export function calculateBaseExcess(
+  pH: number,
+  pCO2: number,
+  haemoglobin?: number
+): BaseExcessResult {
+  const calculatedHCO3 = 0.0307 * pCO2 * Math.pow(10, pH - 6.1);
+  const hco3Formula = `cHCO₃⁻ = 0.0307 × ${pCO2} × 10^(${pH} - 6.1) = ${calculatedHCO3.toFixed(1)} mmol/L`;
+
+  const standardBaseExcess = 0.93 * (calculatedHCO3 - 24.4 + 14.83 * (pH - 7.4));
+  const sbeFormula = `SBE = 0.93 × [(${calculatedHCO3.toFixed(1)} - 24.4) + 14.83 × (${pH} - 7.4)] = ${standardBaseExcess.toFixed(1)} mmol/L`;
+
+  let baseExcess: number | undefined;
+  let beFormula: string | undefined;
+
+  if (haemoglobin !== undefined) {
+    baseExcess =
+      (1 - 0.014 * haemoglobin) *
+      (calculatedHCO3 - 24.8 + (1.43 * haemoglobin + 7.7) * (pH - 7.4));
+    beFormula = `BE = (1 - 0.014 × ${haemoglobin}) × [(${calculatedHCO3.toFixed(1)} - 24.8) + (1.43 × ${haemoglobin} + 7.7) × (${pH} - 7.4)] = ${baseExcess.toFixed(1)} mmol/L`;
+  }
+
+  return {
+    calculatedHCO3,
+    baseExcess,
+    standardBaseExcess,
+    hco3Formula,
+    beFormula,
+    sbeFormula,
+  };
+}
+
+// SBE is zero at 40 mmHg and 24 mmol/L; a pregnancy baseline already sits below that by its lower HCO3
+function getSBEFromBaseline(standardBaseExcess: number, baseline: { HCO3: number }): number {
+  return standardBaseExcess - (baseline.HCO3 - defaultBaselineGas.HCO3);
+}
+
+export function calculateCopenhagenCompensation(
+  disorder: PrimaryDisorder,
+  pCO2: number,
+  standardBaseExcess: number,
+  profile: ReferenceProfile = getReferenceProfile()
+): CompensationResult | undefined {
+  const baseline = getBaselineGas(profile);
+  const normalPCO2 = baseline.pCO2;
+  const pCO2Change = pCO2 - normalPCO2;
+  const SBE = getSBEFromBaseline(standardBaseExcess, baseline);
+
+  if (
+    disorder === "respiratory_acidosis" ||
+    disorder === "respiratory_alkalosis"
+  ) {
+    const isAcidosis = disorder === "respiratory_acidosis";
+    const chronicExpected = 0.4 * pCO2Change;
+
+    let chronicity: Chronicity;
+    let status: CompensationStatus;
+    let expectedSBE: number;
+    let rule: string;
+
+    if (Math.abs(SBE) <= 3) {
+      chronicity = "acute";
+      status = "appropriate";
+      expectedSBE = 0;
+      rule = `Acute: ΔSBE = 0 (SBE within ±3 mmol/L)`;
+    } else if (Math.abs(SBE - chronicExpected) <= 3) {
+      chronicity = "chronic";
+      status = "appropriate";
+      expectedSBE = chronicExpected;
+      rule = `Chronic: ΔSBE = 0.4 × ΔpCO₂ = 0.4 × ${pCO2Change.toFixed(1)} = ${chronicExpected.toFixed(1)} mmol/L`;
+    } else if (isAcidosis ? SBE > chronicExpected + 3 : SBE < chronicExpected - 3) {
+      chronicity = "unknown";
+      status = "excessive";
+      expectedSBE = chronicExpected;
+      rule = `Chronic expected: ΔSBE = 0.4 × ${pCO2Change.toFixed(1)} = ${chronicExpected.toFixed(1)} mmol/L`;
+    } else if (isAcidosis ? SBE < -3 : SBE > 3) {
+      chronicity = "unknown";
+      status = "inadequate";
+      expectedSBE = 0;
+      rule = `Expected: SBE from 0 (acute) to ${chronicExpected.toFixed(1)} (chronic) mmol/L`;
+    } else {
+      chronicity = "unknown";
+      status = "appropriate";
+      expectedSBE = chronicExpected;
+      rule = `SBE lies between acute (0) and chronic (${chronicExpected.toFixed(1)} mmol/L) values - evolving compensation`;
+    }
+
+    return {
+      expectedChange: `${expectedSBE >= 0 ? "+" : ""}${expectedSBE.toFixed(1)} mmol/L`,
+      actualChange: `${SBE >= 0 ? "+" : ""}${SBE.toFixed(1)} mmol/L`,
+      status,
+      chronicity,
+      rule,
+    };
+  }
+
+  if (
+    disorder === "metabolic_acidosis" ||
+    disorder === "metabolic_alkalosis"
+  ) {
+    const factor = disorder === "metabolic_acidosis" ? 1 : 0.6;
+    const expectedPCO2 = normalPCO2 + factor * SBE;
+    const expectedLow = expectedPCO2 - 3;
+    const expectedHigh = expectedPCO2 + 3;
+
+    let status: CompensationStatus;
+    if (pCO2 >= expectedLow && pCO2 <= expectedHigh) {
+      status = "appropriate";
+    } else if (disorder === "metabolic_acidosis") {
+      status = pCO2 < expectedLow ? "excessive" : "inadequate";
+    } else {
+      status = pCO2 > expectedHigh ? "excessive" : "inadequate";
+    }
+
+    return {
+      expectedChange: `Expected pCO₂: ${expectedLow.toFixed(1)} - ${expectedHigh.toFixed(1)} mmHg`,
+      actualChange: `Actual pCO₂: ${pCO2} mmHg`,
+      status,
+      chronicity: "unknown",
+      rule:
+        disorder === "metabolic_acidosis"
+          ? `ΔpCO₂ = ΔSBE: Expected pCO₂ = ${normalPCO2} + (${SBE.toFixed(1)}) ± 3 = ${expectedLow.toFixed(1)} - ${expectedHigh.toFixed(1)} mmHg`
+          : `ΔpCO₂ = 0.6 × ΔSBE: Expected pCO₂ = ${normalPCO2} + 0.6 × ${SBE.toFixed(1)} ± 3 = ${expectedLow.toFixed(1)} - ${expectedHigh.toFixed(1)} mmHg`,
+    };
+  }
+
+  return undefined;
+}
+
+function analyseCordSample(sample: CordSample): CordSampleResult {
+  const { calculatedHCO3, standardBaseExcess, sbeFormula } = calculateBaseExcess(sample.pH, sample.pCO2);
+
+  if (sample.baseExcess !== undefined) {
+    return {
+      pH: sample.pH,
+      pCO2: sample.pCO2,
+      HCO3: calculatedHCO3,
+      baseDeficit: -sample.baseExcess,
+      baseDeficitSource: "measured",
+      baseDeficitFormula: `BD = -BE = -(${sample.baseExcess}) = ${(-sample.baseExcess).toFixed(1)} mmol/L`,
+    };
+  }
+
+  return {
+    pH: sample.pH,
+    pCO2: sample.pCO2,
+    HCO3: calculatedHCO3,
+    baseDeficit: -standardBaseExcess,
+    baseDeficitSource: "calculated",
+    baseDeficitFormula: `${sbeFormula}; BD(ecf) = ${(-standardBaseExcess).toFixed(1)} mmol/L`,
+  };
+}
+
+export function interpretCordGas(input: CordGasInput): CordGasReport {
+  const t = cordGasThresholds;
+  const arterial = analyseCordSample(input.arterial);
+  const venous = analyseCordSample(input.venous);
+
+  const pHDifference = venous.pH - arterial.pH;
+  const pCO2Difference = arterial.pCO2 - venous.pCO2;
+  const messages: string[] = [];
+
+  let status: CordPairingStatus;
+  if (Math.abs(pHDifference) < t.minimumPHDifference && Math.abs(pCO2Difference) < t.minimumPCO2Difference) {
+    status = "same_vessel";
+    messages.push(
+      `Artery and vein differ by only ${Math.abs(pHDifference).toFixed(2)} pH units and ${Math.abs(pCO2Difference).toFixed(1)} mmHg pCO₂ - both samples were probably drawn from the same vessel (usually the vein)`
+    );
+  } else if (pHDifference < 0 && pCO2Difference < 0) {
+    status = "swapped";
+    messages.push(
+      "The 'venous' sample has the lower pH and higher pCO₂ - the samples appear to be mislabelled, so the lower-pH sample is classified as arterial"
+    );
+  } else if (pHDifference >= t.minimumPHDifference && pCO2Difference >= t.minimumPCO2Difference) {
+    status = "valid";
+    messages.push(
+      `Arterial pH is ${pHDifference.toFixed(2)} lower and pCO₂ ${pCO2Difference.toFixed(1)} mmHg higher than venous - consistent with a genuine paired sample`
+    );
+  } else {
+    status = "discordant";
+    messages.push(
+      `pH and pCO₂ differences disagree (ΔpH ${pHDifference.toFixed(2)}, ΔpCO₂ ${pCO2Difference.toFixed(1)} mmHg) - a valid pair needs an arterial pH at least ${t.minimumPHDifference} lower and pCO₂ at least ${t.minimumPCO2Difference} mmHg higher; consider repeat sampling`
+    );
+  }
+
+  if (status === "valid" && pHDifference > t.largePHDifference) {
+    messages.push(
+      `A wide arteriovenous pH difference (> ${t.largePHDifference}) suggests interrupted umbilical flow such as cord compression or an acute late event`
+    );
+  }
+
+  const classifiedSample = status === "swapped" ? "venous" : "arterial";
+  const sample = classifiedSample === "venous" ? venous : arterial;
+
+  const acidaemic = sample.pH < t.acidaemiaPH;
+  const metabolic = sample.baseDeficit >= t.metabolicBaseDeficit;
+  const respiratory = sample.pCO2 > t.respiratoryPCO2;
+
+  let acidaemia: FetalAcidaemiaType;
+  if (!acidaemic) {
+    acidaemia = "none";
+  } else if (metabolic && respiratory) {
+    acidaemia = "mixed";
+  } else if (metabolic) {
+    acidaemia = "metabolic";
+  } else if (respiratory) {
+    acidaemia = "respiratory";
+  } else {
+    acidaemia = "mild";
+  }
+
+  const isSevere = sample.pH < t.severeAcidaemiaPH;
+  const isPathological = isSevere || metabolic;
+
+  const interpretations: Record<FetalAcidaemiaType, string> = {
+    none: `Cord pH ${sample.pH.toFixed(2)} is ≥ ${t.acidaemiaPH.toFixed(2)} - no fetal acidaemia at delivery`,
+    mild: `Cord pH ${sample.pH.toFixed(2)} with BD ${sample.baseDeficit.toFixed(1)} mmol/L and pCO₂ ${sample.pCO2.toFixed(0)} mmHg - mild acidaemia without a clear respiratory or metabolic component`,
+    respiratory: `Respiratory fetal acidaemia: pCO₂ ${sample.pCO2.toFixed(0)} mmHg > ${t.respiratoryPCO2} with BD ${sample.baseDeficit.toFixed(1)} < ${t.metabolicBaseDeficit} mmol/L - usually brief cord compression, rarely associated with injury`,
+    metabolic: `Metabolic fetal acidaemia: BD ${sample.baseDeficit.toFixed(1)} ≥ ${t.metabolicBaseDeficit} mmol/L - sustained hypoxia with anaerobic metabolism`,
+    mixed: `Mixed fetal acidaemia: pCO₂ ${sample.pCO2.toFixed(0)} mmHg with BD ${sample.baseDeficit.toFixed(1)} mmol/L - both respiratory and metabolic components`,
+  };
+
+  const notes: string[] = [];
+  if (isSevere) {
+    notes.push(`pH < ${t.severeAcidaemiaPH.toFixed(2)} - severe acidaemia; assess the neonate for hypoxic-ischaemic encephalopathy`);
+  }
+  if (metabolic && !acidaemic) {
+    notes.push(`BD ≥ ${t.metabolicBaseDeficit} mmol/L despite pH ≥ ${t.acidaemiaPH.toFixed(2)} - check the sample and repeat if possible`);
+  }
+  if (status === "same_vessel") {
+    notes.push("Without a confirmed arterial sample the fetal acid-base status may be underestimated");
+  }
+  if (arterial.baseDeficitSource === "calculated" || venous.baseDeficitSource === "calculated") {
+    notes.push("Base deficit calculated in the extracellular fluid model (BDecf) where the analyser value was not entered");
+  }
+  notes.push("Interpret alongside Apgar scores, the intrapartum history and the neonatal condition");
+
+  return {
+    arterial,
+    venous,
+    pairing: { status, pHDifference, pCO2Difference, messages },
+    classifiedSample,
+    acidaemia,
+    isPathological,
+    isSevere,
+    interpretation: interpretations[acidaemia],
+    notes,
+  };
+}
+
+export function calculateAlveolarPO2(
+  FiO2: number,
+  pCO2: number,
+  barometricPressure: number = 760
+): number {
+  return FiO2 * (barometricPressure - 47) - pCO2 / 0.8;
+}
+
+export function classifyARDSSeverity(pfRatio: number): ARDSSeverity {
+  if (pfRatio <= 100) return "severe";
+  if (pfRatio <= 200) return "moderate";
+  if (pfRatio <= 300) return "mild";
+  return "none";
+}
+
+export function classifyRespiratoryFailure(
+  pO2: number,
+  pCO2: number
+): RespiratoryFailureType {
+  if (pCO2 > 50) return "type_2";
+  if (pO2 < 60) return "type_1";
+  return "none";
+}
+
+export function calculateOxygenation(
+  pO2: number,
+  FiO2: number,
+  pCO2: number,
+  barometricPressure: number = 760,
+  age?: number
+): OxygenationResult {
+  const alveolarPO2 = calculateAlveolarPO2(FiO2, pCO2, barometricPressure);
+  const aaGradient = alveolarPO2 - pO2;
+  const expectedAaGradient = age !== undefined ? age / 4 + 4 : 15;
+  const pfRatio = pO2 / FiO2;
+
+  return {
+    alveolarPO2,
+    aaGradient,
+    expectedAaGradient,
+    isAaGradientElevated: aaGradient > expectedAaGradient,
+    pfRatio,
+    ardsSeverity: classifyARDSSeverity(pfRatio),
+    respiratoryFailure: classifyRespiratoryFailure(pO2, pCO2),
+    alveolarFormula: `PAO₂ = FiO₂ × (Patm - 47) - pCO₂/0.8 = ${FiO2} × (${barometricPressure} - 47) - ${pCO2}/0.8 = ${alveolarPO2.toFixed(1)} mmHg`,
+    aaGradientFormula: `A-a = PAO₂ - PaO₂ = ${alveolarPO2.toFixed(1)} - ${pO2} = ${aaGradient.toFixed(1)} mmHg (expected ${
+      age !== undefined ? `age/4 + 4 = ${expectedAaGradient.toFixed(1)}` : `< ${expectedAaGradient}`
+    } mmHg)`,
+    pfRatioFormula: `P/F = PaO₂ / FiO₂ = ${pO2} / ${FiO2} = ${pfRatio.toFixed(0)} mmHg`,
+  };
+}
+
+export function formatRespiratoryFailure(type: RespiratoryFailureType): string {
+  const names: Record<RespiratoryFailureType, string> = {
+    none: "No respiratory failure",
+    type_1: "Type 1 (hypoxaemic) respiratory failure",
+    type_2: "Type 2 (hypercapnic) respiratory failure",
+  };
+  return names[type];
+}
+
 export function getCausesForDisorder(
   disorder: PrimaryDisorder,
   anionGapStatus?: AnionGapStatus,
-  chronicity?: Chronicity
-): string[] {
+  chronicity?: Chronicity,
+  nagmaOrigin?: NAGMAOrigin
+): CauseEntry[] {
   switch (disorder) {
     case "respiratory_acidosis":
       if (chronicity === "chronic") {
         return respiratoryAcidosisCauses.chronic;
       }
+      if (chronicity === "acute_on_chronic") {
+        return respiratoryAcidosisCauses.acuteOnChronic;
+      }
       return respiratoryAcidosisCauses.acute;
 
     case "metabolic_acidosis":
@@ -332,17 +2002,591 @@ export function getCausesForDisorder(
       } else if (anionGapStatus === "low_negative") {
         return metabolicAcidosisCauses.lowNegativeAGMA;
       }
+      if (nagmaOrigin && nagmaOrigin !== "indeterminate") {
+        return metabolicAcidosisCauses.normalAGMAByOrigin[nagmaOrigin];
+      }
       return metabolicAcidosisCauses.normalAGMA.causes;
 
     case "respiratory_alkalosis":
       return respiratoryAlkalosisCauses.causes;
 
-    case "metabolic_alkalosis":
-      return metabolicAlkalosisCauses.causes;
+    case "metabolic_alkalosis":
+      return metabolicAlkalosisCauses.causes;
+
+    default:
+      return [];
+  }
+}
+
+// Every cause listed under a disorder, whatever the AG, chronicity or origin
+function getAllCausesForDisorder(disorder: PrimaryDisorder): CauseEntry[] {
+  switch (disorder) {
+    case "respiratory_acidosis":
+      return [
+        ...respiratoryAcidosisCauses.acute,
+        ...respiratoryAcidosisCauses.chronic,
+        ...respiratoryAcidosisCauses.acuteOnChronic,
+      ];
+
+    case "metabolic_acidosis":
+      return [
+        ...metabolicAcidosisCauses.highAGMA.causes,
+        ...metabolicAcidosisCauses.normalAGMA.causes,
+        ...metabolicAcidosisCauses.lowNegativeAGMA,
+      ];
+
+    case "respiratory_alkalosis":
+      return respiratoryAlkalosisCauses.causes;
+
+    case "metabolic_alkalosis":
+      return [
+        ...metabolicAlkalosisCauses.causes,
+        ...metabolicAlkalosisCauses.chlorideResponsive,
+        ...metabolicAlkalosisCauses.chlorideResistantHypertensive,
+        ...metabolicAlkalosisCauses.chlorideResistantNormotensive,
+      ];
+
+    default:
+      return [];
+  }
+}
+
+export function findCauses(filter: CauseFilter = {}): CauseEntry[] {
+  const { disorder, anionGapStatus, chronicity, nagmaOrigin, category, mnemonic, search } = filter;
+
+  let pool: CauseEntry[];
+  if (!disorder) {
+    pool = Object.values(causeKnowledgeBase);
+  } else if (anionGapStatus || chronicity || nagmaOrigin) {
+    pool = getCausesForDisorder(disorder, anionGapStatus, chronicity, nagmaOrigin);
+  } else {
+    pool = getAllCausesForDisorder(disorder);
+  }
+
+  const term = search?.toLowerCase();
+  const seen = new Set<string>();
+  return pool.filter((cause) => {
+    if (seen.has(cause.id)) return false;
+    seen.add(cause.id);
+    if (category && cause.category !== category) return false;
+    if (mnemonic && !cause.mnemonics.some((entry) => entry.mnemonic === mnemonic)) return false;
+    if (
+      term &&
+      ![cause.id, cause.name, ...cause.keyFeatures, ...cause.investigations].some((text) =>
+        text.toLowerCase().includes(term)
+      )
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// Weighs the clinical context and lab findings for and against each candidate cause of the disorder
+export function rankDifferential(
+  interpretation: Omit<BloodGasInterpretation, "differential" | "trace">,
+  profile: ReferenceProfile = getReferenceProfile()
+): DifferentialResult {
+  const {
+    input,
+    primaryDisorder,
+    dominance,
+    anionGap,
+    osmolarGap,
+    urineAnionGap,
+    metabolicAlkalosis,
+    secondaryDisorders,
+  } = interpretation;
+  const { ranges } = profile;
+  const thresholds = differentialThresholds;
+
+  const evidence = new Set<DifferentialEvidence>([
+    ...(input.clinicalContext?.factors ?? []),
+    ...(input.clinicalContext?.drugs ?? []),
+  ]);
+  if (input.pregnant) {
+    evidence.add("pregnancy");
+  }
+
+  const { lactate, ketones, glucose, urea, K, pO2 } = input;
+  if (lactate !== undefined) {
+    evidence.add(lactate > ranges.lactate.high ? "lactate_high" : "lactate_normal");
+  }
+  if (ketones !== undefined && ketones >= thresholds.ketonesHigh) {
+    evidence.add("ketones_high");
+  } else if (ketones !== undefined && ketones < thresholds.ketonesNormal) {
+    evidence.add("ketones_normal");
+  }
+  if (glucose !== undefined) {
+    evidence.add(glucose >= thresholds.glucoseHigh ? "glucose_high" : "glucose_normal");
+  }
+  if (osmolarGap) {
+    evidence.add(osmolarGap.isElevated ? "osmolar_gap_elevated" : "osmolar_gap_normal");
+  }
+  if (urea !== undefined && urea >= thresholds.uraemiaUrea) {
+    evidence.add("urea_high");
+  }
+  if (K !== undefined && K < ranges.K.low) {
+    evidence.add("hypokalaemia");
+  } else if (K !== undefined && K > ranges.K.high) {
+    evidence.add("hyperkalaemia");
+  }
+  // A venous pO2 says nothing about oxygenation
+  if (
+    pO2 !== undefined &&
+    pO2 < thresholds.hypoxaemiaPO2 &&
+    interpretation.sampleType !== "venous" &&
+    interpretation.sampleType !== "mixed_venous"
+  ) {
+    evidence.add("hypoxaemia");
+  }
+  if (urineAnionGap?.origin === "gastrointestinal") {
+    evidence.add("urine_anion_gap_negative");
+  } else if (urineAnionGap?.origin === "renal") {
+    evidence.add("urine_anion_gap_positive");
+  }
+  if (metabolicAlkalosis?.response === "chloride_responsive") {
+    evidence.add("urine_chloride_low");
+  } else if (metabolicAlkalosis?.response === "chloride_resistant") {
+    evidence.add("urine_chloride_high");
+  }
+  if (metabolicAlkalosis?.isHypertensive) {
+    evidence.add("hypertension");
+  }
+  const chronicity = (interpretation.compensation ?? interpretation.sbeCompensation)?.chronicity;
+  if (chronicity === "chronic" || chronicity === "acute_on_chronic") {
+    evidence.add("chronic_compensation");
+  }
+  if (
+    secondaryDisorders.includes("Concurrent respiratory alkalosis") ||
+    dominance?.coPrimary === "respiratory_alkalosis"
+  ) {
+    evidence.add("concurrent_respiratory_alkalosis");
+  }
+  // Respiratory alkalosis with a HAGMA is the salicylate pattern
+  if (
+    anionGap?.status === "high" &&
+    (primaryDisorder === "respiratory_alkalosis" || evidence.has("concurrent_respiratory_alkalosis"))
+  ) {
+    evidence.add("concurrent_hagma");
+  }
+
+  const groups: DifferentialGroup[] = [];
+  const notes: string[] = [];
+  for (const disorder of [primaryDisorder, dominance?.coPrimary]) {
+    if (disorder === "metabolic_acidosis") {
+      if (anionGap?.status === "high") {
+        groups.push("hagma");
+      } else if (anionGap?.status === "normal") {
+        groups.push("nagma");
+      } else if (anionGap) {
+        notes.push("A low or negative anion gap is usually hypoalbuminaemia, paraprotein or an analytical error; it is not ranked");
+      } else {
+        groups.push("hagma", "nagma");
+        notes.push("Enter Na⁺ and Cl⁻ to separate high and normal anion gap causes");
+      }
+    } else if (
+      disorder === "respiratory_acidosis" ||
+      disorder === "respiratory_alkalosis" ||
+      disorder === "metabolic_alkalosis"
+    ) {
+      groups.push(disorder);
+    }
+  }
+  if (groups.length > 0 && !input.clinicalContext?.factors?.length && !input.clinicalContext?.drugs?.length) {
+    notes.push("Ranked on lab findings alone; add the clinical context to refine it");
+  }
+
+  const scored = groups.flatMap((group) =>
+    differentialCandidates[group].map((candidate): RankedCause => {
+      const adjustments = candidate.rules.filter((rule) => evidence.has(rule.evidence));
+      const score = adjustments.reduce((total, rule) => total + rule.weight, candidate.prior);
+      return {
+        id: candidate.id,
+        name: candidate.name,
+        group,
+        score,
+        likelihood:
+          score >= thresholds.likelyScore
+            ? "likely"
+            : score >= thresholds.possibleScore
+              ? "possible"
+              : "less_likely",
+        adjustments,
+      };
+    })
+  );
+  // The sort is stable, so equal scores keep the table's order (roughly how common each cause is)
+  scored.sort((a, b) => b.score - a.score);
+  // A cause listed under both disorders of a combined picture is ranked once, at its higher score
+  const causes = scored.filter(
+    (cause, index) => scored.findIndex((other) => other.id === cause.id) === index
+  );
+
+  return {
+    disorder: primaryDisorder,
+    groups,
+    evidence: Array.from(evidence),
+    causes,
+    notes,
+  };
+}
+
+// Primary, co-primary or concurrent (as reported in secondaryDisorders)
+function hasDisorder(interpretation: BloodGasInterpretation, disorder: PrimaryDisorder): boolean {
+  return (
+    interpretation.primaryDisorder === disorder ||
+    interpretation.dominance?.coPrimary === disorder ||
+    interpretation.secondaryDisorders.includes(`Concurrent ${disorder.replace("_", " ")}`)
+  );
+}
+
+const followUpPriorityOrder: Record<FollowUpPriority, number> = { urgent: 0, high: 1, routine: 2 };
+
+export function recommendFollowUpTests(interpretation: BloodGasInterpretation): FollowUpTest[] {
+  const {
+    input,
+    primaryDisorder,
+    consistency,
+    sampleType,
+    anionGap,
+    osmolarGap,
+    urineAnionGap,
+    metabolicAlkalosis,
+    diabeticEmergency,
+    oxygenation,
+    secondaryDisorders,
+    differential,
+  } = interpretation;
+  const evidence = new Set(differential.evidence);
+
+  const hasMetabolicAcidosis = hasDisorder(interpretation, "metabolic_acidosis");
+  const hasHAGMA = anionGap?.status === "high";
+  const hasNAGMA =
+    (hasMetabolicAcidosis && anionGap?.status === "normal") ||
+    secondaryDisorders.includes("Mixed HAGMA and NAGMA");
+  const hasMetabolicAlkalosis = hasDisorder(interpretation, "metabolic_alkalosis");
+  const hasRespiratoryAcidosis = hasDisorder(interpretation, "respiratory_acidosis");
+  const hasRespiratoryAlkalosis = hasDisorder(interpretation, "respiratory_alkalosis");
+  const isVenous = sampleType === "venous" || sampleType === "mixed_venous";
+
+  const tests: FollowUpTest[] = [];
+  // Rules run most urgent first, so a test asked for twice keeps its first rationale
+  const recommend = (id: FollowUpTestId, priority: FollowUpPriority, rationale: string) => {
+    if (!tests.some((test) => test.id === id)) {
+      tests.push({ id, ...followUpTestDetails[id], priority, rationale });
+    }
+  };
+
+  if (!consistency.isConsistent) {
+    recommend(
+      "repeat_gas",
+      "urgent",
+      `Measured pH differs from the Henderson–Hasselbalch pH by ${Math.abs(consistency.difference).toFixed(2)}; exclude a transcription or sampling error before acting on the interpretation`
+    );
+  }
+
+  if (evidence.has("concurrent_hagma")) {
+    recommend("salicylate_level", "urgent", "Respiratory alkalosis with a high anion gap acidosis is the salicylate pattern");
+  }
+
+  if (
+    diabeticEmergency &&
+    diabeticEmergency.type !== "none" &&
+    diabeticEmergency.type !== "hhs" &&
+    input.K === undefined
+  ) {
+    recommend("potassium_magnesium", "urgent", "Serum K⁺ must be known before insulin is started");
+  }
+
+  if (hasMetabolicAcidosis && !anionGap) {
+    recommend("electrolytes", "urgent", "Na⁺ and Cl⁻ give the anion gap, which splits high from normal anion gap causes");
+  }
+
+  if (hasHAGMA) {
+    if (input.lactate === undefined) {
+      recommend("lactate", "urgent", "Lactic acidosis is the commonest high anion gap acidosis and flags shock or sepsis");
+    }
+    if (input.ketones === undefined) {
+      recommend("ketones", "urgent", "β-hydroxybutyrate separates diabetic, alcoholic and starvation ketoacidosis from other causes");
+    }
+    if (input.glucose === undefined) {
+      recommend("glucose", "urgent", "Glucose with the ketones distinguishes DKA from alcoholic or starvation ketosis");
+    }
+
+    // Lactate and ketones that do not account for the gap leave toxins as the main suspects
+    const unexplained = evidence.has("lactate_normal") && evidence.has("ketones_normal");
+    if (!osmolarGap) {
+      recommend(
+        "serum_osmolality",
+        unexplained ? "urgent" : "high",
+        "The anion gap is high and no osmolar gap was entered; a raised osmolar gap points to methanol or ethylene glycol"
+      );
+    } else if (osmolarGap.isElevated) {
+      recommend(
+        "toxic_alcohol_levels",
+        "urgent",
+        `An osmolar gap of ${osmolarGap.gap.toFixed(0)} mOsm/kg with a high anion gap suggests a toxic alcohol`
+      );
+    }
+    if (input.urea === undefined) {
+      recommend("urea_creatinine", "high", "Uraemia raises the anion gap once the GFR falls below about 20 mL/min");
+    }
+    if (unexplained && !osmolarGap?.isElevated) {
+      recommend(
+        "paracetamol_level",
+        "high",
+        "Normal lactate and ketones leave the anion gap unexplained; regular paracetamol can cause a pyroglutamic acidosis"
+      );
+    }
+  }
+
+  if (hasMetabolicAcidosis && anionGap && anionGap.status !== "high" && input.albumin === undefined) {
+    recommend("albumin", "high", "Each 10 g/L fall in albumin lowers the anion gap by about 2.5 mmol/L and can hide a high anion gap acidosis");
+  }
+
+  if (hasNAGMA) {
+    if (!urineAnionGap) {
+      recommend(
+        "urine_electrolytes",
+        "high",
+        "The urine anion gap separates GI bicarbonate loss (negative) from a renal acidification defect (positive)"
+      );
+    } else if (urineAnionGap.origin === "renal") {
+      recommend("urine_ph", "routine", "Urine pH above 5.5 during acidaemia points to a distal RTA; below 5.5 to a proximal or type 4 RTA");
+    }
+    if (input.K === undefined) {
+      recommend("potassium_magnesium", "high", "Hyperkalaemia suggests a type 4 RTA; hypokalaemia a distal or proximal RTA or diarrhoea");
+    }
+  }
+
+  if (hasMetabolicAlkalosis) {
+    if (input.urineCl === undefined) {
+      recommend(
+        "urine_chloride",
+        "high",
+        "Urine Cl⁻ below 20 mmol/L means a chloride (saline) responsive alkalosis; above 20 mmol/L a chloride-resistant one"
+      );
+    } else if (metabolicAlkalosis?.response === "chloride_resistant" && metabolicAlkalosis.isHypertensive) {
+      recommend(
+        "renin_aldosterone",
+        "high",
+        "A chloride-resistant alkalosis with hypertension: the renin and aldosterone pattern separates Conn's, renovascular disease and apparent mineralocorticoid excess"
+      );
+    }
+    if (input.K === undefined) {
+      recommend("potassium_magnesium", "high", "Hypokalaemia sustains the alkalosis, and magnesium must be replaced before potassium will correct");
+    }
+  }
+
+  if (hasRespiratoryAcidosis || hasRespiratoryAlkalosis) {
+    if (isVenous) {
+      recommend("arterial_gas", "high", "A venous pCO₂ only screens for hypercapnia; confirm the respiratory disorder and oxygenation on an arterial sample");
+    } else if (!oxygenation) {
+      recommend(
+        "oxygenation",
+        "routine",
+        hasRespiratoryAcidosis
+          ? "A normal A-a gradient points to hypoventilation, a raised one to lung disease"
+          : "Hypoxaemia is a common driver of hyperventilation"
+      );
+    }
+  }
+
+  if (
+    primaryDisorder === "respiratory_acidosis" &&
+    input.baselinePCO2 === undefined &&
+    (evidence.has("copd") || evidence.has("chronic_compensation"))
+  ) {
+    recommend(
+      "baseline_gas",
+      "routine",
+      "The patient's usual pCO₂ and HCO₃⁻ separate chronic from acute-on-chronic hypercapnia"
+    );
+  }
+
+  // The sort is stable, so tests of equal priority keep the order of the rules above
+  return tests.sort((a, b) => followUpPriorityOrder[a.priority] - followUpPriorityOrder[b.priority]);
+}
+
+// The gas the disorders were judged on: the arterial estimate, else the pH-stat corrected or measured values
+function getInterpretedGas(interpretation: BloodGasInterpretation): { pH?: number; pCO2?: number; HCO3?: number } {
+  const { input, arterialEstimate, temperatureCorrection } = interpretation;
+  if (arterialEstimate) {
+    return arterialEstimate;
+  }
+  return temperatureCorrection?.basis === "corrected" ? temperatureCorrection.corrected : input;
+}
+
+function isSevereAcidaemia(pH?: number, HCO3?: number): boolean {
+  const { severePH, severeHCO3 } = bicarbonateTherapyParameters;
+  return (pH !== undefined && pH < severePH) || (HCO3 !== undefined && HCO3 < severeHCO3);
+}
+
+export function isSevereMetabolicAcidosis(interpretation: BloodGasInterpretation): boolean {
+  const { pH, HCO3 } = getInterpretedGas(interpretation);
+  return hasDisorder(interpretation, "metabolic_acidosis") && isSevereAcidaemia(pH, HCO3);
+}
+
+export function assessBicarbonateTherapy(
+  interpretation: BloodGasInterpretation,
+  options: BicarbonateTherapyOptions
+): BicarbonateTherapyResult | null {
+  const { input, anionGap, deltaRatio, wintersFormula, diabeticEmergency, differential } = interpretation;
+  const { pH, pCO2, HCO3 } = getInterpretedGas(interpretation);
+  if (pH === undefined || pCO2 === undefined || HCO3 === undefined) {
+    return null;
+  }
+  if (!hasDisorder(interpretation, "metabolic_acidosis")) {
+    return null;
+  }
+
+  const parameters = bicarbonateTherapyParameters;
+  const { ranges } = getReferenceProfile(
+    interpretation.referenceProfileId,
+    interpretation.ageGroup,
+    interpretation.pregnancy?.trimester
+  );
+  const { weight } = options;
+  const targetHCO3 = options.targetHCO3 ?? parameters.defaultTargetHCO3;
+  const bicarbonateSpace = options.bicarbonateSpace ?? parameters.defaultBicarbonateSpace;
+  const infusionMinutes = options.infusionMinutes ?? parameters.defaultInfusionMinutes;
+  const isSevere = isSevereAcidaemia(pH, HCO3);
+
+  const deficit = Math.max(0, weight * bicarbonateSpace * (targetHCO3 - HCO3));
+  const initialDose = deficit * parameters.initialDoseFraction;
+  const co2Load = initialDose;
+  const co2Volume = co2Load * parameters.co2MlPerMmol;
+  const restingVCO2 = parameters.restingVCO2PerKg * weight;
+  // At fixed alveolar ventilation pCO2 rises in proportion to CO2 production
+  const pCO2Rise = pCO2 * (co2Volume / infusionMinutes) / restingVCO2;
+
+  const warnings: BicarbonateWarning[] = [];
+  const notes: string[] = [];
+  const evidence = new Set(differential.evidence);
+
+  if (deltaRatio?.status === "hagma_metabolic_alkalosis") {
+    warnings.push({
+      level: "contraindicated",
+      message: `Delta ratio ${deltaRatio.value.toFixed(1)} (> 2): a concurrent metabolic alkalosis is present, and bicarbonate adds to it`,
+    });
+  }
+  if (wintersFormula?.status === "inadequate" || hasDisorder(interpretation, "respiratory_acidosis")) {
+    warnings.push({
+      level: "contraindicated",
+      message: "Ventilation is already inadequate for the acidosis; the CO₂ released cannot be cleared and worsens intracellular acidosis unless ventilation is increased",
+    });
+  }
+
+  const isOrganicAcidosis =
+    anionGap?.status === "high" &&
+    deltaRatio?.status !== "pure_nagma_hagma" &&
+    deltaRatio?.status !== "mixed_nagma_hagma";
+  if (isOrganicAcidosis) {
+    const isDKA =
+      (diabeticEmergency !== undefined &&
+        diabeticEmergency.type !== "none" &&
+        diabeticEmergency.type !== "hhs") ||
+      evidence.has("ketones_high");
+    if (isDKA) {
+      warnings.push(
+        pH >= parameters.dkaPH
+          ? {
+            level: "contraindicated",
+            message: `Ketoacidosis with pH ≥ ${parameters.dkaPH}: insulin regenerates bicarbonate from the ketoanions, so bicarbonate is reserved for pH < ${parameters.dkaPH}`,
+          }
+          : {
+            level: "caution",
+            message: `Ketoacidosis with pH < ${parameters.dkaPH}: give cautiously, re-check K⁺ and stop once pH is above ${parameters.dkaPH}`,
+          }
+      );
+    }
+    if (evidence.has("lactate_high")) {
+      warnings.push(
+        pH >= parameters.lacticAcidosisPH
+          ? {
+            level: "contraindicated",
+            message: `Lactic acidosis with pH ≥ ${parameters.lacticAcidosisPH}: bicarbonate does not improve haemodynamics or outcome; treat the cause`,
+          }
+          : {
+            level: "caution",
+            message: `Lactic acidosis with pH < ${parameters.lacticAcidosisPH}: benefit is limited to patients with acute kidney injury`,
+          }
+      );
+    }
+    if (!isDKA && !evidence.has("lactate_high")) {
+      warnings.push({
+        level: "caution",
+        message: "High anion gap acidosis: organic anions (lactate, ketones) are metabolised back to bicarbonate once the cause is treated, so bicarbonate risks an overshoot alkalosis",
+      });
+    }
+  } else if (anionGap?.status === "normal") {
+    notes.push("Normal anion gap: bicarbonate has been lost rather than buffered, so it is not regenerated and replacement is reasonable");
+  } else if (anionGap?.status === "high") {
+    notes.push(
+      `Mixed HAGMA and NAGMA (delta ratio ${deltaRatio?.value.toFixed(1) ?? "< 0.8"}): only the bicarbonate lost in the normal anion gap part is not regenerated, so replace that part and treat the cause of the gap`
+    );
+  } else if (!anionGap) {
+    notes.push("Enter Na⁺ and Cl⁻: the anion gap and delta ratio decide whether the bicarbonate will be regenerated");
+  }
+
+  if (input.K !== undefined && input.K < ranges.K.low) {
+    warnings.push({
+      level: "caution",
+      message: `K⁺ ${input.K} mmol/L: bicarbonate shifts potassium into cells; replace it first`,
+    });
+  }
+  if (input.Ca !== undefined && input.Ca < ranges.Ca.low) {
+    warnings.push({
+      level: "caution",
+      message: `Ionised Ca²⁺ ${input.Ca} mmol/L falls further as the pH rises`,
+    });
+  }
+  if (input.Na !== undefined && input.Na > ranges.Na.high) {
+    warnings.push({
+      level: "caution",
+      message: `Na⁺ ${input.Na} mmol/L: 8.4% sodium bicarbonate is a hypertonic sodium load`,
+    });
+  }
+  if (!isSevere) {
+    warnings.push({
+      level: "caution",
+      message: `pH ≥ ${parameters.severePH} and HCO₃⁻ ≥ ${parameters.severeHCO3} mmol/L: not a severe acidosis, and bicarbonate is rarely indicated`,
+    });
+  }
+  warnings.sort((a, b) => (a.level === b.level ? 0 : a.level === "contraindicated" ? -1 : 1));
 
-    default:
-      return [];
+  if (deficit === 0) {
+    notes.push(`HCO₃⁻ ${HCO3} mmol/L is already at or above the target of ${targetHCO3} mmol/L`);
+  } else {
+    notes.push(
+      `Give ${(parameters.initialDoseFraction * 100).toFixed(0)}% of the deficit (${initialDose.toFixed(0)} mmol = ${initialDose.toFixed(0)} mL of 8.4% sodium bicarbonate), then re-check the gas`
+    );
+  }
+  if (HCO3 < parameters.severeHCO3) {
+    notes.push("The apparent bicarbonate space rises as HCO₃⁻ falls (about 0.4 + 2.6 / HCO₃⁻ L/kg), so the deficit may be underestimated");
   }
+  notes.push("The pCO₂ rise assumes every mmol is buffered to CO₂ during the infusion and minute ventilation cannot increase (e.g. fixed ventilator settings)");
+
+  return {
+    isSevere,
+    weight,
+    currentHCO3: HCO3,
+    targetHCO3,
+    bicarbonateSpace,
+    deficit,
+    initialDose,
+    deficitFormula: `Deficit = weight × space × (target − HCO₃⁻) = ${weight} × ${bicarbonateSpace} × (${targetHCO3} − ${HCO3}) = ${deficit.toFixed(0)} mmol`,
+    co2Load,
+    co2Volume,
+    infusionMinutes,
+    restingVCO2,
+    pCO2Rise,
+    expectedPCO2: pCO2 + pCO2Rise,
+    pCO2Formula: `pCO₂ rise = pCO₂ × (dose × ${parameters.co2MlPerMmol} / minutes) / VCO₂ = ${pCO2} × (${initialDose.toFixed(0)} × ${parameters.co2MlPerMmol} / ${infusionMinutes}) / ${restingVCO2.toFixed(0)} = ${pCO2Rise.toFixed(1)} mmHg`,
+    warnings,
+    notes,
+  };
 }
 
 export function getMnemonicForDisorder(
@@ -378,6 +2622,16 @@ export function formatDisorderName(disorder: PrimaryDisorder): string {
   return names[disorder];
 }
 
+export function formatChronicity(chronicity: Chronicity): string {
+  const names: Record<Chronicity, string> = {
+    acute: "Acute",
+    chronic: "Chronic",
+    acute_on_chronic: "Acute-on-chronic",
+    unknown: "Unknown",
+  };
+  return names[chronicity];
+}
+
 export function getDisorderColorClass(disorder: PrimaryDisorder): string {
   switch (disorder) {
     case "respiratory_acidosis":
@@ -391,43 +2645,75 @@ export function getDisorderColorClass(disorder: PrimaryDisorder): string {
   }
 }
 
-export function interpretBloodGas(
-  input: BloodGasInput
-): BloodGasInterpretation | null {
-  const { pH, pCO2, HCO3, Na, Cl, albumin, measuredOsmolality, glucose, urea, ethanol } =
-    input;
+function formatConcurrentDisorder(disorder: PrimaryDisorder): string {
+  return `Concurrent ${formatDisorderName(disorder).toLowerCase()}`;
+}
 
-  if (pH === undefined || pCO2 === undefined || HCO3 === undefined) {
-    return null;
+// Headline shared by the methods: the disorder, its anion gap, chronicity and any mixed-disorder caveat
+function summariseDisorder(params: {
+  primaryDisorder: PrimaryDisorder;
+  phStatus: pHStatus;
+  dominance?: DisorderDominance;
+  chronicity?: Chronicity;
+  anionGap?: AnionGapResult;
+  isMixed: boolean;
+}): string {
+  const { primaryDisorder, phStatus, dominance, chronicity, anionGap, isMixed } = params;
+
+  let summary = dominance?.isCombined
+    ? `Combined respiratory and metabolic ${phStatus === "acidaemia" ? "acidosis" : "alkalosis"}`
+    : `${formatDisorderName(primaryDisorder)}`;
+  if (
+    anionGap &&
+    (primaryDisorder === "metabolic_acidosis" || dominance?.coPrimary === "metabolic_acidosis")
+  ) {
+    summary += ` with ${anionGap.status === "high" ? "elevated" : anionGap.status === "normal" ? "normal" : "low"} anion gap`;
+  }
+  // Chronicity is judged from the metabolic value, which the metabolic component distorts in a combined disorder
+  if (!dominance?.isCombined && chronicity && chronicity !== "unknown") {
+    summary = `${formatChronicity(chronicity)} ${summary}`;
+  }
+  if (isMixed) {
+    summary =
+      primaryDisorder === "normal"
+        ? "Likely mixed disorder with normal pH"
+        : `Likely mixed disorder with normal pH: ${summary}`;
   }
+  return summary;
+}
 
-  const phStatus = determinepHStatus(pH);
-  const primaryDisorder = determinePrimaryDisorder(pH, pCO2, HCO3);
+// Boston: primary disorder from HCO3, compensation by Winters and the Boston rules, delta ratio for hidden disorders
+function assessBoston(context: InterpretationContext): MethodAssessment {
+  const { profile, pHStatus: phStatus, pH, pCO2, HCO3, anionGap, patientBaseline } = context;
+  const units = context.input.units;
+
+  const mixedDisorder = detectNormalPHMixedDisorder(pH, pCO2, HCO3, anionGap?.status, profile);
+  const dominance = mixedDisorder
+    ? undefined
+    : scoreDisorderDominance(pH, pCO2, HCO3, profile);
+  const primaryDisorder = mixedDisorder?.workingDisorder ?? dominance?.primary ?? "normal";
 
-  let anionGap: AnionGapResult | undefined;
-  let osmolarGap: OsmolarGapResult | undefined;
   let wintersFormula: WintersFormulaResult | undefined;
   let deltaRatio: DeltaRatioResult | undefined;
   let compensation: CompensationResult | undefined;
 
-  if (Na !== undefined && Cl !== undefined) {
-    anionGap = calculateAnionGap(Na, Cl, HCO3, albumin);
-  }
-
-  if (
-    measuredOsmolality !== undefined &&
-    Na !== undefined &&
-    glucose !== undefined &&
-    urea !== undefined
-  ) {
-    osmolarGap = calculateOsmolarGap(measuredOsmolality, Na, glucose, urea, ethanol);
-  }
+  const sbeCompensation = calculateCopenhagenCompensation(
+    primaryDisorder,
+    pCO2,
+    context.baseExcess.standardBaseExcess,
+    profile
+  );
 
   if (primaryDisorder === "metabolic_acidosis" && anionGap) {
-    wintersFormula = calculateWintersFormula(HCO3, pCO2);
+    wintersFormula = calculateWintersFormula(HCO3, pCO2, units, profile);
 
     if (anionGap.status === "high") {
-      deltaRatio = calculateDeltaRatio(anionGap.correctedValue, HCO3);
+      deltaRatio = calculateDeltaRatio(
+        anionGap.correctedValue,
+        context.measuredHCO3,
+        anionGap.normalValue,
+        getBaselineGas(profile).HCO3
+      );
     }
   } else if (primaryDisorder === "metabolic_alkalosis") {
     compensation = calculateMetabolicAlkalosisCompensation(HCO3, pCO2);
@@ -435,15 +2721,15 @@ export function interpretBloodGas(
     primaryDisorder === "respiratory_acidosis" ||
     primaryDisorder === "respiratory_alkalosis"
   ) {
-    compensation = calculateRespiratoryCompensation(primaryDisorder, pCO2, HCO3);
+    compensation = calculateRespiratoryCompensation(
+      primaryDisorder,
+      pCO2,
+      HCO3,
+      patientBaseline,
+      profile
+    );
   }
 
-  const causes = getCausesForDisorder(
-    primaryDisorder,
-    anionGap?.status,
-    compensation?.chronicity
-  );
-
   const secondaryDisorders: string[] = [];
   if (wintersFormula?.status === "excessive") {
     secondaryDisorders.push("Concurrent respiratory alkalosis");
@@ -475,19 +2761,1066 @@ export function interpretBloodGas(
     secondaryDisorders.push("Concurrent metabolic alkalosis");
   }
 
-  let summary = `${formatDisorderName(primaryDisorder)}`;
-  if (anionGap && primaryDisorder === "metabolic_acidosis") {
-    summary += ` with ${anionGap.status === "high" ? "elevated" : anionGap.status === "normal" ? "normal" : "low"} anion gap`;
+  // Make sure every disorder in the candidate pairs is reported when compensation does not explain them;
+  // a compensation finding on the opposite side takes precedence over the candidate pair
+  const oppositeDisorders: Partial<Record<PrimaryDisorder, PrimaryDisorder>> = {
+    respiratory_acidosis: "respiratory_alkalosis",
+    respiratory_alkalosis: "respiratory_acidosis",
+    metabolic_acidosis: "metabolic_alkalosis",
+    metabolic_alkalosis: "metabolic_acidosis",
+  };
+  // When the working disorder is appropriately compensated (against the patient's own baseline where given),
+  // the offsetting values are its compensation rather than a second disorder
+  const compensationExplainsPair =
+    (primaryDisorder === "metabolic_acidosis" ? wintersFormula?.status : compensation?.status) === "appropriate";
+  for (const candidate of compensationExplainsPair ? [] : mixedDisorder?.candidates ?? []) {
+    for (const disorder of candidate.disorders) {
+      const label = formatConcurrentDisorder(disorder);
+      const opposite = oppositeDisorders[disorder];
+      if (
+        disorder !== primaryDisorder &&
+        !secondaryDisorders.includes(label) &&
+        !(opposite && secondaryDisorders.includes(formatConcurrentDisorder(opposite)))
+      ) {
+        secondaryDisorders.push(label);
+      }
+    }
+  }
+
+  // A co-primary disorder is named in the summary rather than listed as a concurrent one
+  if (dominance?.coPrimary) {
+    const coPrimaryIndex = secondaryDisorders.indexOf(formatConcurrentDisorder(dominance.coPrimary));
+    if (coPrimaryIndex !== -1) {
+      secondaryDisorders.splice(coPrimaryIndex, 1);
+    }
+  }
+
+  return {
+    primaryDisorder,
+    dominance,
+    mixedDisorder,
+    wintersFormula,
+    deltaRatio,
+    compensation,
+    sbeCompensation,
+    secondaryDisorders,
+    summary: summariseDisorder({
+      primaryDisorder,
+      phStatus,
+      dominance,
+      chronicity: compensation?.chronicity,
+      anionGap,
+      isMixed: mixedDisorder !== undefined && !compensationExplainsPair,
+    }),
+  };
+}
+
+// Classifies by pCO2 and standard base excess, which unlike HCO3 does not move with pCO2 itself
+function classifyByStandardBaseExcess(context: InterpretationContext): {
+  primaryDisorder: PrimaryDisorder;
+  dominance?: DisorderDominance;
+  mixedDisorder?: MixedDisorderResult;
+  sbeCompensation?: CompensationResult;
+} {
+  const { profile, pHStatus: phStatus, pH, pCO2 } = context;
+  const SBE = context.baseExcess.standardBaseExcess;
+  const { pCO2: pCO2Range, standardBaseExcess: sbeRange } = profile.ranges;
+  const baseline = getBaselineGas(profile);
+  const deltaSBE = getSBEFromBaseline(SBE, baseline);
+
+  // SBE is the HCO3 change at a pCO2 of 40 mmHg, so the baseline HCO3 plus the SBE change is the metabolic part of HCO3
+  const metabolicHCO3 = Math.max(baseline.HCO3 + deltaSBE, 1);
+  const sbeProfile: ReferenceProfile = {
+    ...profile,
+    ranges: {
+      ...profile.ranges,
+      HCO3: { ...sbeRange, low: baseline.HCO3 + sbeRange.low, high: baseline.HCO3 + sbeRange.high },
+    },
+  };
+  const dominance = scoreDisorderDominance(pH, pCO2, metabolicHCO3, sbeProfile);
+
+  if (phStatus === "normal") {
+    let disorders: [PrimaryDisorder, PrimaryDisorder] | undefined;
+    if (pCO2 > pCO2Range.high && deltaSBE > sbeRange.high) {
+      disorders = ["respiratory_acidosis", "metabolic_alkalosis"];
+    } else if (pCO2 < pCO2Range.low && deltaSBE < sbeRange.low) {
+      disorders = ["metabolic_acidosis", "respiratory_alkalosis"];
+    }
+    if (!disorders) {
+      return { primaryDisorder: "normal", dominance };
+    }
+
+    // The pair is ordered acid side first
+    const workingDisorder = pH < baseline.pH ? disorders[0] : disorders[1];
+    const sbeCompensation = calculateCopenhagenCompensation(workingDisorder, pCO2, SBE, profile);
+    if (sbeCompensation?.status === "appropriate") {
+      return { primaryDisorder: workingDisorder, sbeCompensation };
+    }
+    return {
+      primaryDisorder: workingDisorder,
+      mixedDisorder: {
+        candidates: [
+          {
+            disorders,
+            description: `pCO₂ (${pCO2}) and SBE (${SBE.toFixed(1)}) offsetting each other beyond the SBE compensation rules`,
+          },
+        ],
+        workingDisorder,
+        explanation: `pH is normal but pCO₂ and SBE are both abnormal and outside the expected compensation; pH ${pH.toFixed(2)} is on the ${pH < baseline.pH ? "acid" : "alkaline"} side of ${baseline.pH.toFixed(2)}, so compensation is assessed against ${formatDisorderName(workingDisorder).toLowerCase()}.`,
+      },
+      sbeCompensation,
+    };
+  }
+
+  return {
+    primaryDisorder: dominance.primary,
+    dominance,
+    sbeCompensation: calculateCopenhagenCompensation(dominance.primary, pCO2, SBE, profile),
+  };
+}
+
+// Copenhagen: metabolic component from SBE, compensation by the SBE rules
+function assessCopenhagen(context: InterpretationContext): MethodAssessment {
+  const { primaryDisorder, dominance, mixedDisorder, sbeCompensation } =
+    classifyByStandardBaseExcess(context);
+
+  const secondaryDisorders: string[] = [];
+  const implied = sbeCompensation
+    ? concurrentDisorderForCompensation[primaryDisorder]?.[sbeCompensation.status]
+    : undefined;
+  if (implied && implied !== dominance?.coPrimary) {
+    secondaryDisorders.push(formatConcurrentDisorder(implied));
+  }
+  for (const candidate of mixedDisorder?.candidates ?? []) {
+    for (const disorder of candidate.disorders) {
+      const label = formatConcurrentDisorder(disorder);
+      if (disorder !== primaryDisorder && !secondaryDisorders.includes(label)) {
+        secondaryDisorders.push(label);
+      }
+    }
+  }
+
+  return {
+    primaryDisorder,
+    dominance,
+    mixedDisorder,
+    sbeCompensation,
+    secondaryDisorders,
+    summary: summariseDisorder({
+      primaryDisorder,
+      phStatus: context.pHStatus,
+      dominance,
+      chronicity: sbeCompensation?.chronicity,
+      anionGap: context.anionGap,
+      isMixed: mixedDisorder !== undefined,
+    }),
+  };
+}
+
+// Splits the metabolic picture into the independent strong ion, weak acid and unmeasured anion effects
+function identifyStrongIonComponents(
+  input: BloodGasInput,
+  stewart: StewartResult,
+  profile: ReferenceProfile
+): StrongIonComponent[] {
+  const { Na, Cl, albumin, phosphate } = input;
+  const { ranges } = profile;
+  const lactate = input.lactate ?? 0;
+  const components: StrongIonComponent[] = [];
+
+  // Lactate is reported on its own, so judge the inorganic strong ions without it
+  const inorganicSID = stewart.SIDa + lactate;
+  const sidFinding = `SIDa without lactate ${inorganicSID.toFixed(1)} mEq/L (${ranges.SIDa.low}-${ranges.SIDa.high})`;
+  if (inorganicSID < ranges.SIDa.low) {
+    components.push({
+      label:
+        Cl !== undefined && Cl > ranges.Cl.high
+          ? "Hyperchloraemic acidosis"
+          : Na !== undefined && Na < ranges.Na.low
+            ? "Dilutional acidosis"
+            : "Strong ion acidosis",
+      effect: "acidifying",
+      finding: sidFinding,
+    });
+  } else if (inorganicSID > ranges.SIDa.high) {
+    components.push({
+      label:
+        Cl !== undefined && Cl < ranges.Cl.low
+          ? "Hypochloraemic alkalosis"
+          : Na !== undefined && Na > ranges.Na.high
+            ? "Contraction alkalosis"
+            : "Strong ion alkalosis",
+      effect: "alkalinising",
+      finding: sidFinding,
+    });
+  }
+
+  if (lactate > ranges.lactate.high) {
+    components.push({
+      label: "Lactic acidosis",
+      effect: "acidifying",
+      finding: `Lactate ${lactate} mmol/L (> ${ranges.lactate.high})`,
+    });
+  }
+
+  if (stewart.sigStatus === "elevated") {
+    components.push({
+      label: "Unmeasured anion acidosis",
+      effect: "acidifying",
+      finding: `SIG ${stewart.SIG.toFixed(1)} mEq/L (> ${ranges.SIG.high})`,
+    });
+  }
+
+  if (albumin !== undefined && albumin < ranges.albumin.low) {
+    components.push({
+      label: "Hypoalbuminaemic alkalosis",
+      effect: "alkalinising",
+      finding: `Albumin ${albumin} g/dL (< ${ranges.albumin.low})`,
+    });
+  } else if (albumin !== undefined && albumin > ranges.albumin.high) {
+    components.push({
+      label: "Hyperalbuminaemic acidosis",
+      effect: "acidifying",
+      finding: `Albumin ${albumin} g/dL (> ${ranges.albumin.high})`,
+    });
+  }
+
+  if (phosphate !== undefined && phosphate > ranges.phosphate.high) {
+    components.push({
+      label: "Hyperphosphataemic acidosis",
+      effect: "acidifying",
+      finding: `Phosphate ${phosphate} mmol/L (> ${ranges.phosphate.high})`,
+    });
+  }
+
+  return components;
+}
+
+// Stewart: the SBE says how large the metabolic disturbance is, the strong ions say what it is made of
+function assessStewart(context: InterpretationContext): MethodAssessment | undefined {
+  const { stewart } = context;
+  if (!stewart) {
+    return undefined;
+  }
+
+  const strongIonComponents = identifyStrongIonComponents(context.input, stewart, context.profile);
+  const { primaryDisorder, dominance, mixedDisorder, sbeCompensation } =
+    classifyByStandardBaseExcess(context);
+
+  const isMetabolic = (disorder?: PrimaryDisorder) =>
+    disorder === "metabolic_acidosis" || disorder === "metabolic_alkalosis";
+  const effectOf = (disorder: PrimaryDisorder): StrongIonComponent["effect"] =>
+    disorder.endsWith("acidosis") ? "acidifying" : "alkalinising";
+  const metabolicDisorder = isMetabolic(primaryDisorder)
+    ? primaryDisorder
+    : isMetabolic(dominance?.coPrimary)
+      ? dominance?.coPrimary
+      : undefined;
+
+  // Components pulling the way the metabolic disorder (or settled chronic compensation) already goes explain it
+  let explainedEffect: StrongIonComponent["effect"] | undefined;
+  let explanation = "";
+  if (metabolicDisorder) {
+    explainedEffect = effectOf(metabolicDisorder);
+  } else if (
+    (primaryDisorder === "respiratory_acidosis" || primaryDisorder === "respiratory_alkalosis") &&
+    sbeCompensation?.status === "appropriate" &&
+    sbeCompensation.chronicity === "chronic"
+  ) {
+    // Metabolic compensation pulls opposite to the respiratory disorder
+    explainedEffect = effectOf(primaryDisorder) === "acidifying" ? "alkalinising" : "acidifying";
+  }
+  const explaining = strongIonComponents.filter((component) => component.effect === explainedEffect);
+  if (explaining.length > 0) {
+    const labels = explaining.map((component) => component.label.toLowerCase()).join(" and ");
+    explanation = metabolicDisorder ? ` from ${labels}` : ` compensated by ${labels}`;
+  }
+
+  const secondaryDisorders: string[] = strongIonComponents
+    .filter((component) => component.effect !== explainedEffect)
+    .map((component) => `Concurrent ${component.label.toLowerCase()}`);
+  const reportsEffect = (effect: StrongIonComponent["effect"]) =>
+    strongIonComponents.some((component) => component.effect === effect);
+
+  // A concurrent disorder without a strong ion component to show for it is still reported by name
+  const implied = sbeCompensation
+    ? concurrentDisorderForCompensation[primaryDisorder]?.[sbeCompensation.status]
+    : undefined;
+  const candidates = (mixedDisorder?.candidates ?? []).flatMap((candidate) => candidate.disorders);
+  for (const disorder of implied ? [implied, ...candidates] : candidates) {
+    const label = formatConcurrentDisorder(disorder);
+    if (
+      disorder !== primaryDisorder &&
+      disorder !== dominance?.coPrimary &&
+      !(isMetabolic(disorder) && reportsEffect(effectOf(disorder))) &&
+      !secondaryDisorders.includes(label)
+    ) {
+      secondaryDisorders.push(label);
+    }
+  }
+
+  return {
+    primaryDisorder,
+    dominance,
+    mixedDisorder,
+    sbeCompensation,
+    strongIonComponents,
+    secondaryDisorders,
+    summary:
+      summariseDisorder({
+        primaryDisorder,
+        phStatus: context.pHStatus,
+        dominance,
+        chronicity: sbeCompensation?.chronicity,
+        isMixed: mixedDisorder !== undefined,
+      }) + explanation,
+  };
+}
+
+const interpretationStrategies: Record<
+  InterpretationMethod,
+  (context: InterpretationContext) => MethodAssessment | undefined
+> = {
+  boston: assessBoston,
+  copenhagen: assessCopenhagen,
+  stewart: assessStewart,
+};
+
+export function getAvailableInterpretationMethods(input: BloodGasInput): InterpretationMethod[] {
+  const { Na, K, Cl, Ca, Mg, albumin, phosphate } = input;
+  const hasStrongIons = [Na, K, Cl, Ca, Mg, albumin, phosphate].every((value) => value !== undefined);
+  return interpretationMethods.filter((method) => method !== "stewart" || hasStrongIons);
+}
+
+// Runs every method on the same gas and lists the conclusions they disagree on
+export function compareInterpretationMethods(
+  input: BloodGasInput,
+  options: InterpretationOptions = {}
+): MethodComparison | null {
+  if (input.pH === undefined || input.pCO2 === undefined || input.HCO3 === undefined) {
+    return null;
+  }
+
+  const available = getAvailableInterpretationMethods(input);
+  const conclusions: MethodConclusion[] = interpretationMethods.map((method) => {
+    const interpretation = available.includes(method)
+      ? interpretBloodGas(input, { ...options, method })
+      : null;
+    if (!interpretation) {
+      const { requires } = interpretationMethodDetails[method];
+      return {
+        method,
+        available: false,
+        unavailableReason: requires ? `Needs ${requires}` : undefined,
+        secondaryDisorders: [],
+      };
+    }
+    return {
+      method,
+      available: true,
+      primaryDisorder: interpretation.primaryDisorder,
+      chronicity: (interpretation.compensation ?? interpretation.sbeCompensation)?.chronicity,
+      secondaryDisorders: interpretation.secondaryDisorders,
+      summary: interpretation.summary,
+    };
+  });
+
+  const compared = conclusions.filter((conclusion) => conclusion.available);
+  const differences: MethodDifference[] = [];
+  const addIfDifferent = (
+    aspect: MethodDifference["aspect"],
+    title: string,
+    findingOf: (conclusion: MethodConclusion) => string | undefined
+  ) => {
+    const findings = compared.map((conclusion) => findingOf(conclusion));
+    if (new Set(findings).size > 1) {
+      differences.push({
+        aspect,
+        description: `${title}: ${compared
+          .map((conclusion, index) => `${findings[index] ?? "not assessed"} (${interpretationMethodDetails[conclusion.method].label})`)
+          .join(" vs ")}`,
+        findings: Object.fromEntries(
+          compared
+            .map((conclusion, index) => [conclusion.method, findings[index]])
+            .filter(([, finding]) => finding !== undefined)
+        ),
+      });
+    }
+  };
+
+  addIfDifferent("primary_disorder", "Primary disorder", (conclusion) =>
+    conclusion.primaryDisorder ? formatDisorderName(conclusion.primaryDisorder) : undefined
+  );
+  // Chronicity only means the same thing when the methods agree on the disorder it describes
+  if (differences.length === 0) {
+    addIfDifferent("chronicity", "Chronicity", (conclusion) =>
+      conclusion.chronicity && conclusion.chronicity !== "unknown"
+        ? formatChronicity(conclusion.chronicity)
+        : undefined
+    );
+  }
+
+  const labels = Array.from(new Set(compared.flatMap((conclusion) => conclusion.secondaryDisorders)));
+  for (const label of labels) {
+    const reporting = compared.filter((conclusion) => conclusion.secondaryDisorders.includes(label));
+    if (reporting.length < compared.length) {
+      differences.push({
+        aspect: "concurrent_disorder",
+        description: `${label}: only ${reporting
+          .map((conclusion) => interpretationMethodDetails[conclusion.method].label)
+          .join(" and ")}`,
+        findings: Object.fromEntries(reporting.map((conclusion) => [conclusion.method, label])),
+      });
+    }
+  }
+
+  return {
+    conclusions,
+    differences,
+    agree: differences.length === 0,
+  };
+}
+
+// Replays the decisions behind an interpretation as an ordered, machine-readable trace
+function buildReasoningTrace(
+  interpretation: Omit<BloodGasInterpretation, "differential" | "trace">,
+  values: { pH: number; pCO2: number; HCO3: number },
+  profile: ReferenceProfile
+): ReasoningStep[] {
+  const { input, secondaryDisorders } = interpretation;
+  const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+  // Optional input fields are only listed when they were given
+  const defined = (record: Record<string, number | string | undefined>) =>
+    Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value !== undefined)
+    ) as Record<string, number | string>;
+  // Only name a conclusion that actually made it into the report
+  const reported = (label: string) => (secondaryDisorders.includes(label) ? label : undefined);
+  const concurrent = (disorder: PrimaryDisorder) =>
+    reported(`Concurrent ${formatDisorderName(disorder).toLowerCase()}`);
+  const trace: ReasoningStep[] = [];
+
+  const { consistency } = interpretation;
+  trace.push({
+    id: "consistency",
+    title: "Internal consistency",
+    inputs: defined({ pH: input.pH, pCO2: input.pCO2, HCO3: input.HCO3 }),
+    rule: consistency.formula,
+    threshold: {
+      low: -consistency.tolerance,
+      high: consistency.tolerance,
+      description: "Measured minus expected pH",
+    },
+    outcome: consistency.isConsistent ? "consistent" : "inconsistent",
+    reference: reasoningReferences.hendersonHasselbalch,
+  });
+
+  const { temperatureCorrection } = interpretation;
+  if (temperatureCorrection) {
+    trace.push({
+      id: "temperature_correction",
+      title: "Temperature correction",
+      inputs: {
+        temperature: temperatureCorrection.temperature,
+        strategy: temperatureCorrection.strategy,
+        correctedPH: temperatureCorrection.corrected.pH,
+        correctedPCO2: temperatureCorrection.corrected.pCO2,
+      },
+      rule: "Alpha-stat interprets the 37 °C values; pH-stat interprets the values corrected to patient temperature",
+      outcome: temperatureCorrection.basis,
+    });
+  }
+
+  const { arterialEstimate } = interpretation;
+  if (arterialEstimate) {
+    trace.push({
+      id: "arterial_estimate",
+      title: "Arterial estimate",
+      inputs: { sampleType: interpretation.sampleType },
+      rule: `Typical ${sampleTypeOffsets[interpretation.sampleType].label.toLowerCase()}-minus-arterial differences subtracted: pH ${arterialEstimate.pH.toFixed(2)}, pCO₂ ${arterialEstimate.pCO2.toFixed(1)} mmHg, HCO₃⁻ ${arterialEstimate.HCO3.toFixed(1)} mmol/L`,
+      outcome: "estimated",
+    });
+  }
+
+  const { pH: pHRange, pCO2: pCO2Range, HCO3: HCO3Range } = profile.ranges;
+  trace.push({
+    id: "ph_status",
+    title: "pH status",
+    inputs: { pH: values.pH },
+    rule: "pH below the reference range is acidaemia, above it alkalaemia",
+    threshold: { low: pHRange.low, high: pHRange.high },
+    outcome: interpretation.pHStatus,
+    reference: reasoningReferences.referenceProfile,
+  });
+
+  const { mixedDisorder, dominance, baseExcess } = interpretation;
+  // Copenhagen and Stewart take the metabolic component from the standard base excess
+  const usesBaseExcess = interpretation.method !== "boston";
+  const sbeRange = profile.ranges.standardBaseExcess;
+  const rangeDescription = usesBaseExcess
+    ? `pCO₂ ${pCO2Range.low}-${pCO2Range.high} mmHg; SBE ${sbeRange.low} to ${sbeRange.high} mmol/L`
+    : `pCO₂ ${pCO2Range.low}-${pCO2Range.high} mmHg; HCO₃⁻ ${HCO3Range.low}-${HCO3Range.high} mmol/L`;
+  if (mixedDisorder) {
+    const conclusions = mixedDisorder.candidates
+      .flatMap((candidate) => candidate.disorders)
+      .map(concurrent)
+      .filter((label): label is string => label !== undefined);
+    trace.push({
+      id: "mixed_normal_ph",
+      title: "Mixed disorder with normal pH",
+      inputs: { pH: values.pH, pCO2: values.pCO2, HCO3: values.HCO3 },
+      rule: mixedDisorder.explanation,
+      threshold: { description: rangeDescription },
+      outcome: mixedDisorder.workingDisorder ?? "normal",
+      conclusion: conclusions.length > 0 ? Array.from(new Set(conclusions)).join("; ") : undefined,
+      reference: usesBaseExcess ? reasoningReferences.copenhagen : reasoningReferences.bostonRules,
+    });
+  } else if (dominance) {
+    trace.push({
+      id: "primary_disorder",
+      title: "Primary disorder",
+      inputs: defined({
+        pH: values.pH,
+        pCO2: values.pCO2,
+        HCO3: usesBaseExcess ? undefined : values.HCO3,
+        SBE: usesBaseExcess && baseExcess ? round(baseExcess.standardBaseExcess) : undefined,
+        respiratoryScore: round(dominance.respiratoryScore, 3),
+        metabolicScore: round(dominance.metabolicScore, 3),
+        confidence: dominance.confidence,
+      }),
+      rule: usesBaseExcess
+        ? "The component outside its range in the direction of the pH change is primary, with SBE as the metabolic component; if both are, the larger Henderson–Hasselbalch contribution dominates"
+        : "The component outside its range in the direction of the pH change is primary; if both are, the larger Henderson–Hasselbalch contribution dominates",
+      threshold: { description: rangeDescription },
+      outcome: dominance.primary,
+      conclusion: dominance.coPrimary
+        ? `Co-primary ${formatDisorderName(dominance.coPrimary).toLowerCase()}`
+        : undefined,
+      reference: usesBaseExcess ? reasoningReferences.copenhagen : reasoningReferences.bostonRules,
+    });
+  }
+
+  const { anionGap } = interpretation;
+  if (anionGap) {
+    trace.push({
+      id: "anion_gap",
+      title: "Anion gap",
+      inputs: defined({
+        Na: input.Na,
+        Cl: input.Cl,
+        HCO3: input.HCO3,
+        K: anionGap.includesPotassium ? input.K : undefined,
+        albumin: input.albumin,
+        correctedAG: round(anionGap.correctedValue),
+      }),
+      rule: anionGap.correctionFormula
+        ? `${anionGap.formula}; ${anionGap.correctionFormula}`
+        : anionGap.formula,
+      threshold: {
+        low: profile.anionGap.lowCutoff + (anionGap.normalValue - profile.anionGap.normal),
+        high: anionGap.normalValue + profile.anionGap.tolerance,
+        unit: "mmol/L",
+      },
+      outcome: anionGap.status,
+      reference: anionGap.correctionFormula
+        ? reasoningReferences.albuminCorrection
+        : reasoningReferences.referenceProfile,
+    });
+  }
+
+  const { stewart, strongIonComponents } = interpretation;
+  if (stewart && strongIonComponents) {
+    trace.push({
+      id: "strong_ion_components",
+      title: "Strong ion components",
+      inputs: defined({
+        SIDa: round(stewart.SIDa),
+        SIG: round(stewart.SIG),
+        Cl: input.Cl,
+        lactate: input.lactate,
+        albumin: input.albumin,
+        phosphate: input.phosphate,
+      }),
+      rule: `${stewart.sidaFormula}; ${stewart.sigFormula}`,
+      threshold: {
+        description: `SIDa ${profile.ranges.SIDa.low}-${profile.ranges.SIDa.high} mEq/L; SIG ${profile.ranges.SIG.low} to ${profile.ranges.SIG.high} mEq/L; albumin and phosphate against their reference ranges`,
+      },
+      outcome: strongIonComponents.length > 0
+        ? strongIonComponents.map((component) => component.label).join("; ")
+        : "none",
+      conclusion: strongIonComponents
+        .map((component) => reported(`Concurrent ${component.label.toLowerCase()}`))
+        .filter((label): label is string => label !== undefined)
+        .join("; ") || undefined,
+      reference: reasoningReferences.stewart,
+    });
+  }
+
+  const { wintersFormula } = interpretation;
+  if (wintersFormula) {
+    trace.push({
+      id: "winters",
+      title: "Respiratory compensation (Winters)",
+      inputs: { HCO3: values.HCO3, pCO2: wintersFormula.actualPCO2 },
+      rule: wintersFormula.formula,
+      threshold: {
+        low: round(wintersFormula.expectedPCO2Low),
+        high: round(wintersFormula.expectedPCO2High),
+        unit: "mmHg",
+      },
+      outcome: wintersFormula.status,
+      conclusion:
+        wintersFormula.status === "excessive"
+          ? concurrent("respiratory_alkalosis")
+          : wintersFormula.status === "inadequate"
+            ? concurrent("respiratory_acidosis")
+            : undefined,
+      reference: reasoningReferences.winters,
+    });
+  }
+
+  const { deltaRatio } = interpretation;
+  if (deltaRatio && anionGap) {
+    trace.push({
+      id: "delta_ratio",
+      title: "Delta ratio",
+      inputs: defined({
+        correctedAG: round(anionGap.correctedValue),
+        normalAG: anionGap.normalValue,
+        HCO3: input.HCO3,
+        deltaRatio: round(deltaRatio.value, 2),
+      }),
+      rule: deltaRatio.formula,
+      threshold: {
+        low: 0.8,
+        high: 2.0,
+        description: "< 0.4 pure NAGMA, 0.4-0.8 mixed NAGMA and HAGMA, 0.8-2.0 pure HAGMA, > 2.0 HAGMA with metabolic alkalosis",
+      },
+      outcome: deltaRatio.status,
+      conclusion:
+        deltaRatio.status === "pure_nagma_hagma" || deltaRatio.status === "mixed_nagma_hagma"
+          ? reported("Mixed HAGMA and NAGMA")
+          : deltaRatio.status === "hagma_metabolic_alkalosis"
+            ? concurrent("metabolic_alkalosis")
+            : undefined,
+      reference: reasoningReferences.deltaRatio,
+    });
+  }
+
+  const { compensation, primaryDisorder } = interpretation;
+  if (compensation) {
+    const impliedDisorder = concurrentDisorderForCompensation[primaryDisorder]?.[compensation.status];
+    const isMetabolicAlkalosis = primaryDisorder === "metabolic_alkalosis";
+    trace.push({
+      id: "compensation",
+      title: isMetabolicAlkalosis ? "Respiratory compensation" : "Metabolic compensation",
+      inputs: defined({
+        disorder: primaryDisorder,
+        pCO2: values.pCO2,
+        HCO3: values.HCO3,
+        expected: compensation.expectedChange,
+        actual: compensation.actualChange,
+        baselinePCO2: input.baselinePCO2,
+        baselineHCO3: input.baselineHCO3,
+      }),
+      rule: compensation.rule,
+      threshold: {
+        description: isMetabolicAlkalosis
+          ? "Expected pCO₂ ± 5 mmHg"
+          : "Expected HCO₃⁻ change ± 2 mmol/L",
+      },
+      outcome: compensation.status,
+      conclusion: impliedDisorder ? concurrent(impliedDisorder) : undefined,
+      reference: isMetabolicAlkalosis
+        ? reasoningReferences.metabolicAlkalosisCompensation
+        : reasoningReferences.bostonRules,
+    });
+    if (compensation.chronicity !== "unknown") {
+      trace.push({
+        id: "chronicity",
+        title: "Chronicity",
+        inputs: { expected: compensation.expectedChange, actual: compensation.actualChange },
+        rule: compensation.rule,
+        outcome: compensation.chronicity,
+        reference: reasoningReferences.bostonRules,
+      });
+    }
+  }
+
+  const { sbeCompensation } = interpretation;
+  if (baseExcess && sbeCompensation) {
+    const impliedDisorder = concurrentDisorderForCompensation[primaryDisorder]?.[sbeCompensation.status];
+    trace.push({
+      id: "sbe_compensation",
+      title: "Compensation (standard base excess)",
+      inputs: { SBE: round(baseExcess.standardBaseExcess), pCO2: values.pCO2 },
+      rule: sbeCompensation.rule,
+      outcome: sbeCompensation.status,
+      // Boston reports its own compensation findings; the SBE check only decides for the other methods
+      conclusion: usesBaseExcess && impliedDisorder ? concurrent(impliedDisorder) : undefined,
+      reference: reasoningReferences.copenhagen,
+    });
+    if (usesBaseExcess && sbeCompensation.chronicity !== "unknown") {
+      trace.push({
+        id: "chronicity",
+        title: "Chronicity",
+        inputs: { expected: sbeCompensation.expectedChange, actual: sbeCompensation.actualChange },
+        rule: sbeCompensation.rule,
+        outcome: sbeCompensation.chronicity,
+        reference: reasoningReferences.copenhagen,
+      });
+    }
+  }
+
+  const { osmolarGap } = interpretation;
+  if (osmolarGap) {
+    trace.push({
+      id: "osmolar_gap",
+      title: "Osmolar gap",
+      inputs: {
+        measuredOsmolality: osmolarGap.measuredOsmolality,
+        calculatedOsmolality: round(osmolarGap.calculatedOsmolality),
+        gap: round(osmolarGap.gap),
+      },
+      rule: osmolarGap.formula,
+      threshold: { high: profile.ranges.osmolarGap.high, unit: "mOsm/kg" },
+      outcome: osmolarGap.isElevated ? "elevated" : "normal",
+      reference: reasoningReferences.osmolarGap,
+    });
+  }
+
+  const { urineAnionGap } = interpretation;
+  if (urineAnionGap) {
+    trace.push({
+      id: "urine_anion_gap",
+      title: "Urine anion gap",
+      inputs: { urineAnionGap: round(urineAnionGap.urineAnionGap) },
+      rule: urineAnionGap.formula,
+      threshold: { high: 0, unit: "mmol/L", description: "Negative suggests GI loss, positive a renal cause" },
+      outcome: urineAnionGap.origin,
+      reference: reasoningReferences.urineAnionGap,
+    });
+  }
+
+  const { pregnancy } = interpretation;
+  if (pregnancy) {
+    trace.push({
+      id: "pregnancy",
+      title: "Pregnancy baseline",
+      inputs: {
+        trimester: pregnancy.trimester,
+        baselinePCO2: pregnancy.baselinePCO2,
+        baselineHCO3: pregnancy.baselineHCO3,
+        pCO2: values.pCO2,
+      },
+      rule: "pCO₂ above the trimester range but within the non-pregnant range is relative hypercapnia",
+      threshold: { high: pCO2Range.high, unit: "mmHg" },
+      outcome: pregnancy.relativeHypercapnia ? "relative_hypercapnia" : "not_hypercapnic",
+      conclusion: reported("Relative hypercapnia for pregnancy"),
+      reference: reasoningReferences.referenceProfile,
+    });
+  }
+
+  trace.push({
+    id: "summary",
+    title: "Summary",
+    inputs: {
+      primaryDisorder,
+      secondaryDisorders: secondaryDisorders.join("; "),
+    },
+    rule: `Primary disorder, ${interpretation.method === "stewart" ? "strong ion components" : "anion gap"}, chronicity and reported concurrent disorders combined (${interpretationMethodDetails[interpretation.method].label} method)`,
+    outcome: primaryDisorder,
+    conclusion: interpretation.summary,
+  });
+
+  return trace;
+}
+
+export function interpretBloodGas(
+  input: BloodGasInput,
+  options: InterpretationOptions = {}
+): BloodGasInterpretation | null {
+  const {
+    pH,
+    pCO2,
+    HCO3,
+    Na,
+    Cl,
+    albumin,
+    measuredOsmolality,
+    glucose,
+    urea,
+    ethanol,
+    ketones,
+    urineNa,
+    urineK,
+    urineCl,
+    urineUrea,
+    urineGlucose,
+    urineOsmolality,
+    systolicBP,
+    diastolicBP,
+    volumeStatus,
+    K,
+    Ca,
+    Mg,
+    lactate,
+    phosphate,
+    haemoglobin,
+    units,
+    pO2,
+    FiO2,
+    barometricPressure,
+    age,
+  } = input;
+
+  if (pH === undefined || pCO2 === undefined || HCO3 === undefined) {
+    return null;
+  }
+
+  const consistency = checkInternalConsistency(
+    pH,
+    pCO2,
+    HCO3,
+    options.consistencyTolerance
+  );
+
+  const temperatureCorrection =
+    input.temperature !== undefined
+      ? calculateTemperatureCorrection({
+        pH,
+        pCO2,
+        pO2,
+        temperature: input.temperature,
+        strategy: input.temperatureStrategy,
+      })
+      : undefined;
+  // pH-stat interprets the values at patient temperature; alpha-stat keeps the 37 °C values
+  const basis =
+    temperatureCorrection?.basis === "corrected" ? temperatureCorrection.corrected : { pH, pCO2, pO2, HCO3 };
+
+  const ageGroup = determineAgeGroup(age, input.gestationalAge, input.ageGroup);
+  const profile = getReferenceProfile(
+    options.profile,
+    ageGroup,
+    determineTrimester(input.pregnant, input.trimester)
+  );
+  const sampleType = input.sampleType ?? "arterial";
+  const sampleLimitations = getSampleLimitations(sampleType, input);
+  const arterialEstimate =
+    sampleType === "venous" || sampleType === "mixed_venous"
+      ? estimateArterialValues(sampleType, basis.pH, basis.pCO2, basis.HCO3)
+      : undefined;
+  const aPH = arterialEstimate?.pH ?? basis.pH;
+  const aPCO2 = arterialEstimate?.pCO2 ?? basis.pCO2;
+  const aHCO3 = arterialEstimate?.HCO3 ?? basis.HCO3;
+
+  let anionGap: AnionGapResult | undefined;
+  if (Na !== undefined && Cl !== undefined) {
+    anionGap = calculateAnionGap(Na, Cl, HCO3, albumin, units, profile, K);
+  }
+
+  const electrolytes =
+    K !== undefined ||
+    Ca !== undefined ||
+    Mg !== undefined ||
+    lactate !== undefined ||
+    phosphate !== undefined
+      ? assessElectrolytes({ pH: aPH, K, Ca, Mg, lactate, phosphate, anionGap }, profile)
+      : undefined;
+
+  const phStatus = determinepHStatus(aPH, profile);
+
+  const patientBaseline =
+    input.baselinePCO2 !== undefined && input.baselineHCO3 !== undefined
+      ? { pCO2: input.baselinePCO2, HCO3: input.baselineHCO3 }
+      : undefined;
+
+  let osmolarGap: OsmolarGapResult | undefined;
+  let stewart: StewartResult | undefined;
+  let oxygenation: OxygenationResult | undefined;
+
+  const baseExcess = calculateBaseExcess(aPH, aPCO2, haemoglobin);
+
+  if (
+    Na !== undefined &&
+    Cl !== undefined &&
+    K !== undefined &&
+    Ca !== undefined &&
+    Mg !== undefined &&
+    albumin !== undefined &&
+    phosphate !== undefined
+  ) {
+    stewart = calculateStewart(
+      { pH: aPH, HCO3: aHCO3, Na, K, Ca, Mg, Cl, albumin, phosphate, lactate },
+      profile
+    );
+  }
+
+  const method = options.method ?? defaultInterpretationMethod;
+  const assessment = interpretationStrategies[method]({
+    input,
+    profile,
+    pHStatus: phStatus,
+    pH: aPH,
+    pCO2: aPCO2,
+    HCO3: aHCO3,
+    measuredHCO3: HCO3,
+    anionGap,
+    baseExcess,
+    stewart,
+    patientBaseline,
+  });
+  if (!assessment) {
+    return null;
+  }
+  const {
+    primaryDisorder,
+    dominance,
+    mixedDisorder,
+    wintersFormula,
+    deltaRatio,
+    compensation,
+    sbeCompensation,
+    strongIonComponents,
+    secondaryDisorders,
+  } = assessment;
+
+  if (
+    pO2 !== undefined &&
+    FiO2 !== undefined &&
+    sampleType !== "venous" &&
+    sampleType !== "mixed_venous"
+  ) {
+    oxygenation = calculateOxygenation(basis.pO2 ?? pO2, FiO2, basis.pCO2, barometricPressure, age);
+  }
+
+  if (
+    measuredOsmolality !== undefined &&
+    Na !== undefined &&
+    glucose !== undefined &&
+    urea !== undefined
+  ) {
+    osmolarGap = calculateOsmolarGap(
+      measuredOsmolality,
+      Na,
+      glucose,
+      urea,
+      ethanol,
+      units,
+      profile,
+      options.ethanolCoefficient
+    );
+  }
+
+  // A measured osmolality is usually only sent when a toxic alcohol is already suspected
+  let toxicAlcoholResult: ToxicAlcoholResult | undefined;
+  if (osmolarGap && (osmolarGap.isElevated || anionGap?.status === "high")) {
+    toxicAlcoholResult = estimateToxicAlcohols(
+      {
+        osmolarGap,
+        anionGap,
+        pH: aPH,
+        HCO3,
+        ethanolCoefficient: options.ethanolCoefficient,
+      },
+      profile
+    );
+  }
+
+  let urineAnionGap: UrineAnionGapResult | undefined;
+  const hasMetabolicAcidosis =
+    primaryDisorder === "metabolic_acidosis" || dominance?.coPrimary === "metabolic_acidosis";
+  if (
+    hasMetabolicAcidosis &&
+    anionGap?.status === "normal" &&
+    urineNa !== undefined &&
+    urineK !== undefined &&
+    urineCl !== undefined
+  ) {
+    urineAnionGap = calculateUrineAnionGap({
+      urineNa,
+      urineK,
+      urineCl,
+      urineUrea,
+      urineGlucose,
+      urineOsmolality,
+      serumK: K,
+    });
   }
-  if (compensation?.chronicity && compensation.chronicity !== "unknown") {
-    summary = `${compensation.chronicity.charAt(0).toUpperCase() + compensation.chronicity.slice(1)} ${summary}`;
+
+  const pregnancy = input.pregnant
+    ? assessPregnancy({ pCO2: aPCO2, HCO3: aHCO3, trimester: input.trimester }, profile)
+    : undefined;
+
+  let diabeticEmergency: DiabeticEmergencyResult | undefined;
+  if (Na !== undefined && glucose !== undefined) {
+    diabeticEmergency = assessDiabeticEmergency({
+      Na,
+      glucose,
+      pH: aPH,
+      HCO3: aHCO3,
+      ketones,
+      anionGap,
+      units,
+    });
+  }
+
+  let metabolicAlkalosis: MetabolicAlkalosisClassification | undefined;
+  const hasMetabolicAlkalosis =
+    primaryDisorder === "metabolic_alkalosis" || dominance?.coPrimary === "metabolic_alkalosis";
+  if (
+    hasMetabolicAlkalosis &&
+    (urineCl !== undefined ||
+      systolicBP !== undefined ||
+      diastolicBP !== undefined ||
+      volumeStatus !== undefined)
+  ) {
+    metabolicAlkalosis = classifyMetabolicAlkalosis({
+      urineCl,
+      urineK,
+      systolicBP,
+      diastolicBP,
+      volumeStatus,
+    });
+  }
+
+  const causes =
+    primaryDisorder === "metabolic_alkalosis" && metabolicAlkalosis
+      ? metabolicAlkalosis.causes
+      : getCausesForDisorder(
+        primaryDisorder,
+        anionGap?.status,
+        (compensation ?? sbeCompensation)?.chronicity,
+        urineAnionGap?.origin
+      );
+
+  // A pCO2 that looks normal is still hypoventilation against the pregnancy baseline
+  if (
+    pregnancy?.relativeHypercapnia &&
+    primaryDisorder !== "respiratory_acidosis" &&
+    dominance?.coPrimary !== "respiratory_acidosis" &&
+    !secondaryDisorders.includes("Concurrent respiratory acidosis")
+  ) {
+    secondaryDisorders.push("Relative hypercapnia for pregnancy");
   }
+
+  let { summary } = assessment;
   if (secondaryDisorders.length > 0) {
     summary += ` (${secondaryDisorders.join("; ")})`;
   }
 
-  return {
+  const interpretation: Omit<BloodGasInterpretation, "differential" | "trace"> = {
     input,
+    referenceProfileId: profile.id,
+    ageGroup,
+    pregnancy,
+    temperatureCorrection,
+    sampleType,
+    arterialEstimate,
+    sampleLimitations,
+    consistency,
+    method,
     pHStatus: phStatus,
     primaryDisorder,
     anionGap,
@@ -495,8 +3828,26 @@ export function interpretBloodGas(
     wintersFormula,
     deltaRatio,
     compensation,
+    baseExcess,
+    sbeCompensation,
+    stewart,
+    strongIonComponents,
+    oxygenation,
+    mixedDisorder,
+    dominance,
+    urineAnionGap,
+    metabolicAlkalosis,
+    toxicAlcohols: toxicAlcoholResult,
+    diabeticEmergency,
+    electrolytes,
     causes,
     secondaryDisorders,
     summary,
   };
+
+  return {
+    ...interpretation,
+    differential: rankDifferential(interpretation, profile),
+    trace: buildReasoningTrace(interpretation, { pH: aPH, pCO2: aPCO2, HCO3: aHCO3 }, profile),
+  };
 }
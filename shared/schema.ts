@@ -1,21 +1,291 @@
 import { z } from "zod";
 
-// Blood gas input values schema
+// Blood sample source
+export const sampleTypes = ["arterial", "venous", "capillary", "mixed_venous", "cord"] as const;
+
+export type SampleType = (typeof sampleTypes)[number];
+
+// Patient age group; neonates are split at 37 weeks' gestation
+export const ageGroups = [
+  "preterm_neonate",
+  "term_neonate",
+  "infant",
+  "child",
+  "adolescent",
+  "adult",
+] as const;
+
+export type AgeGroup = (typeof ageGroups)[number];
+
+// Pregnancy trimester; shifts the pCO2 and HCO3 baselines (see pregnancyAdjustments)
+export const trimesters = ["first", "second", "third"] as const;
+
+export type Trimester = (typeof trimesters)[number];
+
+// Blood gas management during hypothermia: interpret at 37 °C (alpha-stat) or at patient temperature (pH-stat)
+export const temperatureStrategies = ["alpha_stat", "ph_stat"] as const;
+
+export type TemperatureStrategy = (typeof temperatureStrategies)[number];
+
+// Clinical volume status
+export const volumeStatuses = ["hypovolaemic", "euvolaemic", "hypervolaemic"] as const;
+
+export type VolumeStatus = (typeof volumeStatuses)[number];
+
+// Selectable units per field; the first option is the canonical unit used by all formulas
+export const unitOptions = {
+  pCO2: ["mmHg", "kPa"],
+  pO2: ["mmHg", "kPa"],
+  glucose: ["mmol/L", "mg/dL"],
+  urea: ["mmol/L", "mg/dL"],
+  albumin: ["g/dL", "g/L"],
+  ethanol: ["mg/dL", "mmol/L"],
+} as const;
+
+export type UnitField = keyof typeof unitOptions;
+
+export const unitPreferencesSchema = z.object({
+  pCO2: z.enum(unitOptions.pCO2).optional(),
+  pO2: z.enum(unitOptions.pO2).optional(),
+  glucose: z.enum(unitOptions.glucose).optional(),
+  urea: z.enum(unitOptions.urea).optional(),
+  albumin: z.enum(unitOptions.albumin).optional(),
+  ethanol: z.enum(unitOptions.ethanol).optional(),
+});
+
+export type UnitPreferences = z.infer<typeof unitPreferencesSchema>;
+
+// Multiply a value in the given unit by this factor to get the canonical unit
+export const unitConversionFactors: Record<UnitField, Record<string, number>> = {
+  pCO2: { mmHg: 1, kPa: 7.50062 },
+  pO2: { mmHg: 1, kPa: 7.50062 },
+  glucose: { "mmol/L": 1, "mg/dL": 1 / 18.016 },
+  urea: { "mmol/L": 1, "mg/dL": 1 / 2.801 },
+  albumin: { "g/dL": 1, "g/L": 0.1 },
+  ethanol: { "mg/dL": 1, "mmol/L": 4.607 },
+};
+
+// Display labels where the unit alone is ambiguous (urea in mg/dL is reported as BUN)
+export const unitLabels: Record<UnitField, Record<string, string>> = {
+  pCO2: { mmHg: "mmHg", kPa: "kPa" },
+  pO2: { mmHg: "mmHg", kPa: "kPa" },
+  glucose: { "mmol/L": "mmol/L", "mg/dL": "mg/dL" },
+  urea: { "mmol/L": "mmol/L", "mg/dL": "mg/dL (BUN)" },
+  albumin: { "g/dL": "g/dL", "g/L": "g/L" },
+  ethanol: { "mg/dL": "mg/dL", "mmol/L": "mmol/L" },
+};
+
+// Accepted input limits for unit-selectable fields, in canonical units
+export const canonicalInputLimits: Record<UnitField, { min: number; max: number }> = {
+  pCO2: { min: 10, max: 100 },
+  pO2: { min: 10, max: 700 },
+  glucose: { min: 0, max: 100 },
+  urea: { min: 0, max: 100 },
+  albumin: { min: 1, max: 6 },
+  ethanol: { min: 0, max: 600 },
+};
+
+// Other input fields measured in a unit-selectable field's units
+export const unitFieldAliases: Record<string, UnitField> = {
+  baselinePCO2: "pCO2",
+};
+
+// Bedside history that shifts the differential (pregnancy comes from the `pregnant` field)
+export const clinicalContextFactors = [
+  "diabetes",
+  "alcohol_use",
+  "vomiting",
+  "diarrhoea",
+  "renal_failure",
+  "sepsis",
+  "liver_disease",
+  "copd",
+] as const;
+
+export type ClinicalContextFactor = (typeof clinicalContextFactors)[number];
+
+export const knownDrugs = [
+  "metformin",
+  "sglt2_inhibitor",
+  "salicylate",
+  "paracetamol",
+  "diuretic",
+  "acetazolamide",
+  "laxative",
+  "opioid_or_sedative",
+] as const;
+
+export type KnownDrug = (typeof knownDrugs)[number];
+
+export const clinicalContextSchema = z.object({
+  factors: z.array(z.enum(clinicalContextFactors)).optional(),
+  drugs: z.array(z.enum(knownDrugs)).optional(),
+});
+
+export type ClinicalContext = z.infer<typeof clinicalContextSchema>;
+
+// Blood gas input values schema (all values in canonical units)
 export const bloodGasInputSchema = z.object({
   pH: z.number().min(6.8).max(7.8).optional(),
-  pCO2: z.number().min(10).max(100).optional(),
+  pCO2: z.number().min(canonicalInputLimits.pCO2.min).max(canonicalInputLimits.pCO2.max).optional(),
   HCO3: z.number().min(5).max(45).optional(),
   Na: z.number().min(100).max(180).optional(),
   Cl: z.number().min(70).max(130).optional(),
-  albumin: z.number().min(1).max(6).optional(),
+  albumin: z.number().min(canonicalInputLimits.albumin.min).max(canonicalInputLimits.albumin.max).optional(),
   measuredOsmolality: z.number().min(200).max(400).optional(),
-  glucose: z.number().min(0).max(50).optional(),
-  urea: z.number().min(0).max(100).optional(),
-  ethanol: z.number().min(0).max(100).optional(),
+  glucose: z.number().min(canonicalInputLimits.glucose.min).max(canonicalInputLimits.glucose.max).optional(),
+  urea: z.number().min(canonicalInputLimits.urea.min).max(canonicalInputLimits.urea.max).optional(),
+  ethanol: z.number().min(canonicalInputLimits.ethanol.min).max(canonicalInputLimits.ethanol.max).optional(),
+  // Blood β-hydroxybutyrate (mmol/L)
+  ketones: z.number().min(0).max(20).optional(),
+  K: z.number().min(1).max(10).optional(),
+  Ca: z.number().min(0.3).max(3).optional(),
+  Mg: z.number().min(0.2).max(3).optional(),
+  lactate: z.number().min(0).max(30).optional(),
+  phosphate: z.number().min(0).max(5).optional(),
+  haemoglobin: z.number().min(3).max(25).optional(),
+  pO2: z.number().min(canonicalInputLimits.pO2.min).max(canonicalInputLimits.pO2.max).optional(),
+  FiO2: z.number().min(0.21).max(1).optional(),
+  barometricPressure: z.number().min(400).max(800).optional(),
+  age: z.number().min(0).max(120).optional(),
+  ageGroup: z.enum(ageGroups).optional(),
+  // Weeks at birth; separates preterm from term neonates
+  gestationalAge: z.number().min(22).max(44).optional(),
+  pregnant: z.boolean().optional(),
+  // Patient's usual gas when well (e.g. a COPD patient's chronic pCO2 and HCO3)
+  baselinePCO2: z.number().min(canonicalInputLimits.pCO2.min).max(canonicalInputLimits.pCO2.max).optional(),
+  baselineHCO3: z.number().min(5).max(45).optional(),
+  // Patient core temperature (°C); analysers measure at 37 °C
+  temperature: z.number().min(15).max(45).optional(),
+  temperatureStrategy: z.enum(temperatureStrategies).optional(),
+  trimester: z.enum(trimesters).optional(),
+  sampleType: z.enum(sampleTypes).optional(),
+  urineNa: z.number().min(0).max(300).optional(),
+  urineK: z.number().min(0).max(200).optional(),
+  urineCl: z.number().min(0).max(300).optional(),
+  urineUrea: z.number().min(0).max(1000).optional(),
+  urineGlucose: z.number().min(0).max(300).optional(),
+  urineOsmolality: z.number().min(50).max(1400).optional(),
+  systolicBP: z.number().min(40).max(300).optional(),
+  diastolicBP: z.number().min(20).max(200).optional(),
+  volumeStatus: z.enum(volumeStatuses).optional(),
+  clinicalContext: clinicalContextSchema.optional(),
+  units: unitPreferencesSchema.optional(),
 });
 
 export type BloodGasInput = z.infer<typeof bloodGasInputSchema>;
 
+// One umbilical cord sample (canonical units); BE is the analyser's value when reported
+export const cordSampleSchema = z.object({
+  pH: z.number().min(6.5).max(7.6),
+  pCO2: z.number().min(canonicalInputLimits.pCO2.min).max(canonicalInputLimits.pCO2.max),
+  baseExcess: z.number().min(-30).max(15).optional(),
+});
+
+export type CordSample = z.infer<typeof cordSampleSchema>;
+
+// Paired umbilical artery and vein samples for the cord-gas report
+export const cordGasInputSchema = z.object({
+  arterial: cordSampleSchema,
+  venous: cordSampleSchema,
+  units: unitPreferencesSchema.optional(),
+});
+
+export type CordGasInput = z.infer<typeof cordGasInputSchema>;
+
+// Institution reference profiles (see referenceProfiles below)
+export const referenceProfileIds = ["classic", "ise_laboratory", "point_of_care"] as const;
+
+export type ReferenceProfileId = (typeof referenceProfileIds)[number];
+
+// Ethanol divisors (mg/dL → mOsm/kg): 4.6 from its molecular weight, 3.7 fitted empirically
+export const ethanolCoefficients = [4.6, 3.7] as const;
+
+export type EthanolCoefficient = (typeof ethanolCoefficients)[number];
+
+export const ethanolCoefficientSchema = z.coerce
+  .number()
+  .refine(
+    (value): value is EthanolCoefficient =>
+      (ethanolCoefficients as readonly number[]).includes(value),
+    { message: `Ethanol coefficient must be one of ${ethanolCoefficients.join(", ")}` }
+  );
+
+// Schools of acid-base interpretation: HCO3-based rules, standard base excess, or strong ions
+export const interpretationMethods = ["boston", "copenhagen", "stewart"] as const;
+
+export type InterpretationMethod = (typeof interpretationMethods)[number];
+
+export const defaultInterpretationMethod: InterpretationMethod = "boston";
+
+// Options that tune how an interpretation is produced
+export const interpretationOptionsSchema = z.object({
+  consistencyTolerance: z.coerce.number().min(0.005).max(0.2).optional(),
+  profile: z.enum(referenceProfileIds).optional(),
+  ethanolCoefficient: ethanolCoefficientSchema.optional(),
+  method: z.enum(interpretationMethods).optional(),
+});
+
+export type InterpretationOptions = z.infer<typeof interpretationOptionsSchema>;
+
+// Groupings for the cause knowledge base (see causeKnowledgeBase below)
+export const causeCategories = [
+  "central",
+  "neuromuscular",
+  "chest_wall",
+  "airway",
+  "pulmonary",
+  "ketoacidosis",
+  "lactic",
+  "renal",
+  "gastrointestinal",
+  "endocrine",
+  "electrolyte",
+  "toxic",
+  "drug",
+  "iatrogenic",
+  "systemic",
+  "physiological",
+  "analytical",
+] as const;
+
+export type CauseCategory = (typeof causeCategories)[number];
+
+export const causeMnemonics = [
+  "Left Total Knee Replacement",
+  "CAT MUD PILES",
+  "USED CRAP",
+  "CHAMPS",
+  "CLEVER PD",
+] as const;
+
+export type CauseMnemonic = (typeof causeMnemonics)[number];
+
+// Query filters for /api/causes; the AG, chronicity and origin narrow a disorder's list
+export const causeFilterSchema = z.object({
+  disorder: z
+    .enum(["respiratory_acidosis", "metabolic_acidosis", "respiratory_alkalosis", "metabolic_alkalosis"])
+    .optional(),
+  anionGapStatus: z.enum(["normal", "high", "low_negative"]).optional(),
+  chronicity: z.enum(["acute", "chronic", "acute_on_chronic", "unknown"]).optional(),
+  nagmaOrigin: z.enum(["gastrointestinal", "renal", "indeterminate"]).optional(),
+  category: z.enum(causeCategories).optional(),
+  mnemonic: z.enum(causeMnemonics).optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+export type CauseFilter = z.infer<typeof causeFilterSchema>;
+
+// Bicarbonate therapy calculator inputs; the space is in L/kg (see bicarbonateTherapyParameters)
+export const bicarbonateTherapyOptionsSchema = z.object({
+  weight: z.number().min(0.5).max(300),
+  targetHCO3: z.number().min(10).max(30).optional(),
+  bicarbonateSpace: z.number().min(0.2).max(1).optional(),
+  infusionMinutes: z.number().min(5).max(1440).optional(),
+});
+
+export type BicarbonateTherapyOptions = z.infer<typeof bicarbonateTherapyOptionsSchema>;
+
 // pH status
 export type pHStatus = "acidaemia" | "normal" | "alkalaemia";
 
@@ -33,8 +303,53 @@ export type AnionGapStatus = "normal" | "high" | "low_negative";
 // Delta ratio classification
 export type DeltaRatioStatus = "pure_nagma_hagma" | "mixed_nagma_hagma" | "hagma" | "hagma_metabolic_alkalosis";
 
-// Chronicity
-export type Chronicity = "acute" | "chronic" | "unknown";
+// Chronicity; acute-on-chronic is judged against a patient baseline gas
+export type Chronicity = "acute" | "chronic" | "acute_on_chronic" | "unknown";
+
+// Origin of a normal anion gap metabolic acidosis from the urine workup
+export type NAGMAOrigin = "gastrointestinal" | "renal" | "indeterminate";
+
+// Metabolic alkalosis split by response to chloride (saline)
+export type ChlorideResponse = "chloride_responsive" | "chloride_resistant" | "indeterminate";
+
+// Toxic alcohols that can raise the osmolar gap
+export type ToxicAlcohol = "methanol" | "ethylene_glycol" | "isopropanol" | "propylene_glycol";
+
+// Stage of a toxic alcohol ingestion from the osmolar gap vs anion gap
+export type IngestionStage = "early" | "intermediate" | "late" | "indeterminate";
+
+// Electrolytes and lactate reported alongside the gas
+export type ElectrolyteAnalyte = "K" | "Ca" | "Mg" | "lactate" | "phosphate";
+
+// Position of a value against its reference range
+export type AnalyteStatus = "low" | "normal" | "high";
+
+// Fetal acidaemia at birth, classified on the umbilical artery sample
+export type FetalAcidaemiaType = "none" | "mild" | "respiratory" | "metabolic" | "mixed";
+
+// Whether the labelled artery and vein look like a genuine pair
+export type CordPairingStatus = "valid" | "swapped" | "same_vessel" | "discordant";
+
+// Hyperglycaemic emergency classification
+export type DiabeticEmergencyType = "dka" | "hhs" | "mixed_dka_hhs" | "euglycaemic_dka" | "none";
+
+// DKA severity grade
+export type DKASeverity = "mild" | "moderate" | "severe";
+
+// Confidence that the reported primary disorder is the dominant one
+export type DominanceConfidence = "high" | "moderate" | "low";
+
+// Strong ion gap classification
+export type StrongIonGapStatus = "normal" | "elevated" | "negative";
+
+// Apparent strong ion difference classification
+export type StrongIonDifferenceStatus = "low" | "normal" | "high";
+
+// Berlin ARDS severity (by PaO2/FiO2 ratio)
+export type ARDSSeverity = "none" | "mild" | "moderate" | "severe";
+
+// Respiratory failure classification
+export type RespiratoryFailureType = "none" | "type_1" | "type_2";
 
 // Compensation status
 export type CompensationStatus = "appropriate" | "inadequate" | "excessive" | "mixed_disorder";
@@ -46,6 +361,8 @@ export interface AnionGapResult {
   status: AnionGapStatus;
   formula: string;
   correctionFormula?: string;
+  includesPotassium: boolean;
+  normalValue: number;
 }
 
 export interface OsmolarGapResult {
@@ -79,6 +396,404 @@ export interface CompensationResult {
   rule: string;
 }
 
+export interface BaseExcessResult {
+  calculatedHCO3: number;
+  baseExcess?: number;
+  standardBaseExcess: number;
+  hco3Formula: string;
+  beFormula?: string;
+  sbeFormula: string;
+}
+
+export interface ConsistencyResult {
+  expectedPH: number;
+  difference: number;
+  tolerance: number;
+  isConsistent: boolean;
+  formula: string;
+}
+
+export interface TemperatureCorrectionResult {
+  temperature: number;
+  strategy: TemperatureStrategy;
+  measured: { pH: number; pCO2: number; pO2?: number };
+  // HCO3 at patient temperature is recalculated from the corrected pH and pCO2
+  corrected: { pH: number; pCO2: number; pO2?: number; HCO3: number };
+  // Which set of values the interpretation is based on
+  basis: "measured" | "corrected";
+  formulas: string[];
+  notes: string[];
+}
+
+export interface OxygenationResult {
+  alveolarPO2: number;
+  aaGradient: number;
+  expectedAaGradient: number;
+  isAaGradientElevated: boolean;
+  pfRatio: number;
+  ardsSeverity: ARDSSeverity;
+  respiratoryFailure: RespiratoryFailureType;
+  alveolarFormula: string;
+  aaGradientFormula: string;
+  pfRatioFormula: string;
+}
+
+export interface UrineAnionGapResult {
+  urineAnionGap: number;
+  formula: string;
+  calculatedUrineOsmolality?: number;
+  urineOsmolarGap?: number;
+  urineOsmolarGapFormula?: string;
+  // Urine NH4⁺ estimated as half the urine osmolar gap
+  estimatedUrineNH4?: number;
+  origin: NAGMAOrigin;
+  interpretation: string;
+  rtaHints: string[];
+  caveats: string[];
+}
+
+export interface ToxicAlcoholEstimate {
+  alcohol: ToxicAlcohol;
+  name: string;
+  // Range assumes a baseline osmolar gap between the upper reference limit and zero
+  lowMgDL: number;
+  highMgDL: number;
+  highMmolL: number;
+  formula: string;
+}
+
+export interface TreatmentIndication {
+  indicated: boolean;
+  reasons: string[];
+}
+
+export interface ToxicAlcoholResult {
+  excessOsmolesLow: number;
+  excessOsmolesHigh: number;
+  estimates: ToxicAlcoholEstimate[];
+  stage: IngestionStage;
+  stageInterpretation: string;
+  fomepizole: TreatmentIndication;
+  dialysis: TreatmentIndication;
+  ethanolCoefficient: EthanolCoefficient;
+  caveats: string[];
+}
+
+export interface LactateContribution {
+  lactate: number;
+  excessAnionGap: number;
+  // Share of the AG rise above normal accounted for by lactate (capped at 1)
+  fraction: number;
+  formula: string;
+  interpretation: string;
+}
+
+export interface ElectrolyteFlag {
+  analyte: ElectrolyteAnalyte;
+  label: string;
+  value: number;
+  status: AnalyteStatus;
+}
+
+export interface ElectrolyteAssessment {
+  flags: ElectrolyteFlag[];
+  lactateContribution?: LactateContribution;
+  // K⁺ expected once the pH returns to 7.40
+  pHAdjustedK?: number;
+  // Ionised Ca²⁺ normalised to pH 7.40
+  normalisedCa?: number;
+  warnings: string[];
+}
+
+export interface DiagnosticCriterion {
+  label: string;
+  // undefined when the value needed to judge it was not entered
+  met?: boolean;
+}
+
+export interface DiabeticEmergencyResult {
+  correctedNaKatz: number;
+  correctedNaHillier: number;
+  correctedNaFormula: string;
+  effectiveOsmolality: number;
+  effectiveOsmolalityFormula: string;
+  type: DiabeticEmergencyType;
+  dkaSeverity?: DKASeverity;
+  dkaCriteria: DiagnosticCriterion[];
+  hhsCriteria: DiagnosticCriterion[];
+  interpretation: string;
+  notes: string[];
+}
+
+// Where a cause sits in a teaching mnemonic, e.g. CAT MUD PILES "M" = Methanol
+export interface CauseMnemonicLetter {
+  mnemonic: CauseMnemonic;
+  letter: string;
+  word: string;
+}
+
+export interface CauseEntry {
+  // Stable identifier for teaching and order-set integrations; never reworded
+  id: string;
+  name: string;
+  category: CauseCategory;
+  mnemonics: CauseMnemonicLetter[];
+  // Tests that confirm or exclude the cause
+  investigations: string[];
+  keyFeatures: string[];
+  references: string[];
+}
+
+export type CauseId = keyof typeof causeKnowledgeBase;
+
+// Lab findings the differential weighs alongside the clinical context
+export type DifferentialFinding =
+  | "lactate_high"
+  | "lactate_normal"
+  | "ketones_high"
+  | "ketones_normal"
+  | "glucose_high"
+  | "glucose_normal"
+  | "osmolar_gap_elevated"
+  | "osmolar_gap_normal"
+  | "urea_high"
+  | "hypokalaemia"
+  | "hyperkalaemia"
+  | "hypoxaemia"
+  | "urine_anion_gap_negative"
+  | "urine_anion_gap_positive"
+  | "urine_chloride_low"
+  | "urine_chloride_high"
+  | "hypertension"
+  | "chronic_compensation"
+  | "concurrent_respiratory_alkalosis"
+  | "concurrent_hagma";
+
+export type DifferentialEvidence = ClinicalContextFactor | KnownDrug | "pregnancy" | DifferentialFinding;
+
+// Cause lists the differential ranks; the AG splits metabolic acidosis
+export type DifferentialGroup =
+  | "hagma"
+  | "nagma"
+  | "respiratory_acidosis"
+  | "respiratory_alkalosis"
+  | "metabolic_alkalosis";
+
+export type DifferentialLikelihood = "likely" | "possible" | "less_likely";
+
+export interface DifferentialRule {
+  evidence: DifferentialEvidence;
+  // Added to the cause's score when the evidence is present; negative moves it down
+  weight: number;
+  reason: string;
+}
+
+export interface DifferentialCandidate {
+  id: CauseId;
+  name: string;
+  // Starting score before any evidence, roughly how common the cause is
+  prior: number;
+  rules: DifferentialRule[];
+}
+
+export interface RankedCause {
+  id: CauseId;
+  name: string;
+  group: DifferentialGroup;
+  score: number;
+  likelihood: DifferentialLikelihood;
+  adjustments: DifferentialRule[];
+}
+
+export interface DifferentialResult {
+  disorder: PrimaryDisorder;
+  groups: DifferentialGroup[];
+  evidence: DifferentialEvidence[];
+  causes: RankedCause[];
+  notes: string[];
+}
+
+export const followUpTestIds = [
+  "repeat_gas",
+  "arterial_gas",
+  "electrolytes",
+  "albumin",
+  "lactate",
+  "ketones",
+  "glucose",
+  "urea_creatinine",
+  "serum_osmolality",
+  "toxic_alcohol_levels",
+  "salicylate_level",
+  "paracetamol_level",
+  "urine_electrolytes",
+  "urine_ph",
+  "potassium_magnesium",
+  "urine_chloride",
+  "renin_aldosterone",
+  "oxygenation",
+  "baseline_gas",
+] as const;
+
+export type FollowUpTestId = (typeof followUpTestIds)[number];
+
+export type FollowUpPriority = "urgent" | "high" | "routine";
+
+// A test worth sending next, and why this gas calls for it
+export interface FollowUpTest {
+  id: FollowUpTestId;
+  name: string;
+  priority: FollowUpPriority;
+  rationale: string;
+  // Knowledge base causes the result confirms or excludes
+  causeIds: CauseId[];
+}
+
+// A metabolic process the Stewart approach separates out of the net base excess
+export interface StrongIonComponent {
+  label: string;
+  effect: "acidifying" | "alkalinising";
+  finding: string;
+}
+
+// Shared measurements every interpretation method starts from (arterial or estimated arterial values)
+export interface InterpretationContext {
+  input: BloodGasInput;
+  profile: ReferenceProfile;
+  pHStatus: pHStatus;
+  pH: number;
+  pCO2: number;
+  HCO3: number;
+  measuredHCO3: number;
+  anionGap?: AnionGapResult;
+  baseExcess: BaseExcessResult;
+  stewart?: StewartResult;
+  patientBaseline?: { pCO2: number; HCO3: number };
+}
+
+// Where an interpretation method lands once the shared measurements are done
+export interface MethodAssessment {
+  primaryDisorder: PrimaryDisorder;
+  dominance?: DisorderDominance;
+  mixedDisorder?: MixedDisorderResult;
+  wintersFormula?: WintersFormulaResult;
+  deltaRatio?: DeltaRatioResult;
+  compensation?: CompensationResult;
+  sbeCompensation?: CompensationResult;
+  strongIonComponents?: StrongIonComponent[];
+  secondaryDisorders: string[];
+  // Headline before the concurrent disorders are appended
+  summary: string;
+}
+
+// The conclusions of one method in a side-by-side comparison
+export interface MethodConclusion {
+  method: InterpretationMethod;
+  available: boolean;
+  unavailableReason?: string;
+  primaryDisorder?: PrimaryDisorder;
+  chronicity?: Chronicity;
+  secondaryDisorders: string[];
+  summary?: string;
+}
+
+export type MethodDifferenceAspect = "primary_disorder" | "chronicity" | "concurrent_disorder";
+
+export interface MethodDifference {
+  aspect: MethodDifferenceAspect;
+  description: string;
+  // What each method concluded; a method that did not report the finding is absent
+  findings: Partial<Record<InterpretationMethod, string>>;
+}
+
+export interface MethodComparison {
+  conclusions: MethodConclusion[];
+  differences: MethodDifference[];
+  agree: boolean;
+}
+
+export interface MetabolicAlkalosisClassification {
+  response: ChlorideResponse;
+  isHypertensive?: boolean;
+  interpretation: string;
+  causes: CauseEntry[];
+  nextTests: string[];
+  notes: string[];
+}
+
+// Respiratory vs metabolic contribution to an abnormal pH
+export interface DisorderDominance {
+  primary: PrimaryDisorder;
+  coPrimary?: PrimaryDisorder;
+  confidence: DominanceConfidence;
+  // Each component's shift in pH units: log10(pCO2/40) and log10(24/HCO3), positive = acidifying
+  respiratoryScore: number;
+  metabolicScore: number;
+  isCombined: boolean;
+}
+
+// Candidate disorder pairs when pH is normal but pCO2/HCO3 or the AG are not
+export interface MixedDisorderCandidate {
+  disorders: [PrimaryDisorder, PrimaryDisorder];
+  description: string;
+}
+
+export interface MixedDisorderResult {
+  candidates: MixedDisorderCandidate[];
+  // Disorder used to run the compensation checks (chosen by the side of 7.40 the pH lies on)
+  workingDisorder?: PrimaryDisorder;
+  explanation: string;
+}
+
+export interface ArterialEstimate {
+  pH: number;
+  pCO2: number;
+  HCO3: number;
+}
+
+export type BicarbonateWarningLevel = "contraindicated" | "caution";
+
+export interface BicarbonateWarning {
+  level: BicarbonateWarningLevel;
+  message: string;
+}
+
+export interface BicarbonateTherapyResult {
+  isSevere: boolean;
+  weight: number;
+  currentHCO3: number;
+  targetHCO3: number;
+  bicarbonateSpace: number;
+  // mmol; the initial dose is the fraction given before the gas is re-checked
+  deficit: number;
+  initialDose: number;
+  deficitFormula: string;
+  // CO2 released by buffering the initial dose (mmol and mL at STP)
+  co2Load: number;
+  co2Volume: number;
+  infusionMinutes: number;
+  restingVCO2: number;
+  // pCO2 during the infusion if minute ventilation cannot rise (mmHg)
+  pCO2Rise: number;
+  expectedPCO2: number;
+  pCO2Formula: string;
+  warnings: BicarbonateWarning[];
+  notes: string[];
+}
+
+export interface StewartResult {
+  SIDa: number;
+  SIDe: number;
+  SIG: number;
+  albuminCharge: number;
+  phosphateCharge: number;
+  sidStatus: StrongIonDifferenceStatus;
+  sigStatus: StrongIonGapStatus;
+  sidaFormula: string;
+  sideFormula: string;
+  sigFormula: string;
+}
+
 // Step data for the wizard
 export interface StepData {
   step: number;
@@ -88,9 +803,79 @@ export interface StepData {
   isActive: boolean;
 }
 
+export interface CordSampleResult {
+  pH: number;
+  pCO2: number;
+  HCO3: number;
+  baseDeficit: number;
+  baseDeficitSource: "measured" | "calculated";
+  baseDeficitFormula: string;
+}
+
+export interface CordGasReport {
+  arterial: CordSampleResult;
+  venous: CordSampleResult;
+  pairing: {
+    status: CordPairingStatus;
+    // Venous minus arterial pH, arterial minus venous pCO2
+    pHDifference: number;
+    pCO2Difference: number;
+    messages: string[];
+  };
+  // The sample the classification is based on (the lower-pH one if the labels look swapped)
+  classifiedSample: "arterial" | "venous";
+  acidaemia: FetalAcidaemiaType;
+  isPathological: boolean;
+  isSevere: boolean;
+  interpretation: string;
+  notes: string[];
+}
+
+export interface PregnancyAssessment {
+  trimester: Trimester;
+  // True when pregnancy was flagged without a trimester and the default was used
+  trimesterAssumed: boolean;
+  baselinePCO2: number;
+  baselineHCO3: number;
+  // pCO2 normal outside pregnancy but above the pregnancy range
+  relativeHypercapnia: boolean;
+  notes: string[];
+}
+
+// Value or range a decision compared its input against
+export interface ReasoningThreshold {
+  low?: number;
+  high?: number;
+  unit?: string;
+  description?: string;
+}
+
+// One decision in the interpretation, in the order it was made
+export interface ReasoningStep {
+  id: string;
+  title: string;
+  inputs: Record<string, number | string>;
+  rule: string;
+  threshold?: ReasoningThreshold;
+  // Machine-readable result, e.g. "acidaemia", "high", "inadequate"
+  outcome: string;
+  // What the outcome adds to the report, e.g. "Concurrent respiratory acidosis"
+  conclusion?: string;
+  reference?: string;
+}
+
 // Full interpretation result
 export interface BloodGasInterpretation {
   input: BloodGasInput;
+  referenceProfileId: ReferenceProfileId;
+  ageGroup: AgeGroup;
+  pregnancy?: PregnancyAssessment;
+  temperatureCorrection?: TemperatureCorrectionResult;
+  sampleType: SampleType;
+  arterialEstimate?: ArterialEstimate;
+  sampleLimitations: string[];
+  consistency: ConsistencyResult;
+  method: InterpretationMethod;
   pHStatus: pHStatus;
   primaryDisorder: PrimaryDisorder;
   anionGap?: AnionGapResult;
@@ -98,99 +883,1679 @@ export interface BloodGasInterpretation {
   wintersFormula?: WintersFormulaResult;
   deltaRatio?: DeltaRatioResult;
   compensation?: CompensationResult;
-  causes: string[];
+  baseExcess?: BaseExcessResult;
+  sbeCompensation?: CompensationResult;
+  stewart?: StewartResult;
+  strongIonComponents?: StrongIonComponent[];
+  oxygenation?: OxygenationResult;
+  mixedDisorder?: MixedDisorderResult;
+  dominance?: DisorderDominance;
+  urineAnionGap?: UrineAnionGapResult;
+  metabolicAlkalosis?: MetabolicAlkalosisClassification;
+  toxicAlcohols?: ToxicAlcoholResult;
+  diabeticEmergency?: DiabeticEmergencyResult;
+  electrolytes?: ElectrolyteAssessment;
+  causes: CauseEntry[];
+  differential: DifferentialResult;
   secondaryDisorders: string[];
   summary: string;
+  trace: ReasoningStep[];
 }
 
+export const causeCategoryLabels: Record<CauseCategory, string> = {
+  central: "Central",
+  neuromuscular: "Neuromuscular",
+  chest_wall: "Chest wall",
+  airway: "Airway",
+  pulmonary: "Pulmonary",
+  ketoacidosis: "Ketoacidosis",
+  lactic: "Lactic",
+  renal: "Renal",
+  gastrointestinal: "Gastrointestinal",
+  endocrine: "Endocrine",
+  electrolyte: "Electrolyte",
+  toxic: "Toxic",
+  drug: "Drug",
+  iatrogenic: "Iatrogenic",
+  systemic: "Systemic",
+  physiological: "Physiological",
+  analytical: "Analytical",
+};
+
+// Literature cited by the cause knowledge base
+const causeReferences = {
+  acidBase: "Berend K, de Vries AP, Gans RO. Physiological approach to assessment of acid-base disturbances. N Engl J Med 2014;371:1434-1445",
+  metabolicAcidosis: "Kraut JA, Madias NE. Metabolic acidosis: pathophysiology, diagnosis and management. Nat Rev Nephrol 2010;6:274-285",
+  anionGap: "Kraut JA, Madias NE. Serum anion gap: its uses and limitations in clinical medicine. Clin J Am Soc Nephrol 2007;2:162-174",
+  lacticAcidosis: "Kraut JA, Madias NE. Lactic acidosis. N Engl J Med 2014;371:2309-2319",
+  hyperglycaemicCrises: "Kitabchi AE, Umpierrez GE, Miles JM, Fisher JN. Hyperglycemic crises in adult patients with diabetes. Diabetes Care 2009;32:1335-1343",
+  ketoacidosis: "Cartwright MM, Hajja W, Al-Khatib S, et al. Toxigenic and metabolic causes of ketosis and ketoacidotic syndromes. Crit Care Clin 2012;28:601-631",
+  toxicAlcohols: "Kraut JA, Kurtz I. Toxic alcohol ingestions: clinical features, diagnosis, and management. Clin J Am Soc Nephrol 2008;3:208-225",
+  salicylates: "O'Malley GF. Emergency department management of the salicylate-poisoned patient. Emerg Med Clin North Am 2007;25:333-346",
+  pyroglutamicAcid: "Fenves AZ, Kirkpatrick HM 3rd, Patel VV, Sweetman L, Emmett M. Increased anion gap metabolic acidosis as a result of 5-oxoproline (pyroglutamic acid): a role for acetaminophen. Clin J Am Soc Nephrol 2006;1:441-447",
+  carbonMonoxide: "Weaver LK. Carbon monoxide poisoning. N Engl J Med 2009;360:1217-1225",
+  renalTubularAcidosis: "Rodríguez Soriano J. Renal tubular acidosis: the clinical entity. J Am Soc Nephrol 2002;13:2160-2170",
+  urineAnionGap: "Batlle DC, Hizon M, Cohen E, et al. The use of the urinary anion gap in the diagnosis of hyperchloremic metabolic acidosis. N Engl J Med 1988;318:594-599",
+  metabolicAlkalosis: "Galla JH. Metabolic alkalosis. J Am Soc Nephrol 2000;11:369-375",
+  primaryAldosteronism: "Funder JW, Carey RM, Mantero F, et al. The management of primary aldosteronism: case detection, diagnosis, and treatment: an Endocrine Society clinical practice guideline. J Clin Endocrinol Metab 2016;101:1889-1916",
+  respiratoryAcidosis: "Epstein SK, Singh N. Respiratory acidosis. Respir Care 2001;46:366-383",
+  respiratoryAlkalosis: "Foster GT, Vaziri ND, Sassoon CS. Respiratory alkalosis. Respir Care 2001;46:384-391",
+  oxygenTherapy: "O'Driscoll BR, Howard LS, Earis J, Mak V. BTS guideline for oxygen use in adults in healthcare and emergency settings. Thorax 2017;72(Suppl 1):ii1-ii90",
+};
+
+// Every cause the app teaches, keyed by its stable ID; the disorder lists below reference these entries
+export const causeKnowledgeBase = {
+  // Respiratory acidosis
+  cns_depression: {
+    id: "cns_depression",
+    name: "CNS depression (opioids, sedatives, head injury, stroke)",
+    category: "central",
+    mnemonics: [],
+    investigations: ["Drug history and toxicology screen", "CT head if focal signs or trauma", "Trial of naloxone if opioids suspected"],
+    keyFeatures: ["Reduced conscious level with a low respiratory rate", "Hypercapnia with a normal A-a gradient"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  neuromuscular: {
+    id: "neuromuscular",
+    name: "Neuromuscular weakness (Guillain–Barré, myasthenia, myopathy, spinal cord injury)",
+    category: "neuromuscular",
+    mnemonics: [],
+    investigations: ["Forced vital capacity and negative inspiratory force", "Neurological examination, nerve conduction studies"],
+    keyFeatures: ["Rapid shallow breathing, weak cough, paradoxical abdominal movement", "FVC < 20 mL/kg predicts ventilatory failure"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  chest_wall_restriction: {
+    id: "chest_wall_restriction",
+    name: "Chest wall restriction (pain, trauma, kyphoscoliosis, raised intra-abdominal pressure)",
+    category: "chest_wall",
+    mnemonics: [],
+    investigations: ["Chest X-ray", "Bladder pressure if abdominal compartment syndrome suspected"],
+    keyFeatures: ["Splinting from pain or flail segment", "Small lung volumes with normal lung parenchyma"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  parenchymal_failure: {
+    id: "parenchymal_failure",
+    name: "Parenchymal lung disease (pneumonia, pulmonary oedema, ARDS)",
+    category: "pulmonary",
+    mnemonics: [],
+    investigations: ["Chest X-ray", "P/F ratio and A-a gradient", "Blood and sputum cultures, BNP or echocardiography"],
+    keyFeatures: [
+      "Hypoxaemia usually precedes hypercapnia; a rising pCO₂ signals fatigue",
+      "In chronic hypercapnia, pneumothorax or pulmonary embolism can tip a patient into acute-on-chronic failure",
+    ],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  airway_obstruction: {
+    id: "airway_obstruction",
+    name: "Upper airway obstruction",
+    category: "airway",
+    mnemonics: [],
+    investigations: ["Airway assessment and nasendoscopy", "Flow-volume loop once stable"],
+    keyFeatures: ["Stridor, use of accessory muscles", "Hypercapnia is a late, pre-arrest sign"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  copd: {
+    id: "copd",
+    name: "COPD",
+    category: "pulmonary",
+    mnemonics: [],
+    investigations: ["Spirometry (FEV₁/FVC < 0.7)", "Previous blood gases for the patient's baseline pCO₂"],
+    keyFeatures: ["Raised HCO₃⁻ from renal compensation", "pH near normal despite a high pCO₂"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  restrictive_lung_disease: {
+    id: "restrictive_lung_disease",
+    name: "Restrictive lung disease",
+    category: "pulmonary",
+    mnemonics: [],
+    investigations: ["Lung function tests (reduced TLC)", "High-resolution CT chest"],
+    keyFeatures: ["Hypercapnia only when restriction is advanced", "Often hypoxaemic with a wide A-a gradient"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  obesity_hypoventilation: {
+    id: "obesity_hypoventilation",
+    name: "Obesity hypoventilation",
+    category: "chest_wall",
+    mnemonics: [],
+    investigations: ["Awake daytime blood gas (pCO₂ > 45 mmHg)", "Polysomnography"],
+    keyFeatures: ["BMI ≥ 30 kg/m² with daytime hypercapnia", "Often coexists with obstructive sleep apnoea"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  copd_exacerbation: {
+    id: "copd_exacerbation",
+    name: "COPD exacerbation (infection, bronchospasm)",
+    category: "pulmonary",
+    mnemonics: [],
+    investigations: ["Chest X-ray", "Sputum culture, viral swabs", "Compare with the baseline blood gas"],
+    keyFeatures: ["pH below 7.35 despite a raised HCO₃⁻", "Increased breathlessness, sputum volume or purulence"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+  excess_oxygen: {
+    id: "excess_oxygen",
+    name: "Excess supplemental oxygen",
+    category: "iatrogenic",
+    mnemonics: [],
+    investigations: ["Check the delivered FiO₂ and SpO₂ target", "Repeat gas after titrating to 88-92%"],
+    keyFeatures: ["Worsening V/Q mismatch and Haldane effect in chronic hypercapnia", "SpO₂ above target on high-flow oxygen"],
+    references: [causeReferences.oxygenTherapy],
+  },
+  respiratory_muscle_fatigue: {
+    id: "respiratory_muscle_fatigue",
+    name: "Respiratory muscle fatigue or obesity hypoventilation decompensation",
+    category: "neuromuscular",
+    mnemonics: [],
+    investigations: ["Serial blood gases", "Serum K⁺, Mg²⁺ and phosphate"],
+    keyFeatures: ["Falling respiratory rate or paradoxical breathing after a period of distress", "Hypophosphataemia and hypokalaemia weaken the diaphragm"],
+    references: [causeReferences.respiratoryAcidosis],
+  },
+
+  // High anion gap metabolic acidosis
+  lactic_acidosis: {
+    id: "lactic_acidosis",
+    name: "Lactic acidosis (shock, sepsis, ischaemia, metformin)",
+    category: "lactic",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "L", word: "Lactate" },
+      { mnemonic: "CAT MUD PILES", letter: "M", word: "Metformin" },
+      { mnemonic: "CAT MUD PILES", letter: "L", word: "Lactate" },
+    ],
+    investigations: ["Serum lactate", "Blood cultures and source imaging", "Metformin history; D-lactate assay after bowel resection"],
+    keyFeatures: [
+      "Type A from tissue hypoperfusion, type B from drugs, liver failure or malignancy",
+      "D-lactate (short bowel) is missed by the standard L-lactate assay",
+    ],
+    references: [causeReferences.lacticAcidosis],
+  },
+  diabetic_ketoacidosis: {
+    id: "diabetic_ketoacidosis",
+    name: "Diabetic ketoacidosis",
+    category: "ketoacidosis",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "K", word: "Ketones" },
+      { mnemonic: "CAT MUD PILES", letter: "D", word: "Diabetic ketoacidosis" },
+    ],
+    investigations: ["Capillary or serum β-hydroxybutyrate", "Glucose", "Serum K⁺ before insulin"],
+    keyFeatures: ["β-hydroxybutyrate ≥ 3 mmol/L with HCO₃⁻ < 15 mmol/L", "Euglycaemic presentation with SGLT2 inhibitors"],
+    references: [causeReferences.hyperglycaemicCrises],
+  },
+  alcoholic_ketoacidosis: {
+    id: "alcoholic_ketoacidosis",
+    name: "Alcoholic ketoacidosis",
+    category: "ketoacidosis",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "K", word: "Ketones" },
+      { mnemonic: "CAT MUD PILES", letter: "A", word: "Alcoholic ketoacidosis" },
+      { mnemonic: "CAT MUD PILES", letter: "E", word: "Ethanol" },
+    ],
+    investigations: ["β-hydroxybutyrate (urine dipstick detects only acetoacetate)", "Glucose, lipase, serum ethanol and osmolar gap"],
+    keyFeatures: ["Binge followed by vomiting and poor intake", "Glucose normal or low; often a mixed metabolic alkalosis from vomiting"],
+    references: [causeReferences.ketoacidosis],
+  },
+  starvation_ketosis: {
+    id: "starvation_ketosis",
+    name: "Starvation ketosis",
+    category: "ketoacidosis",
+    mnemonics: [{ mnemonic: "Left Total Knee Replacement", letter: "K", word: "Ketones" }],
+    investigations: ["β-hydroxybutyrate", "Glucose", "Nutritional history"],
+    keyFeatures: ["Mild acidosis; HCO₃⁻ rarely below 18 mmol/L", "Accelerated in pregnancy and hyperemesis"],
+    references: [causeReferences.ketoacidosis],
+  },
+  uraemia: {
+    id: "uraemia",
+    name: "Uraemic acidosis (renal failure)",
+    category: "renal",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "R", word: "Renal failure" },
+      { mnemonic: "CAT MUD PILES", letter: "U", word: "Uraemia" },
+    ],
+    investigations: ["Urea and creatinine", "Serum phosphate and sulphate", "Renal ultrasound"],
+    keyFeatures: ["AG rises once the GFR falls below about 20 mL/min", "Retained phosphate, sulphate and urate"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  toxic_alcohol: {
+    id: "toxic_alcohol",
+    name: "Toxic alcohol (methanol, ethylene glycol)",
+    category: "toxic",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "T", word: "Toxins" },
+      { mnemonic: "CAT MUD PILES", letter: "M", word: "Methanol" },
+      { mnemonic: "CAT MUD PILES", letter: "E", word: "Ethylene glycol" },
+    ],
+    investigations: ["Measured serum osmolality for the osmolar gap", "Methanol and ethylene glycol levels", "Urine microscopy for oxalate crystals"],
+    keyFeatures: [
+      "Early high osmolar gap gives way to a high AG as the parent alcohol is metabolised",
+      "Visual disturbance (methanol) or renal failure (ethylene glycol)",
+    ],
+    references: [causeReferences.toxicAlcohols],
+  },
+  salicylate_toxicity: {
+    id: "salicylate_toxicity",
+    name: "Salicylate toxicity",
+    category: "toxic",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "T", word: "Toxins" },
+      { mnemonic: "CAT MUD PILES", letter: "S", word: "Salicylates" },
+      { mnemonic: "CHAMPS", letter: "S", word: "Salicylates" },
+    ],
+    investigations: ["Serum salicylate level, repeated 2-hourly until falling", "Blood gas for the mixed pattern"],
+    keyFeatures: ["Respiratory alkalosis with a concurrent HAGMA", "Tinnitus, vomiting, hyperthermia"],
+    references: [causeReferences.salicylates],
+  },
+  pyroglutamic_acidosis: {
+    id: "pyroglutamic_acidosis",
+    name: "Pyroglutamic (5-oxoproline) acidosis",
+    category: "drug",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "T", word: "Toxins" },
+      { mnemonic: "CAT MUD PILES", letter: "P", word: "Paracetamol (pyroglutamic acid)" },
+    ],
+    investigations: ["Urine organic acids (5-oxoproline)", "Paracetamol level"],
+    keyFeatures: [
+      "Regular therapeutic paracetamol in malnourished, septic or renally impaired patients",
+      "Unexplained HAGMA with normal lactate, ketones and osmolar gap; paraldehyde and propylene glycol are the other P causes",
+    ],
+    references: [causeReferences.pyroglutamicAcid],
+  },
+  carbon_monoxide_cyanide: {
+    id: "carbon_monoxide_cyanide",
+    name: "Carbon monoxide or cyanide poisoning",
+    category: "toxic",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "T", word: "Toxins" },
+      { mnemonic: "CAT MUD PILES", letter: "C", word: "Carbon monoxide, cyanide" },
+    ],
+    investigations: ["Co-oximetry carboxyhaemoglobin", "Lactate (> 8 mmol/L in smoke inhalation suggests cyanide)"],
+    keyFeatures: ["SpO₂ falsely normal with carboxyhaemoglobin", "Severe lactic acidosis from blocked oxidative phosphorylation"],
+    references: [causeReferences.carbonMonoxide],
+  },
+  toluene: {
+    id: "toluene",
+    name: "Toluene (glue or solvent sniffing)",
+    category: "toxic",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "T", word: "Toxins" },
+      { mnemonic: "CAT MUD PILES", letter: "T", word: "Toluene" },
+    ],
+    investigations: ["Urine hippurate", "Serum K⁺"],
+    keyFeatures: ["Hippurate is excreted rapidly, so the AG may look normal", "Severe hypokalaemia"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  isoniazid_iron: {
+    id: "isoniazid_iron",
+    name: "Isoniazid or iron poisoning",
+    category: "toxic",
+    mnemonics: [
+      { mnemonic: "Left Total Knee Replacement", letter: "T", word: "Toxins" },
+      { mnemonic: "CAT MUD PILES", letter: "I", word: "Isoniazid, iron" },
+    ],
+    investigations: ["Serum iron at 4-6 hours", "Abdominal X-ray for tablets", "Lactate"],
+    keyFeatures: ["Isoniazid: refractory seizures responding to pyridoxine", "Iron: GI haemorrhage then shock and lactic acidosis"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+
+  // Normal anion gap metabolic acidosis
+  ureteric_diversion: {
+    id: "ureteric_diversion",
+    name: "Ureterosigmoidostomy or ileal conduit",
+    category: "gastrointestinal",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "U", word: "Ureterostomy" }],
+    investigations: ["Surgical history", "Serum K⁺ and Cl⁻"],
+    keyFeatures: ["Bowel mucosa exchanges urinary Cl⁻ for HCO₃⁻", "Worse with long transit or a stenosed conduit"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  small_bowel_fistula: {
+    id: "small_bowel_fistula",
+    name: "Ileostomy or high-output small bowel fistula",
+    category: "gastrointestinal",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "S", word: "Small bowel fistula" }],
+    investigations: ["Stoma or fistula output volume", "Urine anion gap"],
+    keyFeatures: ["Loss of HCO₃⁻-rich small bowel fluid", "Negative urine anion gap"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  chloride_load: {
+    id: "chloride_load",
+    name: "Chloride load (0.9% saline)",
+    category: "iatrogenic",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "E", word: "Extra chloride" }],
+    investigations: ["Fluid balance chart", "Serum Cl⁻ trend"],
+    keyFeatures: ["Hyperchloraemia after large-volume saline resuscitation", "Renal NH₄⁺ excretion preserved (negative urine anion gap)"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  gi_bicarbonate_loss: {
+    id: "gi_bicarbonate_loss",
+    name: "Diarrhoea (infective, laxatives, VIPoma)",
+    category: "gastrointestinal",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "D", word: "Diarrhoea" }],
+    investigations: ["Urine anion gap (negative)", "Stool culture; laxative screen if covert use suspected"],
+    keyFeatures: ["Hypokalaemia from stool K⁺ loss", "Renal NH₄⁺ excretion rises appropriately"],
+    references: [causeReferences.urineAnionGap],
+  },
+  carbonic_anhydrase_inhibitor: {
+    id: "carbonic_anhydrase_inhibitor",
+    name: "Carbonic anhydrase inhibitor (acetazolamide, topiramate)",
+    category: "drug",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "C", word: "Carbonic anhydrase inhibitor" }],
+    investigations: ["Drug history", "Urine pH (alkaline early)"],
+    keyFeatures: ["Proximal bicarbonaturia mimicking a proximal RTA", "Resolves when the drug is stopped"],
+    references: [causeReferences.renalTubularAcidosis],
+  },
+  distal_rta: {
+    id: "distal_rta",
+    name: "Distal (type 1) RTA",
+    category: "renal",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "R", word: "Renal tubular acidosis" }],
+    investigations: ["Urine pH (> 5.5 despite acidaemia)", "Urine anion gap (positive)", "Renal ultrasound for nephrocalcinosis"],
+    keyFeatures: [
+      "Hypokalaemia, nephrocalcinosis and stones",
+      "Sjögren's, SLE, amphotericin, lithium, obstructive uropathy",
+    ],
+    references: [causeReferences.renalTubularAcidosis],
+  },
+  proximal_rta: {
+    id: "proximal_rta",
+    name: "Proximal (type 2) RTA",
+    category: "renal",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "R", word: "Renal tubular acidosis" }],
+    investigations: ["Urine glucose, phosphate and amino acids (Fanconi syndrome)", "Serum and urine protein electrophoresis"],
+    keyFeatures: [
+      "HCO₃⁻ settles at 12-20 mmol/L; urine pH < 5.5 once below the threshold",
+      "Myeloma, tenofovir, ifosfamide, acetazolamide",
+    ],
+    references: [causeReferences.renalTubularAcidosis],
+  },
+  type4_rta: {
+    id: "type4_rta",
+    name: "Type 4 RTA (hypoaldosteronism)",
+    category: "renal",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "R", word: "Renal tubular acidosis" }],
+    investigations: ["Plasma renin and aldosterone", "Drug review (ACE inhibitors, ARBs, spironolactone, trimethoprim)"],
+    keyFeatures: ["Hyperkalaemia with a mild acidosis", "Diabetic hyporeninaemic hypoaldosteronism is the commonest cause"],
+    references: [causeReferences.renalTubularAcidosis],
+  },
+  adrenal_insufficiency: {
+    id: "adrenal_insufficiency",
+    name: "Adrenal insufficiency (Addison's disease)",
+    category: "endocrine",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "A", word: "Addison's disease" }],
+    investigations: ["Morning cortisol or short Synacthen test", "Plasma renin and aldosterone"],
+    keyFeatures: ["Hyponatraemia, hyperkalaemia and hypotension", "Aldosterone deficiency impairs distal H⁺ secretion"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  pancreatic_fistula: {
+    id: "pancreatic_fistula",
+    name: "Pancreatic or biliary fistula or drainage",
+    category: "gastrointestinal",
+    mnemonics: [{ mnemonic: "USED CRAP", letter: "P", word: "Pancreatic duodenal fistula" }],
+    investigations: ["Drain output volume and amylase", "Urine anion gap"],
+    keyFeatures: ["Pancreatic juice is rich in HCO₃⁻", "Acidosis tracks drain output"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  early_ckd: {
+    id: "early_ckd",
+    name: "Early chronic kidney disease",
+    category: "renal",
+    mnemonics: [],
+    investigations: ["eGFR and urine albumin:creatinine ratio", "Urine anion gap (positive)"],
+    keyFeatures: ["Reduced ammoniagenesis before anions accumulate", "AG becomes high as the GFR falls further"],
+    references: [causeReferences.metabolicAcidosis],
+  },
+  ketoacidosis_recovery: {
+    id: "ketoacidosis_recovery",
+    name: "Ketoacidosis with ketone loss (treated DKA)",
+    category: "ketoacidosis",
+    mnemonics: [],
+    investigations: ["β-hydroxybutyrate trend", "Serum Cl⁻ and the volume of saline given"],
+    keyFeatures: ["Ketone anions lost in urine leave a hyperchloraemic acidosis", "Common in the recovery phase of DKA"],
+    references: [causeReferences.hyperglycaemicCrises],
+  },
+
+  // Low or negative anion gap
+  hypoalbuminaemia: {
+    id: "hypoalbuminaemia",
+    name: "Low unmeasured anions (hypoalbuminaemia, dilution)",
+    category: "physiological",
+    mnemonics: [],
+    investigations: ["Serum albumin", "Albumin-corrected anion gap"],
+    keyFeatures: ["AG falls about 2.5 mmol/L per 10 g/L fall in albumin", "Can hide a coexisting HAGMA"],
+    references: [causeReferences.anionGap],
+  },
+  unmeasured_cations: {
+    id: "unmeasured_cations",
+    name: "Unmeasured cations (Ca, Mg, K, lithium, paraproteinaemia)",
+    category: "electrolyte",
+    mnemonics: [],
+    investigations: ["Serum Ca²⁺, Mg²⁺ and lithium level", "Serum protein electrophoresis (IgG myeloma)"],
+    keyFeatures: ["Cationic IgG paraproteins lower the AG", "Lithium toxicity can make the AG negative"],
+    references: [causeReferences.anionGap],
+  },
+  pseudohyperchloraemia: {
+    id: "pseudohyperchloraemia",
+    name: "Pseudohyperchloraemia (bromide, iodide, salicylates, thiocyanate)",
+    category: "analytical",
+    mnemonics: [],
+    investigations: ["Drug and exposure history", "Chloride by a different analyser method"],
+    keyFeatures: ["Halides read as chloride on ion-selective electrodes", "Negative AG out of keeping with the clinical picture"],
+    references: [causeReferences.anionGap],
+  },
+  analytical_error: {
+    id: "analytical_error",
+    name: "Analytical error (Na, lipids, hyperviscosity)",
+    category: "analytical",
+    mnemonics: [],
+    investigations: ["Repeat on a fresh sample", "Direct ISE sodium if lipaemic or paraproteinaemic"],
+    keyFeatures: ["Indirect ISE underestimates Na⁺ in severe hyperlipidaemia", "Values inconsistent with earlier results"],
+    references: [causeReferences.anionGap],
+  },
+
+  // Respiratory alkalosis
+  cns_disease: {
+    id: "cns_disease",
+    name: "CNS disease (stroke, haemorrhage, meningitis, psychogenic)",
+    category: "central",
+    mnemonics: [{ mnemonic: "CHAMPS", letter: "C", word: "CNS disease" }],
+    investigations: ["CT head", "Lumbar puncture if infection suspected"],
+    keyFeatures: ["Central neurogenic hyperventilation", "Normal A-a gradient"],
+    references: [causeReferences.respiratoryAlkalosis],
+  },
+  hypoxaemic_drive: {
+    id: "hypoxaemic_drive",
+    name: "Hypoxaemia (PE, pneumonia, asthma, altitude)",
+    category: "pulmonary",
+    mnemonics: [{ mnemonic: "CHAMPS", letter: "H", word: "Hypoxia" }],
+    investigations: ["A-a gradient", "Chest X-ray; CT pulmonary angiogram if PE suspected"],
+    keyFeatures: ["pO₂ below about 60 mmHg drives ventilation", "Wide A-a gradient"],
+    references: [causeReferences.respiratoryAlkalosis],
+  },
+  anxiety_pain: {
+    id: "anxiety_pain",
+    name: "Anxiety or pain",
+    category: "central",
+    mnemonics: [{ mnemonic: "CHAMPS", letter: "A", word: "Anxiety, pain" }],
+    investigations: ["A-a gradient (normal)", "Exclude hypoxaemia, sepsis and salicylates first"],
+    keyFeatures: ["Acute alkalosis with perioral tingling and carpopedal spasm", "A diagnosis of exclusion"],
+    references: [causeReferences.respiratoryAlkalosis],
+  },
+  mechanical_ventilation: {
+    id: "mechanical_ventilation",
+    name: "Mechanical or excessive ventilation",
+    category: "iatrogenic",
+    mnemonics: [{ mnemonic: "CHAMPS", letter: "M", word: "Mechanical ventilation" }],
+    investigations: ["Ventilator settings and minute ventilation", "End-tidal CO₂ against arterial pCO₂"],
+    keyFeatures: ["Set minute ventilation above the patient's need", "Deliberate only for short-term control of raised ICP"],
+    references: [causeReferences.respiratoryAlkalosis],
+  },
+  pregnancy: {
+    id: "pregnancy",
+    name: "Pregnancy (progesterone)",
+    category: "physiological",
+    mnemonics: [{ mnemonic: "CHAMPS", letter: "P", word: "Progesterone, pregnancy" }],
+    investigations: ["Pregnancy test", "Interpret against the pregnancy reference ranges"],
+    keyFeatures: ["pCO₂ around 30 mmHg with a compensatory fall in HCO₃⁻", "Progesterone stimulates the respiratory centre"],
+    references: [causeReferences.respiratoryAlkalosis],
+  },
+  sepsis: {
+    id: "sepsis",
+    name: "Early sepsis",
+    category: "systemic",
+    mnemonics: [{ mnemonic: "CHAMPS", letter: "S", word: "Sepsis" }],
+    investigations: ["Blood cultures", "Lactate", "Source imaging"],
+    keyFeatures: ["Hyperventilation often precedes fever and hypotension", "Later overtaken by a lactic acidosis"],
+    references: [causeReferences.respiratoryAlkalosis],
+  },
+  liver_failure: {
+    id: "liver_failure",
+    name: "Liver failure",
+    category: "systemic",
+    mnemonics: [],
+    investigations: ["Liver function tests and INR", "Ammonia"],
+    keyFeatures: ["Chronic respiratory alkalosis is common in cirrhosis", "Severity tracks the degree of liver failure"],
+    references: [causeReferences.respiratoryAlkalosis],
+  },
+
+  // Metabolic alkalosis
+  volume_contraction: {
+    id: "volume_contraction",
+    name: "Contraction alkalosis",
+    category: "physiological",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "C", word: "Contraction" }],
+    investigations: ["Volume assessment", "Urine Cl⁻"],
+    keyFeatures: ["Loss of bicarbonate-free fluid concentrates the remaining HCO₃⁻", "Sustained by aldosterone and chloride depletion"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  liquorice: {
+    id: "liquorice",
+    name: "Liquorice / apparent mineralocorticoid excess",
+    category: "endocrine",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "L", word: "Liquorice" }],
+    investigations: ["Dietary history", "Low renin and low aldosterone"],
+    keyFeatures: ["Glycyrrhetinic acid blocks 11β-HSD2 so cortisol activates the mineralocorticoid receptor", "Hypertension with hypokalaemia"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  laxative_abuse: {
+    id: "laxative_abuse",
+    name: "Laxative abuse",
+    category: "gastrointestinal",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "L", word: "Laxative abuse" }],
+    investigations: ["Urine and stool laxative screen", "Urine Cl⁻ (low)"],
+    keyFeatures: ["Chronic use gives an alkalosis with hypokalaemia; acute diarrhoea gives a NAGMA", "Often covert"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  primary_hyperaldosteronism: {
+    id: "primary_hyperaldosteronism",
+    name: "Primary hyperaldosteronism (Conn's)",
+    category: "endocrine",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "E", word: "Endocrine (Conn's)" }],
+    investigations: ["Aldosterone:renin ratio", "Saline suppression test", "Adrenal CT and venous sampling"],
+    keyFeatures: ["Hypertension with hypokalaemia", "Urine Cl⁻ high (chloride-resistant)"],
+    references: [causeReferences.primaryAldosteronism],
+  },
+  cushings: {
+    id: "cushings",
+    name: "Cushing's syndrome",
+    category: "endocrine",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "E", word: "Endocrine (Cushing's)" }],
+    investigations: ["Overnight dexamethasone suppression test", "24-hour urine free cortisol"],
+    keyFeatures: ["Ectopic ACTH gives the most marked alkalosis and hypokalaemia", "Hypertension, central obesity, proximal myopathy"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  gastric_loss: {
+    id: "gastric_loss",
+    name: "Vomiting or nasogastric suction",
+    category: "gastrointestinal",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "V", word: "Vomiting" }],
+    investigations: ["Urine Cl⁻ (< 20 mmol/L)", "Serum K⁺"],
+    keyFeatures: ["Loss of HCl with chloride and volume depletion", "Urine Na⁺ can be high from bicarbonaturia, so use urine Cl⁻"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  alkali_load: {
+    id: "alkali_load",
+    name: "Alkali load with reduced GFR (milk-alkali, antacids)",
+    category: "iatrogenic",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "E", word: "Excess alkali" }],
+    investigations: ["Medication and supplement history", "Serum Ca²⁺ and renal function"],
+    keyFeatures: ["Only persists when the kidneys cannot excrete the load", "Hypercalcaemia in milk-alkali syndrome"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  bartter_gitelman: {
+    id: "bartter_gitelman",
+    name: "Bartter or Gitelman syndrome",
+    category: "renal",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "R", word: "Renal (Bartter's)" }],
+    investigations: ["Urine Ca²⁺ (low in Gitelman, normal or high in Bartter)", "Serum Mg²⁺", "Urine diuretic screen to exclude covert use"],
+    keyFeatures: ["Normotensive with hypokalaemia and high renin", "Mimics chronic loop (Bartter) or thiazide (Gitelman) use"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  post_hypercapnia: {
+    id: "post_hypercapnia",
+    name: "Post-hypercapnic alkalosis",
+    category: "physiological",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "P", word: "Post-hypercapnia" }],
+    investigations: ["Previous blood gases", "Urine Cl⁻"],
+    keyFeatures: ["Compensatory HCO₃⁻ persists after pCO₂ is lowered quickly, often by ventilation", "Chloride depletion keeps it going"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  diuretics: {
+    id: "diuretics",
+    name: "Loop or thiazide diuretics",
+    category: "drug",
+    mnemonics: [{ mnemonic: "CLEVER PD", letter: "D", word: "Diuretics" }],
+    investigations: ["Drug history", "Urine Cl⁻ (high while acting, low once stopped)", "Urine diuretic screen"],
+    keyFeatures: ["Chloride-resistant during use, chloride-responsive after the diuretic is stopped", "Hypokalaemia"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  villous_adenoma: {
+    id: "villous_adenoma",
+    name: "Villous adenoma or congenital chloridorrhoea",
+    category: "gastrointestinal",
+    mnemonics: [],
+    investigations: ["Colonoscopy", "Stool Cl⁻"],
+    keyFeatures: ["Chloride-rich diarrhoea causes an alkalosis rather than an acidosis", "Hypokalaemia"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  cystic_fibrosis: {
+    id: "cystic_fibrosis",
+    name: "Cystic fibrosis (sweat chloride loss)",
+    category: "systemic",
+    mnemonics: [],
+    investigations: ["Sweat chloride test", "CFTR genotyping"],
+    keyFeatures: ["Heat or exercise increases sweat Cl⁻ loss", "Hyponatraemic, hypochloraemic alkalosis in infants"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  renovascular: {
+    id: "renovascular",
+    name: "Renovascular hypertension or renin-secreting tumour",
+    category: "endocrine",
+    mnemonics: [],
+    investigations: ["Plasma renin and aldosterone (both high)", "Renal artery duplex, CT or MR angiography"],
+    keyFeatures: ["Secondary hyperaldosteronism", "Resistant hypertension, rise in creatinine on ACE inhibitors"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  liddle: {
+    id: "liddle",
+    name: "Liddle's syndrome",
+    category: "renal",
+    mnemonics: [],
+    investigations: ["Low renin and low aldosterone", "Response to amiloride; SCNN1B/SCNN1G genetic testing"],
+    keyFeatures: ["Gain-of-function ENaC mutation", "Early-onset hypertension with hypokalaemia"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  congenital_adrenal_hyperplasia: {
+    id: "congenital_adrenal_hyperplasia",
+    name: "Congenital adrenal hyperplasia (11β- or 17α-hydroxylase)",
+    category: "endocrine",
+    mnemonics: [],
+    investigations: ["11-deoxycorticosterone and steroid profile", "Low renin and low aldosterone"],
+    keyFeatures: ["Excess deoxycorticosterone acts as a mineralocorticoid", "Hypertension with hypokalaemia, disordered puberty"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+  severe_hypokalaemia: {
+    id: "severe_hypokalaemia",
+    name: "Severe hypokalaemia or magnesium depletion",
+    category: "electrolyte",
+    mnemonics: [],
+    investigations: ["Serum K⁺ and Mg²⁺", "Urine K⁺"],
+    keyFeatures: ["K⁺ depletion increases renal H⁺ secretion and ammoniagenesis", "Magnesium must be replaced before potassium will correct"],
+    references: [causeReferences.metabolicAlkalosis],
+  },
+} satisfies Record<string, CauseEntry>;
+
 // Causes data
 export const respiratoryAcidosisCauses = {
   acute: [
-    "CNS depression (head injury, stroke, drugs)",
-    "Respiratory depression (myopathy, spinal cord injury, drugs)",
-    "Hypoventilation (pain, chest wall injury/deformity, raised intra-abdominal pressures)",
-    "Respiratory failure (pneumonia, pneumothorax, oedema, bronchial obstruction)",
-    "Airway obstruction"
+    causeKnowledgeBase.cns_depression,
+    causeKnowledgeBase.neuromuscular,
+    causeKnowledgeBase.chest_wall_restriction,
+    causeKnowledgeBase.parenchymal_failure,
+    causeKnowledgeBase.airway_obstruction,
   ],
   chronic: [
-    "COPD",
-    "Restrictive lung disease"
-  ]
+    causeKnowledgeBase.copd,
+    causeKnowledgeBase.restrictive_lung_disease,
+    causeKnowledgeBase.obesity_hypoventilation,
+    causeKnowledgeBase.neuromuscular,
+  ],
+  // Precipitants of decompensation in chronic hypercapnia
+  acuteOnChronic: [
+    causeKnowledgeBase.copd_exacerbation,
+    causeKnowledgeBase.excess_oxygen,
+    causeKnowledgeBase.cns_depression,
+    causeKnowledgeBase.parenchymal_failure,
+    causeKnowledgeBase.respiratory_muscle_fatigue,
+  ],
 };
 
 export const metabolicAcidosisCauses = {
   normalAGMA: {
     mnemonic: "USED CRAP",
     causes: [
-      "Ureterostomy",
-      "Small bowel fistula",
-      "Extra chloride",
-      "Diarrhoea",
-      "Carbonic anhydrase inhibitor",
-      "Renal tubular acidosis",
-      "Addison's disease",
-      "Pancreatic duodenal fistula"
-    ]
+      causeKnowledgeBase.ureteric_diversion,
+      causeKnowledgeBase.small_bowel_fistula,
+      causeKnowledgeBase.chloride_load,
+      causeKnowledgeBase.gi_bicarbonate_loss,
+      causeKnowledgeBase.carbonic_anhydrase_inhibitor,
+      causeKnowledgeBase.distal_rta,
+      causeKnowledgeBase.proximal_rta,
+      causeKnowledgeBase.type4_rta,
+      causeKnowledgeBase.adrenal_insufficiency,
+      causeKnowledgeBase.pancreatic_fistula,
+      causeKnowledgeBase.early_ckd,
+      causeKnowledgeBase.ketoacidosis_recovery,
+    ],
+  },
+  normalAGMAByOrigin: {
+    gastrointestinal: [
+      causeKnowledgeBase.gi_bicarbonate_loss,
+      causeKnowledgeBase.small_bowel_fistula,
+      causeKnowledgeBase.pancreatic_fistula,
+      causeKnowledgeBase.ureteric_diversion,
+      causeKnowledgeBase.chloride_load,
+    ],
+    renal: [
+      causeKnowledgeBase.distal_rta,
+      causeKnowledgeBase.proximal_rta,
+      causeKnowledgeBase.type4_rta,
+      causeKnowledgeBase.carbonic_anhydrase_inhibitor,
+      causeKnowledgeBase.adrenal_insufficiency,
+      causeKnowledgeBase.early_ckd,
+    ],
   },
   highAGMA: {
     mnemonic: "Left Total Knee Replacement / CAT MUD PILES",
     causes: [
-      "Lactate, Toxins, Ketones, Renal failure",
-      "Carbon monoxide, cyanide",
-      "Alcoholic ketoacidosis",
-      "Toluene",
-      "Methanol, metformin (phenformin)",
-      "Uraemia",
-      "Diabetic ketoacidosis",
-      "Paracetamol, pyroglutamic acid, paraldehyde, propylene glycol",
-      "Isoniazid, iron",
-      "Lactate (L-Lactate, D-Lactate)",
-      "Ethanol, ethylene glycol",
-      "Salicylates"
-    ]
+      causeKnowledgeBase.lactic_acidosis,
+      causeKnowledgeBase.diabetic_ketoacidosis,
+      causeKnowledgeBase.alcoholic_ketoacidosis,
+      causeKnowledgeBase.starvation_ketosis,
+      causeKnowledgeBase.uraemia,
+      causeKnowledgeBase.toxic_alcohol,
+      causeKnowledgeBase.salicylate_toxicity,
+      causeKnowledgeBase.pyroglutamic_acidosis,
+      causeKnowledgeBase.carbon_monoxide_cyanide,
+      causeKnowledgeBase.toluene,
+      causeKnowledgeBase.isoniazid_iron,
+    ],
   },
   lowNegativeAGMA: [
-    "Unmeasured anions (albumin, dilution)",
-    "Unmeasured cations (Ca, Mg, K, lithium, paraproteinaemia)",
-    "Pseudohyperchloraemia (bromide, iodide, salicylates, thiocyanate)",
-    "Analytical error (Na, lipids, hyperviscosity)"
-  ]
+    causeKnowledgeBase.hypoalbuminaemia,
+    causeKnowledgeBase.unmeasured_cations,
+    causeKnowledgeBase.pseudohyperchloraemia,
+    causeKnowledgeBase.analytical_error,
+  ],
 };
 
 export const respiratoryAlkalosisCauses = {
   mnemonic: "CHAMPS",
   causes: [
-    "CNS disease (stroke, haemorrhage, psychogenic)",
-    "Hypoxia (Pneumonia, PE, asthma, altitude)",
-    "Anxiety, pain",
-    "Mechanical or excessive ventilation",
-    "Progesterone, pregnancy",
-    "Salicylates and sepsis"
-  ]
+    causeKnowledgeBase.cns_disease,
+    causeKnowledgeBase.hypoxaemic_drive,
+    causeKnowledgeBase.anxiety_pain,
+    causeKnowledgeBase.mechanical_ventilation,
+    causeKnowledgeBase.pregnancy,
+    causeKnowledgeBase.salicylate_toxicity,
+    causeKnowledgeBase.sepsis,
+    causeKnowledgeBase.liver_failure,
+  ],
 };
 
 export const metabolicAlkalosisCauses = {
   mnemonic: "CLEVER PD",
   causes: [
-    "Contraction (volume contraction)",
-    "Liquorice, laxative abuse",
-    "Endocrine (Conn's, Cushing's)",
-    "Vomiting, GI losses",
-    "Excess alkali (antacids)",
-    "Renal (Bartter's)",
-    "Post-hypercapnia",
-    "Diuretics"
-  ]
-};
-
-// Normal ranges
-export const normalRanges = {
+    causeKnowledgeBase.volume_contraction,
+    causeKnowledgeBase.liquorice,
+    causeKnowledgeBase.laxative_abuse,
+    causeKnowledgeBase.primary_hyperaldosteronism,
+    causeKnowledgeBase.cushings,
+    causeKnowledgeBase.gastric_loss,
+    causeKnowledgeBase.alkali_load,
+    causeKnowledgeBase.bartter_gitelman,
+    causeKnowledgeBase.post_hypercapnia,
+    causeKnowledgeBase.diuretics,
+  ],
+  chlorideResponsive: [
+    causeKnowledgeBase.gastric_loss,
+    causeKnowledgeBase.diuretics,
+    causeKnowledgeBase.post_hypercapnia,
+    causeKnowledgeBase.villous_adenoma,
+    causeKnowledgeBase.cystic_fibrosis,
+  ],
+  chlorideResistantHypertensive: [
+    causeKnowledgeBase.primary_hyperaldosteronism,
+    causeKnowledgeBase.renovascular,
+    causeKnowledgeBase.cushings,
+    causeKnowledgeBase.liquorice,
+    causeKnowledgeBase.liddle,
+    causeKnowledgeBase.congenital_adrenal_hyperplasia,
+  ],
+  chlorideResistantNormotensive: [
+    causeKnowledgeBase.diuretics,
+    causeKnowledgeBase.bartter_gitelman,
+    causeKnowledgeBase.severe_hypokalaemia,
+    causeKnowledgeBase.alkali_load,
+  ],
+};
+
+export const clinicalContextFactorLabels: Record<ClinicalContextFactor, string> = {
+  diabetes: "Diabetes",
+  alcohol_use: "Alcohol use",
+  vomiting: "Vomiting / NG losses",
+  diarrhoea: "Diarrhoea",
+  renal_failure: "Renal failure",
+  sepsis: "Sepsis",
+  liver_disease: "Liver disease",
+  copd: "COPD / chronic lung disease",
+};
+
+export const knownDrugLabels: Record<KnownDrug, string> = {
+  metformin: "Metformin",
+  sglt2_inhibitor: "SGLT2 inhibitor",
+  salicylate: "Aspirin / salicylate",
+  paracetamol: "Paracetamol",
+  diuretic: "Loop or thiazide diuretic",
+  acetazolamide: "Acetazolamide",
+  laxative: "Laxatives",
+  opioid_or_sedative: "Opioid or sedative",
+};
+
+// Cut-offs that turn lab values into differential findings (canonical units)
+export const differentialThresholds = {
+  ketonesHigh: 3,
+  ketonesNormal: 0.6,
+  glucoseHigh: 11.1,
+  // Urea high enough to cause an acidosis by itself
+  uraemiaUrea: 20,
+  hypoxaemiaPO2: 60,
+  likelyScore: 6,
+  possibleScore: 3,
+};
+
+// Causes ranked by the differential; priors are relative, not probabilities
+export const differentialCandidates: Record<DifferentialGroup, DifferentialCandidate[]> = {
+  hagma: [
+    {
+      id: "diabetic_ketoacidosis",
+      name: "Diabetic ketoacidosis",
+      prior: 3,
+      rules: [
+        { evidence: "diabetes", weight: 3, reason: "Known diabetes" },
+        { evidence: "sglt2_inhibitor", weight: 2, reason: "SGLT2 inhibitors cause euglycaemic DKA" },
+        { evidence: "ketones_high", weight: 4, reason: "β-hydroxybutyrate ≥ 3 mmol/L" },
+        { evidence: "glucose_high", weight: 2, reason: "Glucose ≥ 11.1 mmol/L" },
+        { evidence: "ketones_normal", weight: -5, reason: "β-hydroxybutyrate < 0.6 mmol/L" },
+        { evidence: "glucose_normal", weight: -1, reason: "Normal glucose (unless euglycaemic DKA)" },
+      ],
+    },
+    {
+      id: "lactic_acidosis",
+      name: "Lactic acidosis (shock, sepsis, ischaemia)",
+      prior: 3,
+      rules: [
+        { evidence: "sepsis", weight: 3, reason: "Sepsis" },
+        { evidence: "lactate_high", weight: 5, reason: "Lactate above the reference range" },
+        { evidence: "metformin", weight: 2, reason: "Metformin-associated lactic acidosis" },
+        { evidence: "liver_disease", weight: 1, reason: "Reduced hepatic lactate clearance" },
+        { evidence: "hypoxaemia", weight: 1, reason: "Hypoxaemia" },
+        { evidence: "lactate_normal", weight: -5, reason: "Normal lactate" },
+      ],
+    },
+    {
+      id: "alcoholic_ketoacidosis",
+      name: "Alcoholic ketoacidosis",
+      prior: 1,
+      rules: [
+        { evidence: "alcohol_use", weight: 4, reason: "Alcohol use" },
+        { evidence: "ketones_high", weight: 2, reason: "β-hydroxybutyrate ≥ 3 mmol/L" },
+        { evidence: "glucose_normal", weight: 1, reason: "Glucose usually normal or low" },
+        { evidence: "vomiting", weight: 1, reason: "Vomiting after a binge" },
+        { evidence: "ketones_normal", weight: -4, reason: "β-hydroxybutyrate < 0.6 mmol/L" },
+      ],
+    },
+    {
+      id: "starvation_ketosis",
+      name: "Starvation ketosis",
+      prior: 0.5,
+      rules: [
+        { evidence: "ketones_high", weight: 1, reason: "Ketosis" },
+        { evidence: "pregnancy", weight: 1, reason: "Accelerated starvation in pregnancy" },
+        { evidence: "vomiting", weight: 1, reason: "Poor intake (e.g. hyperemesis)" },
+        { evidence: "ketones_normal", weight: -3, reason: "β-hydroxybutyrate < 0.6 mmol/L" },
+      ],
+    },
+    {
+      id: "uraemia",
+      name: "Uraemic acidosis (renal failure)",
+      prior: 1,
+      rules: [
+        { evidence: "renal_failure", weight: 4, reason: "Known renal failure" },
+        { evidence: "urea_high", weight: 3, reason: "Urea ≥ 20 mmol/L" },
+      ],
+    },
+    {
+      id: "toxic_alcohol",
+      name: "Toxic alcohol (methanol, ethylene glycol)",
+      prior: 1,
+      rules: [
+        { evidence: "osmolar_gap_elevated", weight: 5, reason: "Elevated osmolar gap" },
+        { evidence: "alcohol_use", weight: 1, reason: "Alcohol use (substitute drinking)" },
+        { evidence: "osmolar_gap_normal", weight: -3, reason: "Normal osmolar gap (late presentations can still have one)" },
+      ],
+    },
+    {
+      id: "salicylate_toxicity",
+      name: "Salicylate toxicity",
+      prior: 0.5,
+      rules: [
+        { evidence: "salicylate", weight: 5, reason: "Salicylate exposure" },
+        { evidence: "concurrent_respiratory_alkalosis", weight: 3, reason: "Concurrent respiratory alkalosis" },
+      ],
+    },
+    {
+      id: "pyroglutamic_acidosis",
+      name: "Pyroglutamic (5-oxoproline) acidosis",
+      prior: 0.3,
+      rules: [
+        { evidence: "paracetamol", weight: 3, reason: "Regular paracetamol" },
+        { evidence: "sepsis", weight: 1, reason: "Critical illness depletes glutathione" },
+        { evidence: "renal_failure", weight: 1, reason: "Renal impairment" },
+      ],
+    },
+  ],
+  nagma: [
+    {
+      id: "gi_bicarbonate_loss",
+      name: "GI bicarbonate loss (diarrhoea, fistula)",
+      prior: 3,
+      rules: [
+        { evidence: "diarrhoea", weight: 5, reason: "Diarrhoea" },
+        { evidence: "laxative", weight: 3, reason: "Laxative use" },
+        { evidence: "urine_anion_gap_negative", weight: 3, reason: "Negative urine anion gap (renal NH₄⁺ excretion intact)" },
+        { evidence: "hypokalaemia", weight: 1, reason: "Hypokalaemia" },
+        { evidence: "urine_anion_gap_positive", weight: -3, reason: "Positive urine anion gap points to the kidney" },
+      ],
+    },
+    {
+      id: "chloride_load",
+      name: "Chloride load (0.9% saline)",
+      prior: 2,
+      rules: [
+        { evidence: "sepsis", weight: 1, reason: "Likely fluid resuscitation" },
+        { evidence: "urine_anion_gap_negative", weight: 1, reason: "Negative urine anion gap" },
+      ],
+    },
+    {
+      id: "distal_rta",
+      name: "Distal (type 1) RTA",
+      prior: 1,
+      rules: [
+        { evidence: "urine_anion_gap_positive", weight: 3, reason: "Positive urine anion gap" },
+        { evidence: "hypokalaemia", weight: 2, reason: "Hypokalaemia" },
+        { evidence: "urine_anion_gap_negative", weight: -3, reason: "Negative urine anion gap" },
+      ],
+    },
+    {
+      id: "type4_rta",
+      name: "Type 4 RTA (hypoaldosteronism)",
+      prior: 1,
+      rules: [
+        { evidence: "diabetes", weight: 2, reason: "Diabetic hyporeninaemic hypoaldosteronism" },
+        { evidence: "hyperkalaemia", weight: 3, reason: "Hyperkalaemia" },
+        { evidence: "urine_anion_gap_positive", weight: 2, reason: "Positive urine anion gap" },
+        { evidence: "renal_failure", weight: 1, reason: "Renal impairment" },
+        { evidence: "hypokalaemia", weight: -3, reason: "Hypokalaemia argues against it" },
+      ],
+    },
+    {
+      id: "early_ckd",
+      name: "Early chronic kidney disease",
+      prior: 1,
+      rules: [
+        { evidence: "renal_failure", weight: 4, reason: "Known renal impairment" },
+        { evidence: "urea_high", weight: 1, reason: "Raised urea" },
+        { evidence: "urine_anion_gap_positive", weight: 1, reason: "Positive urine anion gap" },
+      ],
+    },
+    {
+      id: "proximal_rta",
+      name: "Proximal (type 2) RTA",
+      prior: 0.5,
+      rules: [
+        { evidence: "acetazolamide", weight: 3, reason: "Carbonic anhydrase inhibition" },
+        { evidence: "hypokalaemia", weight: 1, reason: "Hypokalaemia" },
+        { evidence: "urine_anion_gap_positive", weight: 1, reason: "Positive urine anion gap" },
+      ],
+    },
+    {
+      id: "ketoacidosis_recovery",
+      name: "Ketoacidosis with ketone loss (treated DKA)",
+      prior: 0.5,
+      rules: [
+        { evidence: "diabetes", weight: 2, reason: "Known diabetes" },
+        { evidence: "ketones_high", weight: 1, reason: "Ongoing ketosis" },
+      ],
+    },
+  ],
+  respiratory_acidosis: [
+    {
+      id: "cns_depression",
+      name: "Respiratory depression (opioids, sedatives, alcohol)",
+      prior: 2,
+      rules: [
+        { evidence: "opioid_or_sedative", weight: 5, reason: "Opioid or sedative exposure" },
+        { evidence: "alcohol_use", weight: 1, reason: "Alcohol" },
+      ],
+    },
+    {
+      id: "copd",
+      name: "COPD / chronic lung disease",
+      prior: 2,
+      rules: [
+        { evidence: "copd", weight: 4, reason: "Known COPD" },
+        { evidence: "chronic_compensation", weight: 2, reason: "Chronic renal compensation" },
+      ],
+    },
+    {
+      id: "parenchymal_failure",
+      name: "Pneumonia, pulmonary oedema or ARDS",
+      prior: 2,
+      rules: [
+        { evidence: "sepsis", weight: 2, reason: "Sepsis" },
+        { evidence: "hypoxaemia", weight: 2, reason: "Hypoxaemia" },
+      ],
+    },
+    {
+      id: "neuromuscular",
+      name: "Neuromuscular weakness or chest wall disease",
+      prior: 1,
+      rules: [
+        { evidence: "chronic_compensation", weight: 1, reason: "Chronic compensation" },
+      ],
+    },
+    {
+      id: "airway_obstruction",
+      name: "Upper airway obstruction",
+      prior: 1,
+      rules: [],
+    },
+    {
+      id: "obesity_hypoventilation",
+      name: "Obesity hypoventilation",
+      prior: 0.5,
+      rules: [
+        { evidence: "chronic_compensation", weight: 1, reason: "Chronic compensation" },
+      ],
+    },
+  ],
+  respiratory_alkalosis: [
+    {
+      id: "hypoxaemic_drive",
+      name: "Hypoxaemia (PE, pneumonia, asthma)",
+      prior: 2,
+      rules: [
+        { evidence: "hypoxaemia", weight: 4, reason: "pO₂ < 60 mmHg" },
+      ],
+    },
+    {
+      id: "anxiety_pain",
+      name: "Anxiety or pain",
+      prior: 2,
+      rules: [
+        { evidence: "hypoxaemia", weight: -2, reason: "Hypoxaemia needs another explanation" },
+        { evidence: "concurrent_hagma", weight: -2, reason: "A concurrent HAGMA needs another explanation" },
+      ],
+    },
+    {
+      id: "sepsis",
+      name: "Early sepsis",
+      prior: 1,
+      rules: [
+        { evidence: "sepsis", weight: 5, reason: "Sepsis" },
+        { evidence: "lactate_high", weight: 1, reason: "Raised lactate" },
+      ],
+    },
+    {
+      id: "salicylate_toxicity",
+      name: "Salicylate toxicity",
+      prior: 0.5,
+      rules: [
+        { evidence: "salicylate", weight: 5, reason: "Salicylate exposure" },
+        { evidence: "concurrent_hagma", weight: 3, reason: "Concurrent HAGMA" },
+      ],
+    },
+    {
+      id: "pregnancy",
+      name: "Pregnancy (progesterone)",
+      prior: 0.5,
+      rules: [
+        { evidence: "pregnancy", weight: 6, reason: "Pregnant" },
+      ],
+    },
+    {
+      id: "liver_failure",
+      name: "Liver failure",
+      prior: 0.5,
+      rules: [
+        { evidence: "liver_disease", weight: 4, reason: "Liver disease" },
+      ],
+    },
+    {
+      id: "cns_disease",
+      name: "CNS disease (stroke, haemorrhage)",
+      prior: 1,
+      rules: [],
+    },
+  ],
+  metabolic_alkalosis: [
+    {
+      id: "gastric_loss",
+      name: "Vomiting or NG suction",
+      prior: 3,
+      rules: [
+        { evidence: "vomiting", weight: 5, reason: "Vomiting or NG losses" },
+        { evidence: "urine_chloride_low", weight: 2, reason: "Urine Cl⁻ < 20 mmol/L (chloride-responsive)" },
+        { evidence: "urine_chloride_high", weight: -3, reason: "Urine Cl⁻ > 20 mmol/L" },
+      ],
+    },
+    {
+      id: "diuretics",
+      name: "Diuretics",
+      prior: 3,
+      rules: [
+        { evidence: "diuretic", weight: 5, reason: "Diuretic use" },
+        { evidence: "hypokalaemia", weight: 1, reason: "Hypokalaemia" },
+        { evidence: "urine_chloride_high", weight: 1, reason: "Urine Cl⁻ high while diuretics act" },
+      ],
+    },
+    {
+      id: "post_hypercapnia",
+      name: "Post-hypercapnic alkalosis",
+      prior: 1,
+      rules: [
+        { evidence: "copd", weight: 2, reason: "Chronic hypercapnia recently corrected" },
+      ],
+    },
+    {
+      id: "primary_hyperaldosteronism",
+      name: "Mineralocorticoid excess (Conn's, Cushing's, liquorice)",
+      prior: 0.5,
+      rules: [
+        { evidence: "hypertension", weight: 4, reason: "Hypertension" },
+        { evidence: "urine_chloride_high", weight: 2, reason: "Chloride-resistant" },
+        { evidence: "hypokalaemia", weight: 1, reason: "Hypokalaemia" },
+        { evidence: "urine_chloride_low", weight: -2, reason: "Chloride-responsive" },
+      ],
+    },
+    {
+      id: "alkali_load",
+      name: "Alkali load (antacids, milk-alkali)",
+      prior: 0.5,
+      rules: [
+        { evidence: "renal_failure", weight: 2, reason: "Reduced GFR cannot excrete the load" },
+      ],
+    },
+    {
+      id: "bartter_gitelman",
+      name: "Bartter or Gitelman syndrome",
+      prior: 0.3,
+      rules: [
+        { evidence: "urine_chloride_high", weight: 2, reason: "Chloride-resistant" },
+        { evidence: "hypokalaemia", weight: 1, reason: "Hypokalaemia" },
+        { evidence: "hypertension", weight: -2, reason: "Normotensive" },
+      ],
+    },
+  ],
+};
+
+export const followUpTestDetails: Record<FollowUpTestId, { name: string; causeIds: CauseId[] }> = {
+  repeat_gas: { name: "Repeat blood gas", causeIds: ["analytical_error"] },
+  arterial_gas: { name: "Arterial blood gas", causeIds: [] },
+  electrolytes: { name: "Serum Na⁺ and Cl⁻", causeIds: [] },
+  albumin: { name: "Serum albumin", causeIds: ["hypoalbuminaemia"] },
+  lactate: { name: "Serum lactate", causeIds: ["lactic_acidosis"] },
+  ketones: {
+    name: "Blood β-hydroxybutyrate",
+    causeIds: ["diabetic_ketoacidosis", "alcoholic_ketoacidosis", "starvation_ketosis"],
+  },
+  glucose: { name: "Blood glucose", causeIds: ["diabetic_ketoacidosis"] },
+  urea_creatinine: { name: "Urea and creatinine", causeIds: ["uraemia", "early_ckd"] },
+  serum_osmolality: { name: "Measured serum osmolality (osmolar gap)", causeIds: ["toxic_alcohol"] },
+  toxic_alcohol_levels: { name: "Methanol and ethylene glycol levels", causeIds: ["toxic_alcohol"] },
+  salicylate_level: { name: "Serum salicylate level", causeIds: ["salicylate_toxicity"] },
+  paracetamol_level: {
+    name: "Paracetamol level and urine 5-oxoproline",
+    causeIds: ["pyroglutamic_acidosis"],
+  },
+  urine_electrolytes: {
+    name: "Spot urine Na⁺, K⁺ and Cl⁻ (urine anion gap)",
+    causeIds: ["gi_bicarbonate_loss", "distal_rta", "type4_rta", "proximal_rta"],
+  },
+  urine_ph: { name: "Fresh urine pH", causeIds: ["distal_rta", "proximal_rta"] },
+  potassium_magnesium: {
+    name: "Serum K⁺ and Mg²⁺",
+    causeIds: ["type4_rta", "distal_rta", "severe_hypokalaemia", "bartter_gitelman"],
+  },
+  urine_chloride: { name: "Spot urine Cl⁻", causeIds: ["gastric_loss", "diuretics", "primary_hyperaldosteronism"] },
+  renin_aldosterone: {
+    name: "Plasma renin and aldosterone",
+    causeIds: ["primary_hyperaldosteronism", "renovascular", "liquorice", "liddle"],
+  },
+  oxygenation: { name: "Arterial pO₂ with FiO₂ (A-a gradient)", causeIds: ["parenchymal_failure", "hypoxaemic_drive"] },
+  baseline_gas: { name: "Previous blood gas when well", causeIds: ["copd", "copd_exacerbation"] },
+};
+
+// Bicarbonate therapy: deficit = weight × space × (target − HCO3); each mmol buffered releases 1 mmol CO2
+export const bicarbonateTherapyParameters = {
+  defaultTargetHCO3: 15,
+  defaultBicarbonateSpace: 0.5,
+  defaultInfusionMinutes: 30,
+  initialDoseFraction: 0.5,
+  co2MlPerMmol: 22.4,
+  // Resting CO2 production (mL/min per kg)
+  restingVCO2PerKg: 3,
+  severePH: 7.2,
+  severeHCO3: 10,
+  // Bicarbonate is only considered below these pH values in DKA and lactic acidosis
+  dkaPH: 6.9,
+  lacticAcidosisPH: 7.2,
+};
+
+// Toxic alcohols: concentration (mg/dL) ≈ excess osmoles × MW / 10
+export const toxicAlcohols: Record<
+  ToxicAlcohol,
+  { name: string; molecularWeight: number; metabolites: string; acidosis: string }
+> = {
+  methanol: {
+    name: "Methanol",
+    molecularWeight: 32,
+    metabolites: "Formaldehyde → formic acid",
+    acidosis: "High AG acidosis; optic nerve and basal ganglia toxicity",
+  },
+  ethylene_glycol: {
+    name: "Ethylene glycol",
+    molecularWeight: 62,
+    metabolites: "Glycolic acid → oxalic acid",
+    acidosis: "High AG acidosis; calcium oxalate crystals, AKI, hypocalcaemia",
+  },
+  isopropanol: {
+    name: "Isopropanol",
+    molecularWeight: 60,
+    metabolites: "Acetone",
+    acidosis: "Ketosis without acidosis - the AG stays normal",
+  },
+  propylene_glycol: {
+    name: "Propylene glycol",
+    molecularWeight: 76,
+    metabolites: "L- and D-lactate",
+    acidosis: "Lactic acidosis, usually from lorazepam or other IV drug vehicles",
+  },
+};
+
+// Treatment thresholds for methanol and ethylene glycol (AACT / EXTRIP)
+export const toxicAlcoholThresholds = {
+  fomepizole: {
+    levelMgDL: 20,
+    osmolarGap: 10,
+    pH: 7.3,
+    HCO3: 20,
+  },
+  dialysis: {
+    methanolMgDL: 70,
+    ethyleneGlycolMgDL: 50,
+    pH: 7.15,
+    anionGap: 24,
+  },
+  isopropanolDialysisMgDL: 400,
+};
+
+// DKA and HHS diagnostic thresholds (ADA consensus); glucose and ketones in mmol/L
+export const diabeticEmergencyCriteria = {
+  dka: {
+    glucose: 11.1,
+    ketones: 3,
+    pH: 7.3,
+    HCO3: 18,
+    anionGap: 12,
+  },
+  // A grade applies when pH or HCO3 falls below its bounds
+  dkaSeverity: {
+    moderate: { pH: 7.25, HCO3: 15 },
+    severe: { pH: 7.0, HCO3: 10 },
+  },
+  hhs: {
+    glucose: 33.3,
+    effectiveOsmolality: 320,
+    pH: 7.3,
+    HCO3: 15,
+    ketones: 3,
+  },
+};
+
+// Obstetric cord-gas thresholds; pCO2 in mmHg
+export const cordGasThresholds = {
+  acidaemiaPH: 7.2,
+  severeAcidaemiaPH: 7.0,
+  metabolicBaseDeficit: 12,
+  respiratoryPCO2: 60,
+  // Minimum artery-vein differences for a genuine pair (pH 0.02, pCO2 0.5 kPa)
+  minimumPHDifference: 0.02,
+  minimumPCO2Difference: 3.75,
+  // A wide artery-vein gap points to interrupted cord flow
+  largePHDifference: 0.15,
+  ranges: {
+    arterial: { pH: { low: 7.18, high: 7.38 }, pCO2: { low: 32, high: 66 } },
+    venous: { pH: { low: 7.25, high: 7.45 }, pCO2: { low: 26, high: 56 } },
+  },
+};
+
+// Typical sample-minus-arterial differences used to estimate arterial values
+export const sampleTypeOffsets: Record<
+  SampleType,
+  { label: string; pH: number; pCO2: number; HCO3: number }
+> = {
+  arterial: { label: "Arterial", pH: 0, pCO2: 0, HCO3: 0 },
+  venous: { label: "Venous", pH: -0.03, pCO2: 5, HCO3: 1 },
+  capillary: { label: "Capillary", pH: 0, pCO2: 0, HCO3: 0 },
+  mixed_venous: { label: "Mixed venous", pH: -0.03, pCO2: 6, HCO3: 1 },
+  cord: { label: "Umbilical cord", pH: 0, pCO2: 0, HCO3: 0 },
+};
+
+export interface ReferenceRange {
+  low: number;
+  high: number;
+  unit: string;
+}
+
+export interface ReferenceProfile {
+  id: ReferenceProfileId;
+  name: string;
+  description: string;
+  // Age band whose ranges have been applied (see ageBands)
+  ageGroup: AgeGroup;
+  // Pregnancy adjustment applied on top of the age band (see pregnancyAdjustments)
+  trimester?: Trimester;
+  anionGap: {
+    normal: number;
+    normalWithPotassium: number;
+    // Corrected AG above normal + tolerance is high; below lowCutoff is low/negative
+    tolerance: number;
+    lowCutoff: number;
+    // Whether the analyser reports the AG with K⁺ included
+    includesPotassium: boolean;
+    unit: string;
+  };
+  albuminReference: number;
+  ranges: {
+    pH: ReferenceRange;
+    pCO2: ReferenceRange;
+    HCO3: ReferenceRange;
+    Na: ReferenceRange;
+    K: ReferenceRange;
+    Cl: ReferenceRange;
+    Ca: ReferenceRange;
+    Mg: ReferenceRange;
+    lactate: ReferenceRange;
+    phosphate: ReferenceRange;
+    osmolarGap: ReferenceRange;
+    albumin: ReferenceRange;
+    standardBaseExcess: ReferenceRange;
+    pO2: ReferenceRange;
+    glucose: ReferenceRange;
+    urea: ReferenceRange;
+    pfRatio: ReferenceRange;
+    SIDa: ReferenceRange;
+    SIG: ReferenceRange;
+  };
+}
+
+const commonRanges: ReferenceProfile["ranges"] = {
   pH: { low: 7.35, high: 7.45, unit: "" },
   pCO2: { low: 35, high: 45, unit: "mmHg" },
   HCO3: { low: 22, high: 26, unit: "mmol/L" },
   Na: { low: 135, high: 145, unit: "mmol/L" },
+  K: { low: 3.5, high: 5.0, unit: "mmol/L" },
   Cl: { low: 98, high: 106, unit: "mmol/L" },
-  anionGap: { low: 8, high: 16, normal: 12, unit: "mEq/L" },
+  Ca: { low: 1.15, high: 1.3, unit: "mmol/L" },
+  Mg: { low: 0.7, high: 1.0, unit: "mmol/L" },
+  lactate: { low: 0.5, high: 2.0, unit: "mmol/L" },
+  phosphate: { low: 0.8, high: 1.5, unit: "mmol/L" },
   osmolarGap: { low: -10, high: 10, unit: "mOsm/kg" },
-  albumin: { low: 3.5, high: 5.0, normal: 4.0, unit: "g/dL" }
+  albumin: { low: 3.5, high: 5.0, unit: "g/dL" },
+  standardBaseExcess: { low: -3, high: 3, unit: "mmol/L" },
+  pO2: { low: 80, high: 100, unit: "mmHg" },
+  glucose: { low: 3.9, high: 6.1, unit: "mmol/L" },
+  urea: { low: 2.5, high: 7.1, unit: "mmol/L" },
+  pfRatio: { low: 300, high: 500, unit: "mmHg" },
+  SIDa: { low: 38, high: 46, unit: "mEq/L" },
+  SIG: { low: -2, high: 2, unit: "mEq/L" },
+};
+
+// Reference profiles - adjust to match the local analysers' reference intervals
+export const referenceProfiles: Record<ReferenceProfileId, ReferenceProfile> = {
+  classic: {
+    id: "classic",
+    ageGroup: "adult",
+    name: "Classic (textbook)",
+    description: "Colorimetric chloride era values: AG 12 ± 4 mEq/L",
+    anionGap: {
+      normal: 12,
+      normalWithPotassium: 16,
+      tolerance: 4,
+      lowCutoff: 3,
+      includesPotassium: false,
+      unit: "mEq/L",
+    },
+    albuminReference: 4.0,
+    ranges: commonRanges,
+  },
+  ise_laboratory: {
+    id: "ise_laboratory",
+    ageGroup: "adult",
+    name: "Laboratory ISE analyser",
+    description: "Ion-selective electrode chloride: AG 8 ± 4 mEq/L",
+    anionGap: {
+      normal: 8,
+      normalWithPotassium: 12,
+      tolerance: 4,
+      lowCutoff: 3,
+      includesPotassium: false,
+      unit: "mEq/L",
+    },
+    albuminReference: 4.0,
+    ranges: {
+      ...commonRanges,
+      Na: { low: 133, high: 146, unit: "mmol/L" },
+      K: { low: 3.5, high: 5.3, unit: "mmol/L" },
+      Cl: { low: 95, high: 108, unit: "mmol/L" },
+      HCO3: { low: 22, high: 29, unit: "mmol/L" },
+    },
+  },
+  point_of_care: {
+    id: "point_of_care",
+    ageGroup: "adult",
+    name: "Point-of-care blood gas analyser",
+    description: "AG reported with K⁺: 14 ± 4 mEq/L (10 ± 4 without K⁺)",
+    anionGap: {
+      normal: 10,
+      normalWithPotassium: 14,
+      tolerance: 4,
+      lowCutoff: 3,
+      includesPotassium: true,
+      unit: "mEq/L",
+    },
+    albuminReference: 4.0,
+    ranges: {
+      ...commonRanges,
+      Cl: { low: 98, high: 107, unit: "mmol/L" },
+      K: { low: 3.4, high: 4.5, unit: "mmol/L" },
+    },
+  },
+};
+
+export const defaultReferenceProfileId: ReferenceProfileId = "classic";
+
+export interface AgeBand {
+  label: string;
+  description: string;
+  // Overrides applied on top of the selected institution profile
+  ranges: Partial<ReferenceProfile["ranges"]>;
+  anionGapOffset: number;
+  anionGapToleranceOffset: number;
+  albuminReference?: number;
+  // Winters: expected pCO2 = 1.5 × HCO3 + intercept ± tolerance
+  winters: { intercept: number; tolerance: number };
+}
+
+// Paediatric and neonatal ranges; infants run ~5 mmHg lower pCO2, hence the lower Winters intercept
+export const ageBands: Record<AgeGroup, AgeBand> = {
+  preterm_neonate: {
+    label: "Preterm neonate",
+    description: "< 37 weeks' gestation, first 28 days",
+    ranges: {
+      pH: { low: 7.25, high: 7.45, unit: "" },
+      pCO2: { low: 35, high: 50, unit: "mmHg" },
+      HCO3: { low: 17, high: 24, unit: "mmol/L" },
+      standardBaseExcess: { low: -7, high: 0, unit: "mmol/L" },
+      pO2: { low: 50, high: 80, unit: "mmHg" },
+      K: { low: 4.0, high: 6.5, unit: "mmol/L" },
+      Cl: { low: 100, high: 117, unit: "mmol/L" },
+      Ca: { low: 1.0, high: 1.4, unit: "mmol/L" },
+      phosphate: { low: 1.5, high: 2.8, unit: "mmol/L" },
+      albumin: { low: 2.5, high: 3.5, unit: "g/dL" },
+      glucose: { low: 2.6, high: 7.0, unit: "mmol/L" },
+      urea: { low: 1.0, high: 5.0, unit: "mmol/L" },
+      lactate: { low: 0.5, high: 3.0, unit: "mmol/L" },
+    },
+    anionGapOffset: 2,
+    anionGapToleranceOffset: 1,
+    albuminReference: 3.0,
+    winters: { intercept: 5, tolerance: 3 },
+  },
+  term_neonate: {
+    label: "Term neonate",
+    description: "≥ 37 weeks' gestation, first 28 days",
+    ranges: {
+      pH: { low: 7.3, high: 7.45, unit: "" },
+      pCO2: { low: 32, high: 45, unit: "mmHg" },
+      HCO3: { low: 18, high: 24, unit: "mmol/L" },
+      standardBaseExcess: { low: -5, high: 1, unit: "mmol/L" },
+      pO2: { low: 60, high: 90, unit: "mmHg" },
+      K: { low: 3.7, high: 5.9, unit: "mmol/L" },
+      Cl: { low: 98, high: 112, unit: "mmol/L" },
+      Ca: { low: 1.05, high: 1.37, unit: "mmol/L" },
+      phosphate: { low: 1.5, high: 2.6, unit: "mmol/L" },
+      albumin: { low: 2.8, high: 4.4, unit: "g/dL" },
+      glucose: { low: 2.6, high: 7.0, unit: "mmol/L" },
+      urea: { low: 1.0, high: 5.0, unit: "mmol/L" },
+      lactate: { low: 0.5, high: 3.0, unit: "mmol/L" },
+    },
+    anionGapOffset: 1,
+    anionGapToleranceOffset: 0,
+    albuminReference: 3.5,
+    winters: { intercept: 5, tolerance: 3 },
+  },
+  infant: {
+    label: "Infant",
+    description: "1 month to 1 year",
+    ranges: {
+      pH: { low: 7.34, high: 7.46, unit: "" },
+      pCO2: { low: 27, high: 41, unit: "mmHg" },
+      HCO3: { low: 19, high: 24, unit: "mmol/L" },
+      standardBaseExcess: { low: -4, high: 2, unit: "mmol/L" },
+      K: { low: 3.5, high: 5.5, unit: "mmol/L" },
+      phosphate: { low: 1.2, high: 2.1, unit: "mmol/L" },
+      albumin: { low: 3.2, high: 4.8, unit: "g/dL" },
+    },
+    anionGapOffset: 0,
+    anionGapToleranceOffset: 0,
+    winters: { intercept: 5, tolerance: 3 },
+  },
+  child: {
+    label: "Child",
+    description: "1 to 12 years",
+    ranges: {
+      HCO3: { low: 20, high: 26, unit: "mmol/L" },
+      phosphate: { low: 1.0, high: 1.8, unit: "mmol/L" },
+    },
+    anionGapOffset: 0,
+    anionGapToleranceOffset: 0,
+    winters: { intercept: 8, tolerance: 2 },
+  },
+  adolescent: {
+    label: "Adolescent",
+    description: "12 to 18 years",
+    ranges: {
+      phosphate: { low: 0.9, high: 1.7, unit: "mmol/L" },
+    },
+    anionGapOffset: 0,
+    anionGapToleranceOffset: 0,
+    winters: { intercept: 8, tolerance: 2 },
+  },
+  adult: {
+    label: "Adult",
+    description: "18 years and over",
+    ranges: {},
+    anionGapOffset: 0,
+    anionGapToleranceOffset: 0,
+    winters: { intercept: 8, tolerance: 2 },
+  },
+};
+
+// Non-pregnant baseline the respiratory and metabolic components are judged against
+export const defaultBaselineGas = { pCO2: 40, HCO3: 24 };
+
+export interface PregnancyAdjustment {
+  label: string;
+  // Chronic respiratory alkalosis of pregnancy with renal HCO3 compensation
+  baseline: { pCO2: number; HCO3: number };
+  ranges: Partial<Pick<ReferenceProfile["ranges"], "pH" | "pCO2" | "HCO3">>;
+}
+
+// Progesterone-driven hyperventilation lowers pCO2 from the first trimester, most in the third
+export const pregnancyAdjustments: Record<Trimester, PregnancyAdjustment> = {
+  first: {
+    label: "Pregnancy, first trimester",
+    baseline: { pCO2: 32, HCO3: 21 },
+    ranges: {
+      pH: { low: 7.38, high: 7.46, unit: "" },
+      pCO2: { low: 28, high: 36, unit: "mmHg" },
+      HCO3: { low: 19, high: 23, unit: "mmol/L" },
+    },
+  },
+  second: {
+    label: "Pregnancy, second trimester",
+    baseline: { pCO2: 30, HCO3: 20 },
+    ranges: {
+      pH: { low: 7.4, high: 7.47, unit: "" },
+      pCO2: { low: 26, high: 34, unit: "mmHg" },
+      HCO3: { low: 18, high: 22, unit: "mmol/L" },
+    },
+  },
+  third: {
+    label: "Pregnancy, third trimester",
+    baseline: { pCO2: 28, HCO3: 19 },
+    ranges: {
+      pH: { low: 7.4, high: 7.47, unit: "" },
+      pCO2: { low: 25, high: 32, unit: "mmHg" },
+      HCO3: { low: 17, high: 21, unit: "mmol/L" },
+    },
+  },
+};
+
+// Used when pregnancy is flagged without a trimester
+export const defaultTrimester: Trimester = "third";
+
+// Temperature coefficients per °C from 37 °C (Rosenthal pH, Severinghaus pCO2 and pO2)
+export const temperatureCorrectionFactors = {
+  pH: -0.0147,
+  pCO2: 0.019,
+  pO2: 0.031,
+  // Below this the coefficients are extrapolated
+  reliableAbove: 30,
+};
+
+export const temperatureStrategyLabels: Record<TemperatureStrategy, string> = {
+  alpha_stat: "Alpha-stat (interpret at 37 °C)",
+  ph_stat: "pH-stat (interpret at patient temperature)",
+};
+
+export const interpretationMethodDetails: Record<
+  InterpretationMethod,
+  { label: string; description: string; requires?: string }
+> = {
+  boston: {
+    label: "Boston",
+    description: "Primary disorder from pH, pCO₂ and HCO₃⁻; compensation by Winters and the Boston rules; anion gap and delta ratio",
+  },
+  copenhagen: {
+    label: "Copenhagen",
+    description: "Metabolic component from the standard base excess; compensation by the SBE rules of Schlichtig",
+  },
+  stewart: {
+    label: "Stewart",
+    description: "Net base excess split into strong ion difference, weak acids (albumin, phosphate) and unmeasured anions",
+    requires: "Na, K, Cl, ionised Ca, Mg, albumin and phosphate",
+  },
+};
+
+// The concurrent disorder a compensation result points to, per primary disorder
+export const concurrentDisorderForCompensation: Partial<
+  Record<PrimaryDisorder, Partial<Record<CompensationStatus, PrimaryDisorder>>>
+> = {
+  respiratory_acidosis: { excessive: "metabolic_alkalosis", inadequate: "metabolic_acidosis" },
+  respiratory_alkalosis: { excessive: "metabolic_acidosis", inadequate: "metabolic_alkalosis" },
+  metabolic_acidosis: { excessive: "respiratory_alkalosis", inadequate: "respiratory_acidosis" },
+  metabolic_alkalosis: { excessive: "respiratory_acidosis", inadequate: "respiratory_alkalosis" },
+};
+
+// Sources cited in the reasoning trace
+export const reasoningReferences = {
+  hendersonHasselbalch: "Henderson–Hasselbalch equation: pH = 6.1 + log10(HCO3 / (0.03 × pCO2))",
+  bostonRules: "Narins RG, Emmett M. Simple and mixed acid-base disorders: a practical approach. Medicine (Baltimore) 1980;59:161-187",
+  winters: "Albert MS, Dell RB, Winters RW. Quantitative displacement of acid-base equilibrium in metabolic acidosis. Ann Intern Med 1967;66:312-322",
+  albuminCorrection: "Figge J, Jabor A, Kazda A, Fencl V. Anion gap and hypoalbuminemia. Crit Care Med 1998;26:1807-1810",
+  deltaRatio: "Wrenn K. The delta (Δ) gap: an approach to mixed acid-base disorders. Ann Emerg Med 1990;19:1310-1313",
+  metabolicAlkalosisCompensation: "Javaheri S, Kazemi H. Metabolic alkalosis and hypoventilation in humans. Am Rev Respir Dis 1987;136:1011-1016",
+  copenhagen: "Schlichtig R, Grogono AW, Severinghaus JW. Human PaCO2 and standard base excess compensation for acid-base imbalance. Crit Care Med 1998;26:1173-1179",
+  stewart: "Fencl V, Jabor A, Kazda A, Figge J. Diagnosis of metabolic acid-base disturbances in critically ill patients. Am J Respir Crit Care Med 2000;162:2246-2251",
+  osmolarGap: "Kraut JA, Kurtz I. Toxic alcohol ingestions: clinical features, diagnosis, and management. Clin J Am Soc Nephrol 2008;3:208-225",
+  urineAnionGap: "Batlle DC, Hizon M, Cohen E, et al. The use of the urinary anion gap in the diagnosis of hyperchloremic metabolic acidosis. N Engl J Med 1988;318:594-599",
+  referenceProfile: "Reference ranges of the selected profile (see referenceProfiles, ageBands, pregnancyAdjustments)",
 };